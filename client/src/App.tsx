@@ -5,12 +5,17 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import FamilyTree from "@/pages/family-tree";
+import AuthPage from "@/pages/auth-page";
+import SharedTreePage from "@/pages/shared-tree";
 import NotFound from "@/pages/not-found";
+import { ProtectedRoute } from "@/lib/protected-route";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={FamilyTree} />
+      <ProtectedRoute path="/" component={FamilyTree} />
+      <Route path="/auth" component={AuthPage} />
+      <Route path="/share/:token" component={SharedTreePage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -25,11 +25,11 @@ import { Button } from "@/components/ui/button";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
+import { useProposals } from "@/hooks/use-family-tree";
+import { useTreePermissions, useCurrentTreeId } from "@/hooks/use-trees";
 
 const formSchema = insertFamilyMemberSchema.extend({
   firstName: z.string().min(1, "First name is required"),
-  birthDate: z.string().optional(),
-  deathDate: z.string().optional(),
 }).partial();
 
 interface AddMemberModalProps {
@@ -116,6 +116,9 @@ export default function AddMemberModal({
 }: AddMemberModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const treeId = useCurrentTreeId();
+  const { canEdit } = useTreePermissions();
+  const { propose } = useProposals(false);
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -124,7 +127,7 @@ export default function AddMemberModal({
       middleName: "",
       lastName: "",
       gender: "unknown",
-      birthDate: "",
+      birthDateText: "",
       birthPlace: "",
       isLiving: true,
       x: Math.random() * 400 + 200,
@@ -140,7 +143,7 @@ export default function AddMemberModal({
         middleName: "",
         lastName: "",
         gender: "unknown",
-        birthDate: "",
+        birthDateText: "",
         birthPlace: "",
         isLiving: true,
         x: Math.random() * 400 + 200,
@@ -151,7 +154,7 @@ export default function AddMemberModal({
 
   const createMemberMutation = useMutation({
     mutationFn: async (data: z.infer<typeof formSchema>) => {
-      const response = await apiRequest('POST', '/api/family-members', data);
+      const response = await apiRequest('POST', `/api/trees/${treeId}/family-members`, data);
       const newMember = await response.json();
       
       if (relatedMemberId && newMember?.id) {
@@ -166,14 +169,14 @@ export default function AddMemberModal({
             startDate: new Date().toISOString().split('T')[0]
           };
           
-          await apiRequest('POST', '/api/relationships', relationshipData);
+          await apiRequest('POST', `/api/trees/${treeId}/relationships`, relationshipData);
         }
       }
 
       return newMember;
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/family-tree'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId] });
       toast({
         title: "Success",
         description: "Family member added successfully",
@@ -191,12 +194,29 @@ export default function AddMemberModal({
   });
 
   const onSubmit = (data: z.infer<typeof formSchema>) => {
-    // Convert empty birthDate string to undefined
+    // Convert empty date strings to undefined
     const submitData = {
       ...data,
-      birthDate: data.birthDate ? data.birthDate : undefined,
+      birthDateText: data.birthDateText || undefined,
+      deathDateText: data.deathDateText || undefined,
     };
-    createMemberMutation.mutate(submitData);
+    if (canEdit) {
+      createMemberMutation.mutate(submitData);
+      return;
+    }
+    // Contributors' additions wait for an editor to approve them
+    propose.mutate({ entityType: 'member', action: 'create', data: submitData }, {
+      onSuccess: () => {
+        toast({
+          title: "Sent for review",
+          description: "An editor will look at your suggestion before it appears in the tree",
+        });
+        onOpenChange(false);
+      },
+      onError: (error) => {
+        toast({ title: "Error", description: error.message, variant: "destructive" });
+      }
+    });
   };
 
   return (
@@ -301,12 +321,12 @@ export default function AddMemberModal({
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <FormField
                 control={form.control}
-                name="birthDate"
+                name="birthDateText"
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Birth Date</FormLabel>
                     <FormControl>
-                      <Input type="date" {...field} />
+                      <Input placeholder="e.g. 12 Mar 1901 or about 1850" {...field} value={field.value ?? ""} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -350,12 +370,12 @@ export default function AddMemberModal({
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
-                  name="deathDate"
+                  name="deathDateText"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Death Date</FormLabel>
                       <FormControl>
-                        <Input type="date" {...field} />
+                        <Input placeholder="e.g. before 1950" {...field} value={field.value ?? ""} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -382,9 +402,11 @@ export default function AddMemberModal({
               <Button 
                 type="submit" 
                 className="flex-1"
-                disabled={createMemberMutation.isPending}
+                disabled={createMemberMutation.isPending || propose.isPending}
               >
-                {createMemberMutation.isPending ? "Adding..." : "Add Member"}
+                {createMemberMutation.isPending || propose.isPending
+                  ? "Adding..."
+                  : canEdit ? "Add Member" : "Suggest Member"}
               </Button>
               <Button 
                 type="button" 
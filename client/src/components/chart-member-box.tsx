@@ -0,0 +1,111 @@
+import React from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { FamilyMember, FamilyTreeData } from "@shared/schema";
+import { formatStoredDate, readStoredDate } from "@shared/dates";
+
+export const nameOf = (member: FamilyMember) =>
+  [member.firstName, member.lastName].filter(Boolean).join(' ');
+
+// "about 1850 – 1921", or just the birth date for the living
+export function lifeSpan(member: FamilyMember): string {
+  const born = formatStoredDate(member.birthDate, member.birthDateText);
+  const died = formatStoredDate(member.deathDate, member.deathDateText);
+  if (!born && !died) return '';
+  return `${born ?? '?'}${died || !member.isLiving ? ` – ${died ?? '?'}` : ''}`;
+}
+
+// Years only, for charts with little room: "c.1850–1921"
+export function lifeYears(member: FamilyMember): string {
+  const year = (date: Date | string | null, text: string | null) => {
+    const value = readStoredDate(date, text);
+    if (!value) return '';
+    return `${value.qualifier === 'exact' ? '' : 'c.'}${value.start.year}`;
+  };
+  const born = year(member.birthDate, member.birthDateText);
+  const died = year(member.deathDate, member.deathDateText);
+  if (!born && !died) return '';
+  return died || !member.isLiving ? `${born}–${died}` : born;
+}
+
+interface ChartMemberBoxProps {
+  member: FamilyMember;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Shown in small type before the name, such as an Ahnentafel number
+  label?: string | number;
+  isFocus?: boolean;
+  title?: string;
+  onClick: () => void;
+}
+
+// A person in one of the automatically laid out charts
+export default function ChartMemberBox({
+  member,
+  x,
+  y,
+  width,
+  height,
+  label,
+  isFocus = false,
+  title,
+  onClick
+}: ChartMemberBoxProps) {
+  const genderBorder = member.gender === 'female'
+    ? 'border-l-4 border-l-pink-500'
+    : member.gender === 'male' ? 'border-l-4 border-l-blue-500' : '';
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={title}
+      className={`absolute flex items-center rounded-md border bg-white px-3 text-left shadow-sm transition-shadow hover:shadow-md ${
+        isFocus ? 'border-primary ring-2 ring-primary/30' : 'border-gray-200'
+      } ${genderBorder}`}
+      style={{ left: x, top: y, width, height }}
+    >
+      {label !== undefined && <span className="mr-3 font-mono text-xs text-gray-400">{label}</span>}
+      <span className="min-w-0">
+        <span className="block truncate text-sm font-semibold text-gray-900">{nameOf(member)}</span>
+        <span className="block truncate text-xs text-gray-500">{lifeSpan(member)}</span>
+      </span>
+    </button>
+  );
+}
+
+interface MemberPickerProps {
+  familyTree?: FamilyTreeData;
+  value: number | null;
+  onChange: (id: number) => void;
+}
+
+// Chooses the person a chart is drawn around
+export function MemberPicker({ familyTree, value, onChange }: MemberPickerProps) {
+  const members = [...(familyTree?.members ?? [])].sort((a, b) => nameOf(a).localeCompare(nameOf(b)));
+
+  return (
+    <Select
+      value={value !== null ? String(value) : ""}
+      onValueChange={(id) => onChange(parseInt(id))}
+    >
+      <SelectTrigger className="w-56 bg-white">
+        <SelectValue placeholder="Choose a person" />
+      </SelectTrigger>
+      <SelectContent>
+        {members.map(member => (
+          <SelectItem key={member.id} value={String(member.id)}>
+            {nameOf(member)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
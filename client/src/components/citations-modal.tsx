@@ -0,0 +1,384 @@
+import React, { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { BookOpen, Trash2 } from "lucide-react";
+import { citationQualities } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useCitations, useSources, type CitationTarget } from "@/hooks/use-family-tree";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+const NEW_SOURCE = "new";
+
+const formSchema = z.object({
+  sourceId: z.string().min(1, "Choose a source"),
+  sourceTitle: z.string().optional(),
+  sourceAuthor: z.string().optional(),
+  sourceRepository: z.string().optional(),
+  sourceUrl: z.string().optional(),
+  page: z.string().optional(),
+  quality: z.string().optional(),
+  transcription: z.string().optional(),
+  accessedAt: z.string().optional(),
+}).refine(values => values.sourceId !== NEW_SOURCE || !!values.sourceTitle?.trim(), {
+  message: "A new source needs a title",
+  path: ["sourceTitle"],
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+const emptyForm: FormValues = {
+  sourceId: "",
+  sourceTitle: "",
+  sourceAuthor: "",
+  sourceRepository: "",
+  sourceUrl: "",
+  page: "",
+  quality: "",
+  transcription: "",
+  accessedAt: "",
+};
+
+const optional = (value?: string) => value?.trim() || undefined;
+
+interface CitationsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  target: CitationTarget;
+  // The cited field, such as "birthDate"; null cites the record as a whole
+  field: string | null;
+  label: string;
+}
+
+// Small count button shown beside a field label; opens the citations for that field
+export function CitationCountButton({
+  count,
+  onClick
+}: {
+  count: number;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={count ? `${count} citation${count === 1 ? '' : 's'}` : 'Add a citation'}
+      className={`inline-flex items-center space-x-1 rounded px-1.5 py-0.5 text-xs ${
+        count ? 'bg-primary/10 text-primary' : 'text-gray-400 hover:text-gray-600'
+      }`}
+    >
+      <BookOpen className="w-3 h-3" />
+      <span>{count}</span>
+    </button>
+  );
+}
+
+export default function CitationsModal({
+  open,
+  onOpenChange,
+  target,
+  field,
+  label
+}: CitationsModalProps) {
+  const { toast } = useToast();
+  const { data: sources, createSource, createCitation, deleteCitation } = useSources();
+  const { data: allCitations } = useCitations(open ? target : null);
+  const citations = allCitations?.filter(c => (c.field ?? null) === field) ?? [];
+  const sourceTitle = (id: number) => sources?.find(s => s.id === id)?.title ?? `Source #${id}`;
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyForm,
+  });
+
+  useEffect(() => {
+    if (open) form.reset(emptyForm);
+  }, [open, form]);
+
+  const onSubmit = async (values: FormValues) => {
+    try {
+      const sourceId = values.sourceId === NEW_SOURCE
+        ? (await createSource.mutateAsync({
+            title: values.sourceTitle!.trim(),
+            author: optional(values.sourceAuthor),
+            repository: optional(values.sourceRepository),
+            url: optional(values.sourceUrl),
+          })).id
+        : parseInt(values.sourceId);
+
+      await createCitation.mutateAsync({
+        ...target,
+        sourceId,
+        field,
+        page: optional(values.page),
+        quality: values.quality ? parseInt(values.quality) : null,
+        transcription: optional(values.transcription),
+        accessedAt: values.accessedAt ? new Date(values.accessedAt) : null,
+      });
+      form.reset(emptyForm);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add citation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = (id: number) => {
+    deleteCitation.mutate(id, {
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    });
+  };
+
+  const isSaving = createSource.isPending || createCitation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Citations: {label}</DialogTitle>
+          <DialogDescription>
+            The sources that support this fact, with where in each source it was found.
+          </DialogDescription>
+        </DialogHeader>
+
+        {citations.length === 0 ? (
+          <p className="text-sm text-gray-600">No citations yet.</p>
+        ) : (
+          <ul className="divide-y rounded-md border text-sm">
+            {citations.map(citation => (
+              <li key={citation.id} className="p-3 flex items-start justify-between space-x-3">
+                <div className="space-y-1 min-w-0">
+                  <p className="font-medium text-gray-900">
+                    {sourceTitle(citation.sourceId)}
+                    {citation.page && <span className="text-gray-500 font-normal">, {citation.page}</span>}
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {citation.quality !== null && (
+                      <Badge variant="outline" className="font-normal">
+                        {citationQualities[citation.quality]?.label}
+                      </Badge>
+                    )}
+                    {citation.accessedAt && (
+                      <Badge variant="outline" className="font-normal">
+                        Accessed {format(new Date(citation.accessedAt), 'MMM d, yyyy')}
+                      </Badge>
+                    )}
+                  </div>
+                  {citation.transcription && (
+                    <p className="text-gray-600 italic whitespace-pre-wrap">"{citation.transcription}"</p>
+                  )}
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleDelete(citation.id)}
+                  disabled={deleteCitation.isPending}
+                  aria-label="Delete citation"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 border-t pt-4">
+            <h3 className="text-sm font-semibold">Add Citation</h3>
+
+            <FormField
+              control={form.control}
+              name="sourceId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Source</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a source" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {sources?.map(source => (
+                        <SelectItem key={source.id} value={String(source.id)}>
+                          {source.title}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value={NEW_SOURCE}>New source...</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {form.watch('sourceId') === NEW_SOURCE && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 rounded-md border p-3">
+                <FormField
+                  control={form.control}
+                  name="sourceTitle"
+                  render={({ field }) => (
+                    <FormItem className="md:col-span-2">
+                      <FormLabel>Title</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. 1901 Census of England" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="sourceAuthor"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Author</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="sourceRepository"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Repository</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Archive or library" {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="sourceUrl"
+                  render={({ field }) => (
+                    <FormItem className="md:col-span-2">
+                      <FormLabel>URL</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="page"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Page</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. folio 12" {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="quality"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Quality</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Not rated" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {citationQualities.map(quality => (
+                          <SelectItem key={quality.value} value={String(quality.value)}>
+                            {quality.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="accessedAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date Accessed</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="transcription"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Transcription</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="The relevant text, as written" className="h-20" {...field} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex space-x-3">
+              <Button type="submit" className="flex-1" disabled={isSaving}>
+                {isSaving ? "Saving..." : "Add Citation"}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1"
+                onClick={() => onOpenChange(false)}
+              >
+                Close
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
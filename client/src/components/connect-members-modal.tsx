@@ -3,7 +3,6 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { apiRequest } from "@/lib/queryClient";
 import { insertRelationshipSchema } from "@shared/schema";
 import {
   Dialog,
@@ -31,6 +30,8 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
+import { RelationshipRuleRejection } from "@/hooks/use-family-tree";
+import { useCurrentTreeId } from "@/hooks/use-trees";
 import type { FamilyTreeData } from "@shared/schema";
 
 const formSchema = insertRelationshipSchema.extend({
@@ -39,8 +40,6 @@ const formSchema = insertRelationshipSchema.extend({
     .enum(["biological", "adopted", "step", "foster", "legal"])
     .optional(),
   status: z.enum(["active", "divorced", "separated", "deceased"]).optional(),
-  startDate: z.string().optional(),
-  endDate: z.string().optional(),
 });
 
 interface ConnectMembersModalProps {
@@ -99,6 +98,7 @@ export default function ConnectMembersModal({
 }: ConnectMembersModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const treeId = useCurrentTreeId();
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -124,11 +124,19 @@ export default function ConnectMembersModal({
 
   const createRelationshipMutation = useMutation({
     mutationFn: async (data: z.infer<typeof formSchema>) => {
-      const response = await apiRequest("POST", "/api/relationships", data);
+      const response = await fetch(`/api/trees/${treeId}/relationships`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      if (response.status === 409 || response.status === 422) {
+        throw new RelationshipRuleRejection(await response.json());
+      }
+      if (!response.ok) throw new Error("Failed to connect family members");
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/family-tree"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/family-tree", treeId] });
       toast({
         title: "Success",
         description: "Family members connected successfully",
@@ -136,7 +144,11 @@ export default function ConnectMembersModal({
       form.reset();
       onOpenChange(false);
     },
-    onError: () => {
+    onError: (error) => {
+      if (error instanceof RelationshipRuleRejection) {
+        form.setError(error.violation.field, { type: error.violation.code, message: error.violation.message });
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to connect family members",
@@ -147,11 +159,7 @@ export default function ConnectMembersModal({
 
   const onSubmit = (data: z.infer<typeof formSchema>) => {
     if (data.fromMemberId === data.toMemberId) {
-      toast({
-        title: "Error",
-        description: "Cannot connect a member to themselves",
-        variant: "destructive",
-      });
+      form.setError("toMemberId", { message: "Cannot connect a member to themselves" });
       return;
     }
     createRelationshipMutation.mutate(data);
@@ -319,12 +327,12 @@ export default function ConnectMembersModal({
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
-                name="startDate"
+                name="startDateText"
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Start Date</FormLabel>
                     <FormControl>
-                      <Input type="date" {...field} />
+                      <Input placeholder="e.g. Jun 1925" {...field} value={field.value ?? ""} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -334,12 +342,12 @@ export default function ConnectMembersModal({
               {form.watch("status") === "divorced" && (
                 <FormField
                   control={form.control}
-                  name="endDate"
+                  name="endDateText"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>End Date</FormLabel>
                       <FormControl>
-                        <Input type="date" {...field} />
+                        <Input placeholder="e.g. after 1950" {...field} value={field.value ?? ""} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -0,0 +1,213 @@
+import React, { useMemo, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight, Network } from "lucide-react";
+import ChartMemberBox, { MemberPicker, nameOf } from "@/components/chart-member-box";
+import type { FamilyTreeData } from "@shared/schema";
+import { buildDescendants, type DescendantNode } from "@shared/charts";
+
+interface DescendantChartProps {
+  familyTree?: FamilyTreeData;
+  selectedMemberId: number | null;
+  onSelectMember: (id: number) => void;
+}
+
+const BOX_WIDTH = 176;
+const BOX_HEIGHT = 56;
+const SPOUSE_GAP = 12;
+const SIBLING_GAP = 24;
+const ROW_HEIGHT = BOX_HEIGHT + 72;
+
+type PlacedNode = { node: DescendantNode; x: number; y: number; isCollapsed: boolean };
+
+// Width of a member and their spouses side by side
+const unitWidth = (node: DescendantNode) =>
+  BOX_WIDTH + node.spouses.length * (BOX_WIDTH + SPOUSE_GAP);
+
+const branchSummary = (node: DescendantNode) =>
+  `${node.descendantCount} ${node.descendantCount === 1 ? 'descendant' : 'descendants'} over ` +
+  `${node.branchGenerations} ${node.branchGenerations === 1 ? 'generation' : 'generations'}`;
+
+/**
+ * Lays each visible branch out below its parent, centred over its children.
+ * A collapsed branch takes only the width of its own row.
+ */
+function layoutDescendants(root: DescendantNode, collapsed: Set<string>) {
+  const placed: PlacedNode[] = [];
+  const links: Array<{ key: string; d: string }> = [];
+  const widths = new Map<string, number>();
+
+  const visibleChildren = (node: DescendantNode) => collapsed.has(node.key) ? [] : node.children;
+
+  const measure = (node: DescendantNode): number => {
+    const children = visibleChildren(node);
+    const childrenWidth = children.reduce((sum, child) => sum + measure(child), 0) +
+      Math.max(0, children.length - 1) * SIBLING_GAP;
+    const width = Math.max(unitWidth(node), childrenWidth);
+    widths.set(node.key, width);
+    return width;
+  };
+
+  // Returns the horizontal centre of the member's own box
+  const place = (node: DescendantNode, left: number): number => {
+    const width = widths.get(node.key)!;
+    const x = left + (width - unitWidth(node)) / 2;
+    const y = node.generation * ROW_HEIGHT;
+    placed.push({ node, x, y, isCollapsed: collapsed.has(node.key) && node.children.length > 0 });
+
+    const children = visibleChildren(node);
+    if (children.length) {
+      const childrenWidth = children.reduce((sum, child) => sum + widths.get(child.key)!, 0) +
+        (children.length - 1) * SIBLING_GAP;
+      let childLeft = left + (width - childrenWidth) / 2;
+      const centres = children.map(child => {
+        const centre = place(child, childLeft);
+        childLeft += widths.get(child.key)! + SIBLING_GAP;
+        return centre;
+      });
+
+      const fromX = x + BOX_WIDTH / 2;
+      const fromY = y + BOX_HEIGHT;
+      const midY = fromY + (ROW_HEIGHT - BOX_HEIGHT) / 2;
+      const toY = y + ROW_HEIGHT;
+      links.push({
+        key: node.key,
+        d: `M ${fromX} ${fromY} V ${midY} M ${Math.min(fromX, ...centres)} ${midY} H ${Math.max(fromX, ...centres)} ` +
+          centres.map(centre => `M ${centre} ${midY} V ${toY}`).join(' '),
+      });
+    }
+
+    return x + BOX_WIDTH / 2;
+  };
+
+  const width = measure(root);
+  place(root, 0);
+  const height = (Math.max(...placed.map(p => p.node.generation)) + 1) * ROW_HEIGHT - (ROW_HEIGHT - BOX_HEIGHT) + 24;
+  return { placed, links, width, height };
+}
+
+// Keys of every member with children, for collapsing the whole chart
+function branchKeys(node: DescendantNode): string[] {
+  if (!node.children.length) return [];
+  return [node.key, ...node.children.flatMap(branchKeys)];
+}
+
+export default function DescendantChart({
+  familyTree,
+  selectedMemberId,
+  onSelectMember
+}: DescendantChartProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const root = useMemo(
+    () => familyTree && selectedMemberId !== null
+      ? buildDescendants(familyTree, selectedMemberId)
+      : null,
+    [familyTree, selectedMemberId]
+  );
+  const layout = useMemo(() => root ? layoutDescendants(root, collapsed) : null, [root, collapsed]);
+
+  const toggle = (key: string) => {
+    setCollapsed(current => {
+      const next = new Set(current);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+  };
+
+  return (
+    <div className="p-6 max-h-screen overflow-auto">
+      <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">Descendant Chart</h2>
+          <p className="text-gray-600">
+            {root
+              ? `${nameOf(root.member)}: ${branchSummary(root)}`
+              : 'Everyone descended from one ancestor, with their spouses'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <MemberPicker familyTree={familyTree} value={selectedMemberId} onChange={onSelectMember} />
+          <Button variant="outline" onClick={() => setCollapsed(new Set())} disabled={!collapsed.size}>
+            Expand All
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => root && setCollapsed(new Set(root.children.flatMap(branchKeys)))}
+            disabled={!root?.children.length}
+          >
+            Collapse All
+          </Button>
+        </div>
+      </div>
+
+      {!root || !layout ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center text-gray-500">
+              <Network className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+              <p>No one selected</p>
+              <p className="text-sm mt-2">Choose an ancestor to see their descendants</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="relative mx-auto" style={{ width: layout.width, height: layout.height }}>
+          <svg className="absolute inset-0 pointer-events-none" width={layout.width} height={layout.height}>
+            {layout.links.map(link => (
+              <path key={link.key} d={link.d} fill="none" stroke="#94A3B8" strokeWidth={2} />
+            ))}
+            {layout.placed.filter(p => p.node.spouses.length).map(({ node, x, y }) => (
+              <path
+                key={`spouses-${node.key}`}
+                d={`M ${x + BOX_WIDTH} ${y + BOX_HEIGHT / 2} H ${x + unitWidth(node) - BOX_WIDTH}`}
+                fill="none"
+                stroke="#EC4899"
+                strokeWidth={2}
+              />
+            ))}
+          </svg>
+
+          {layout.placed.map(({ node, x, y, isCollapsed }) => (
+            <React.Fragment key={node.key}>
+              <ChartMemberBox
+                member={node.member}
+                x={x}
+                y={y}
+                width={BOX_WIDTH}
+                height={BOX_HEIGHT}
+                isFocus={node.generation === 0}
+                title={node.generation === 0 ? undefined : `Show ${nameOf(node.member)}'s descendants`}
+                onClick={() => onSelectMember(node.member.id)}
+              />
+              {node.spouses.map((spouse, index) => (
+                <ChartMemberBox
+                  key={spouse.id}
+                  member={spouse}
+                  x={x + (index + 1) * (BOX_WIDTH + SPOUSE_GAP)}
+                  y={y}
+                  width={BOX_WIDTH}
+                  height={BOX_HEIGHT}
+                  title={`Show ${nameOf(spouse)}'s descendants`}
+                  onClick={() => onSelectMember(spouse.id)}
+                />
+              ))}
+              {node.children.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => toggle(node.key)}
+                  title={`${isCollapsed ? 'Expand' : 'Collapse'} branch: ${branchSummary(node)}`}
+                  className="absolute flex items-center rounded-full border border-gray-200 bg-white px-2 text-xs text-gray-600 shadow-sm hover:bg-gray-50"
+                  style={{ left: x + BOX_WIDTH / 2, top: y + BOX_HEIGHT + 6, transform: 'translateX(-50%)', height: 22 }}
+                >
+                  {isCollapsed ? <ChevronRight className="h-3 w-3 mr-1" /> : <ChevronDown className="h-3 w-3 mr-1" />}
+                  {node.descendantCount} · {node.branchGenerations} gen
+                </button>
+              )}
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
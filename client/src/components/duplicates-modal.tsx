@@ -0,0 +1,93 @@
+import React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useDuplicates } from "@/hooks/use-family-tree";
+import type { DuplicateCandidate, FamilyTreeData } from "@shared/schema";
+import { format } from "date-fns";
+
+interface DuplicatesModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  familyTree?: FamilyTreeData;
+  onReview: (candidate: DuplicateCandidate) => void;
+}
+
+export default function DuplicatesModal({
+  open,
+  onOpenChange,
+  familyTree,
+  onReview
+}: DuplicatesModalProps) {
+  const { data: candidates, isLoading } = useDuplicates(open);
+
+  const describe = (id: number) => {
+    const member = familyTree?.members.find(m => m.id === id);
+    if (!member) return { name: `#${id}`, born: '' };
+    return {
+      name: [member.firstName, member.middleName, member.lastName].filter(Boolean).join(' '),
+      born: member.birthDate ? `b. ${format(new Date(member.birthDate), 'yyyy')}` : '',
+    };
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Possible Duplicates</DialogTitle>
+          <DialogDescription>
+            People whose names sound alike and whose dates and places agree.
+            Review a pair to merge it into one person.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-600">Looking for duplicates...</p>
+        ) : !candidates?.length ? (
+          <p className="text-sm text-gray-600">No likely duplicates found.</p>
+        ) : (
+          <ScrollArea className="h-80 rounded-md border">
+            <ul className="divide-y text-sm">
+              {candidates.map(candidate => {
+                const [left, right] = candidate.memberIds.map(describe);
+                return (
+                  <li key={candidate.memberIds.join('-')} className="p-3 flex items-start justify-between space-x-3">
+                    <div className="space-y-1 min-w-0">
+                      <p className="font-medium text-gray-900">
+                        {left.name} <span className="text-gray-500 font-normal">{left.born}</span>
+                        {' & '}
+                        {right.name} <span className="text-gray-500 font-normal">{right.born}</span>
+                      </p>
+                      <div className="flex flex-wrap gap-1">
+                        {candidate.reasons.map(reason => (
+                          <Badge key={reason} variant="outline" className="font-normal">{reason}</Badge>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2 shrink-0">
+                      <Badge>{Math.round(candidate.score * 100)}%</Badge>
+                      <Button size="sm" variant="outline" onClick={() => onReview(candidate)}>
+                        Review
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </ScrollArea>
+        )}
+
+        <div className="flex justify-end pt-2">
+          <Button onClick={() => onOpenChange(false)}>Close</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -15,6 +15,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -26,7 +27,14 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
-import type { FamilyMember } from "@shared/schema";
+import { useCitations, useProposals } from "@/hooks/use-family-tree";
+import { useTreePermissions, useCurrentTreeId } from "@/hooks/use-trees";
+import CitationsModal, { CitationCountButton } from "@/components/citations-modal";
+import MediaGallery from "@/components/media-gallery";
+import MemberHistory from "@/components/member-history";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { FamilyMember, MemberPrivacy } from "@shared/schema";
+import { formatStoredDate } from "@shared/dates";
 
 interface EditMemberModalProps {
   open: boolean;
@@ -39,9 +47,7 @@ const formSchema = insertFamilyMemberSchema.extend({
   middleName: z.string().optional(),
   lastName: z.string().optional(),
   gender: z.enum(['male', 'female', 'other', 'unknown']),
-  birthDate: z.string().optional(),
   birthPlace: z.string().optional(),
-  deathDate: z.string().optional(),
   deathPlace: z.string().optional(),
   occupation: z.string().optional(),
   biography: z.string().optional(),
@@ -59,9 +65,27 @@ export default function EditMemberModal({
 }: EditMemberModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const treeId = useCurrentTreeId();
 
   const allowedGenders = ["male", "female", "other", "unknown"];
 
+  const { data: citations } = useCitations(open && member ? { memberId: member.id } : null);
+  const [citedField, setCitedField] = React.useState<{ field: string | null; label: string } | null>(null);
+
+  const citationCount = (field: string | null) =>
+    citations?.filter(c => (c.field ?? null) === field).length ?? 0;
+
+  // Field label with the number of citations supporting that field
+  const citedLabel = (field: string, label: string) => (
+    <div className="flex items-center justify-between">
+      <FormLabel>{label}</FormLabel>
+      <CitationCountButton
+        count={citationCount(field)}
+        onClick={() => setCitedField({ field, label })}
+      />
+    </div>
+  );
+
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
@@ -69,15 +93,16 @@ export default function EditMemberModal({
       middleName: member?.middleName || "",
       lastName: member?.lastName || "",
       gender: allowedGenders.includes((member?.gender ?? undefined) as string) ? (member?.gender as "male" | "female" | "other" | "unknown") : undefined,
-      birthDate: member?.birthDate || "",
+      birthDateText: formatStoredDate(member?.birthDate, member?.birthDateText) ?? "",
       birthPlace: member?.birthPlace || "",
-      deathDate: member?.deathDate || "",
+      deathDateText: formatStoredDate(member?.deathDate, member?.deathDateText) ?? "",
       deathPlace: member?.deathPlace || "",
       occupation: member?.occupation || "",
       biography: member?.biography || "",
       photoUrl: member?.photoUrl || "",
       isLiving: member?.isLiving ?? true,
       email: member?.email || "",
+      privacy: (member?.privacy ?? null) as MemberPrivacy | null,
       x: member?.x ?? 0,
       y: member?.y ?? 0,
     },
@@ -91,29 +116,33 @@ export default function EditMemberModal({
         middleName: member.middleName || "",
         lastName: member.lastName || "",
         gender: allowedGenders.includes((member.gender ?? undefined) as string) ? (member.gender as "male" | "female" | "other" | "unknown") : undefined,
-        birthDate: member.birthDate || "",
+        birthDateText: formatStoredDate(member.birthDate, member.birthDateText) ?? "",
         birthPlace: member.birthPlace || "",
-        deathDate: member.deathDate || "",
+        deathDateText: formatStoredDate(member.deathDate, member.deathDateText) ?? "",
         deathPlace: member.deathPlace || "",
         occupation: member.occupation || "",
         biography: member.biography || "",
         photoUrl: member.photoUrl || "",
         isLiving: member.isLiving ?? true,
         email: member.email || "",
+        privacy: (member.privacy ?? null) as MemberPrivacy | null,
         x: member.x ?? 0,
         y: member.y ?? 0,
       });
     }
   }, [open, member, form]);
 
+  const { canEdit } = useTreePermissions();
+  const { propose } = useProposals(false);
+
   const updateMemberMutation = useMutation({
     mutationFn: async (data: z.infer<typeof formSchema>) => {
       if (!member?.id) throw new Error('No member to update');
-      const response = await apiRequest('PATCH', `/api/family-members/${member.id}`, data);
+      const response = await apiRequest('PATCH', `/api/trees/${treeId}/family-members/${member.id}`, data);
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/family-tree'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId] });
       toast({
         title: "Success",
         description: "Family member updated successfully",
@@ -131,9 +160,35 @@ export default function EditMemberModal({
   });
 
   const onSubmit = (data: z.infer<typeof formSchema>) => {
-    updateMemberMutation.mutate(data);
+    if (canEdit) {
+      updateMemberMutation.mutate(data);
+      return;
+    }
+    // Contributors' edits wait for an editor to approve them; only the
+    // fields they touched are sent so the reviewer sees what changed
+    if (!member) return;
+    const dirty = form.formState.dirtyFields as Record<string, unknown>;
+    const changes = Object.fromEntries(Object.entries(data).filter(([field]) => dirty[field]));
+    if (!Object.keys(changes).length) {
+      onOpenChange(false);
+      return;
+    }
+    propose.mutate({ entityType: 'member', action: 'update', entityId: member.id, data: changes }, {
+      onSuccess: () => {
+        toast({
+          title: "Sent for review",
+          description: "An editor will look at your changes before they appear in the tree",
+        });
+        onOpenChange(false);
+      },
+      onError: (error) => {
+        toast({ title: "Error", description: error.message, variant: "destructive" });
+      }
+    });
   };
 
+  const isSaving = updateMemberMutation.isPending || propose.isPending;
+
   if (!member) return null;
 
   return (
@@ -145,289 +200,366 @@ export default function EditMemberModal({
             This is the modal to edit a family member's information.
           </DialogDescription>
         </DialogHeader>
-        
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-            {/* Basic Information Section */}
+
+        <Tabs defaultValue="details">
+          <TabsList>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details" className="space-y-4">
+            <div className="flex items-center justify-between rounded-lg border p-3 text-sm">
+              <span className="text-gray-700">Sources for this person as a whole</span>
+              <CitationCountButton
+                count={citationCount(null)}
+                onClick={() => setCitedField({ field: null, label: `${member.firstName} ${member.lastName ?? ''}`.trim() })}
+              />
+            </div>
+
             <div className="space-y-4">
-              <h3 className="text-lg font-semibold border-b pb-2">Basic Information</h3>
+              <h3 className="text-lg font-semibold border-b pb-2">Photos and Documents</h3>
+              <MediaGallery target={{ memberId: member.id }} />
+            </div>
+
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                {/* Basic Information Section */}
+                <div className="space-y-4">
+                  <h3 className="text-lg font-semibold border-b pb-2">Basic Information</h3>
               
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <FormField
-                  control={form.control}
-                  name="firstName"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>First Name</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Enter first name" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="lastName"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Last Name</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Enter last name" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-              </div>
-
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <FormField
-                  control={form.control}
-                  name="middleName"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Middle Name</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Enter middle name" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-              </div>
-
-              <FormField
-                control={form.control}
-                name="gender"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Gender</FormLabel>
-                    <FormControl>
-                      <RadioGroup
-                        onValueChange={field.onChange}
-                        value={field.value}
-                        className="flex space-x-4"
-                      >
-                        <FormItem className="flex items-center space-x-2">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="firstName"
+                      render={({ field }) => (
+                        <FormItem>
+                          {citedLabel('firstName', 'First Name')}
                           <FormControl>
-                            <RadioGroupItem value="male" />
+                            <Input placeholder="Enter first name" {...field} />
                           </FormControl>
-                          <FormLabel className="font-normal">Male</FormLabel>
+                          <FormMessage />
                         </FormItem>
-                        <FormItem className="flex items-center space-x-2">
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="lastName"
+                      render={({ field }) => (
+                        <FormItem>
+                          {citedLabel('lastName', 'Last Name')}
                           <FormControl>
-                            <RadioGroupItem value="female" />
+                            <Input placeholder="Enter last name" {...field} />
                           </FormControl>
-                          <FormLabel className="font-normal">Female</FormLabel>
+                          <FormMessage />
                         </FormItem>
-                        <FormItem className="flex items-center space-x-2">
+                      )}
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="middleName"
+                      render={({ field }) => (
+                        <FormItem>
+                          {citedLabel('middleName', 'Middle Name')}
                           <FormControl>
-                            <RadioGroupItem value="other" />
+                            <Input placeholder="Enter middle name" {...field} />
                           </FormControl>
-                          <FormLabel className="font-normal">Other</FormLabel>
+                          <FormMessage />
                         </FormItem>
-                        <FormItem className="flex items-center space-x-2">
+                      )}
+                    />
+                  </div>
+
+                  <FormField
+                    control={form.control}
+                    name="gender"
+                    render={({ field }) => (
+                      <FormItem>
+                        {citedLabel('gender', 'Gender')}
+                        <FormControl>
+                          <RadioGroup
+                            onValueChange={field.onChange}
+                            value={field.value}
+                            className="flex space-x-4"
+                          >
+                            <FormItem className="flex items-center space-x-2">
+                              <FormControl>
+                                <RadioGroupItem value="male" />
+                              </FormControl>
+                              <FormLabel className="font-normal">Male</FormLabel>
+                            </FormItem>
+                            <FormItem className="flex items-center space-x-2">
+                              <FormControl>
+                                <RadioGroupItem value="female" />
+                              </FormControl>
+                              <FormLabel className="font-normal">Female</FormLabel>
+                            </FormItem>
+                            <FormItem className="flex items-center space-x-2">
+                              <FormControl>
+                                <RadioGroupItem value="other" />
+                              </FormControl>
+                              <FormLabel className="font-normal">Other</FormLabel>
+                            </FormItem>
+                            <FormItem className="flex items-center space-x-2">
+                              <FormControl>
+                                <RadioGroupItem value="unknown" />
+                              </FormControl>
+                              <FormLabel className="font-normal">Unknown</FormLabel>
+                            </FormItem>
+                          </RadioGroup>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {/* Birth Information Section */}
+                <div className="space-y-4">
+                  <h3 className="text-lg font-semibold border-b pb-2">Birth Information</h3>
+              
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="birthDateText"
+                      render={({ field }) => (
+                        <FormItem>
+                          {citedLabel('birthDate', 'Birth Date')}
                           <FormControl>
-                            <RadioGroupItem value="unknown" />
+                            <Input placeholder="e.g. 12 Mar 1901 or about 1850" {...field} value={field.value ?? ""} />
                           </FormControl>
-                          <FormLabel className="font-normal">Unknown</FormLabel>
+                          <FormMessage />
                         </FormItem>
-                      </RadioGroup>
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-            </div>
+                      )}
+                    />
 
-            {/* Birth Information Section */}
-            <div className="space-y-4">
-              <h3 className="text-lg font-semibold border-b pb-2">Birth Information</h3>
+                    <FormField
+                      control={form.control}
+                      name="birthPlace"
+                      render={({ field }) => (
+                        <FormItem>
+                          {citedLabel('birthPlace', 'Birth Place')}
+                          <FormControl>
+                            <Input placeholder="City, State/Country" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </div>
+
+                {/* Living Status Section */}
+                <div className="space-y-4">
+                  <h3 className="text-lg font-semibold border-b pb-2">Living Status</h3>
               
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <FormField
-                  control={form.control}
-                  name="birthDate"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Birth Date</FormLabel>
-                      <FormControl>
-                        <Input type="date" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="birthPlace"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Birth Place</FormLabel>
-                      <FormControl>
-                        <Input placeholder="City, State/Country" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
+                  <FormField
+                    control={form.control}
+                    name="isLiving"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                        <div className="space-y-0.5">
+                          <FormLabel>Living Status</FormLabel>
+                        </div>
+                        <FormControl>
+                          <Switch
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="privacy"
+                    render={({ field }) => (
+                      <FormItem className="space-y-2 rounded-lg border p-3">
+                        <FormLabel>Privacy</FormLabel>
+                        <FormControl>
+                          <RadioGroup
+                            onValueChange={(value) => field.onChange(value === "auto" ? null : value)}
+                            value={field.value ?? "auto"}
+                            className="flex space-x-4"
+                          >
+                            <FormItem className="flex items-center space-x-2">
+                              <FormControl>
+                                <RadioGroupItem value="auto" />
+                              </FormControl>
+                              <FormLabel className="font-normal">Automatic</FormLabel>
+                            </FormItem>
+                            <FormItem className="flex items-center space-x-2">
+                              <FormControl>
+                                <RadioGroupItem value="private" />
+                              </FormControl>
+                              <FormLabel className="font-normal">Always hide</FormLabel>
+                            </FormItem>
+                            <FormItem className="flex items-center space-x-2">
+                              <FormControl>
+                                <RadioGroupItem value="public" />
+                              </FormControl>
+                              <FormLabel className="font-normal">Always show</FormLabel>
+                            </FormItem>
+                          </RadioGroup>
+                        </FormControl>
+                        <FormDescription>
+                          Shared views and privacy-filtered exports show hidden people as "Living",
+                          without dates, places, contact details, photos or biography. Automatic
+                          hides anyone living or born under 100 years ago with no death recorded.
+                        </FormDescription>
+                      </FormItem>
+                    )}
+                  />
+
+                  {!form.watch('isLiving') && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="deathDateText"
+                        render={({ field }) => (
+                          <FormItem>
+                            {citedLabel('deathDate', 'Death Date')}
+                            <FormControl>
+                              <Input placeholder="e.g. between 1848 and 1852" {...field} value={field.value ?? ""} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="deathPlace"
+                        render={({ field }) => (
+                          <FormItem>
+                            {citedLabel('deathPlace', 'Death Place')}
+                            <FormControl>
+                              <Input placeholder="City, State/Country" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
                   )}
-                />
-              </div>
-            </div>
+                </div>
 
-            {/* Living Status Section */}
-            <div className="space-y-4">
-              <h3 className="text-lg font-semibold border-b pb-2">Living Status</h3>
+                {/* Personal Details Section */}
+                <div className="space-y-4">
+                  <h3 className="text-lg font-semibold border-b pb-2">Personal Details</h3>
               
-              <FormField
-                control={form.control}
-                name="isLiving"
-                render={({ field }) => (
-                  <FormItem className="flex items-center justify-between rounded-lg border p-3">
-                    <div className="space-y-0.5">
-                      <FormLabel>Living Status</FormLabel>
-                    </div>
-                    <FormControl>
-                      <Switch
-                        checked={field.value}
-                        onCheckedChange={field.onChange}
-                      />
-                    </FormControl>
-                  </FormItem>
-                )}
-              />
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="occupation"
+                      render={({ field }) => (
+                        <FormItem>
+                          {citedLabel('occupation', 'Occupation')}
+                          <FormControl>
+                            <Input placeholder="Enter occupation" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </div>
 
-              {!form.watch('isLiving') && (
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {/* Contact Information Section */}
+                <div className="space-y-4">
+                  <h3 className="text-lg font-semibold border-b pb-2">Contact Information</h3>
+              
                   <FormField
                     control={form.control}
-                    name="deathDate"
+                    name="email"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Death Date</FormLabel>
+                        <FormLabel>Email (optional)</FormLabel>
                         <FormControl>
-                          <Input type="date" {...field} />
+                          <Input type="email" placeholder="Enter email address" {...field} />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
+                </div>
 
+                {/* Additional Information Section */}
+                <div className="space-y-4">
+                  <h3 className="text-lg font-semibold border-b pb-2">Additional Information</h3>
+              
                   <FormField
                     control={form.control}
-                    name="deathPlace"
+                    name="photoUrl"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Death Place</FormLabel>
+                        <FormLabel>Photo URL</FormLabel>
                         <FormControl>
-                          <Input placeholder="City, State/Country" {...field} />
+                          <Input placeholder="Enter photo URL" {...field} />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
-                </div>
-              )}
-            </div>
-
-            {/* Personal Details Section */}
-            <div className="space-y-4">
-              <h3 className="text-lg font-semibold border-b pb-2">Personal Details</h3>
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <FormField
-                  control={form.control}
-                  name="occupation"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Occupation</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Enter occupation" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-              </div>
-            </div>
 
-            {/* Contact Information Section */}
-            <div className="space-y-4">
-              <h3 className="text-lg font-semibold border-b pb-2">Contact Information</h3>
-              
-              <FormField
-                control={form.control}
-                name="email"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Email (optional)</FormLabel>
-                    <FormControl>
-                      <Input type="email" placeholder="Enter email address" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-            </div>
+                  <FormField
+                    control={form.control}
+                    name="biography"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Biography</FormLabel>
+                        <FormControl>
+                          <Textarea 
+                            placeholder="Enter brief biography" 
+                            className="h-20"
+                            {...field} 
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
 
-            {/* Additional Information Section */}
-            <div className="space-y-4">
-              <h3 className="text-lg font-semibold border-b pb-2">Additional Information</h3>
-              
-              <FormField
-                control={form.control}
-                name="photoUrl"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Photo URL</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Enter photo URL" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                <div className="flex space-x-3 pt-4 border-t">
+                  <Button 
+                    type="submit" 
+                    className="flex-1"
+                    disabled={isSaving}
+                  >
+                    {isSaving ? "Saving..." : canEdit ? "Update Member" : "Suggest Changes"}
+                  </Button>
+                  <Button 
+                    type="button" 
+                    variant="outline" 
+                    className="flex-1"
+                    onClick={() => onOpenChange(false)}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </TabsContent>
 
-              <FormField
-                control={form.control}
-                name="biography"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Biography</FormLabel>
-                    <FormControl>
-                      <Textarea 
-                        placeholder="Enter brief biography" 
-                        className="h-20"
-                        {...field} 
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-            </div>
+          <TabsContent value="history">
+            <MemberHistory memberId={member.id} />
+          </TabsContent>
+        </Tabs>
 
-            <div className="flex space-x-3 pt-4 border-t">
-              <Button 
-                type="submit" 
-                className="flex-1"
-                disabled={updateMemberMutation.isPending}
-              >
-                {updateMemberMutation.isPending ? "Updating..." : "Update Member"}
-              </Button>
-              <Button 
-                type="button" 
-                variant="outline" 
-                className="flex-1"
-                onClick={() => onOpenChange(false)}
-              >
-                Cancel
-              </Button>
-            </div>
-          </form>
-        </Form>
+        {citedField && (
+          <CitationsModal
+            open={!!citedField}
+            onOpenChange={(open) => !open && setCitedField(null)}
+            target={{ memberId: member.id }}
+            field={citedField.field}
+            label={citedField.label}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
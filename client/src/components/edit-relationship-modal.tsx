@@ -0,0 +1,321 @@
+import React, { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Trash2 } from "lucide-react";
+import { insertRelationshipSchema } from "@shared/schema";
+import type { FamilyTreeData, Relationship } from "@shared/schema";
+import { formatStoredDate } from "@shared/dates";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useFamilyTree, RelationshipRuleRejection } from "@/hooks/use-family-tree";
+import { useToast } from "@/hooks/use-toast";
+
+const formSchema = insertRelationshipSchema.pick({
+  type: true,
+  subType: true,
+  status: true,
+  startDateText: true,
+  endDateText: true,
+}).extend({
+  notes: z.string().optional(),
+});
+
+const label = (value: string) =>
+  value.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('-');
+
+// Options come from the server's schema so every choice can be saved
+const typeOptions = formSchema.shape.type.options;
+const statusOptions = formSchema.shape.status.removeDefault().options;
+const subTypeOptions = (type: string) => {
+  switch (type) {
+    case "parent-child":
+      return ["biological", "adopted", "step", "foster"] as const;
+    case "spouse":
+      return ["legal"] as const;
+    default:
+      return [];
+  }
+};
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface EditRelationshipModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  relationship: Relationship | null;
+  familyTree?: FamilyTreeData;
+}
+
+export default function EditRelationshipModal({
+  open,
+  onOpenChange,
+  relationship,
+  familyTree
+}: EditRelationshipModalProps) {
+  const { toast } = useToast();
+  const { updateRelationship, deleteRelationship } = useFamilyTree();
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      type: "parent-child",
+      status: "active",
+      startDateText: "",
+      endDateText: "",
+      notes: "",
+    },
+  });
+
+  // Reset form when modal opens with relationship data
+  useEffect(() => {
+    if (open && relationship) {
+      form.reset({
+        type: relationship.type as FormValues['type'],
+        subType: (relationship.subType ?? undefined) as FormValues['subType'],
+        status: (relationship.status ?? undefined) as FormValues['status'],
+        startDateText: formatStoredDate(relationship.startDate, relationship.startDateText) ?? "",
+        endDateText: formatStoredDate(relationship.endDate, relationship.endDateText) ?? "",
+        notes: relationship.notes ?? "",
+      });
+    }
+  }, [open, relationship, form]);
+
+  const selectedType = form.watch("type");
+
+  if (!relationship) return null;
+
+  const nameOf = (id: number) => {
+    const member = familyTree?.members.find(m => m.id === id);
+    return member ? `${member.firstName} ${member.lastName || ''}`.trim() : 'Unknown';
+  };
+
+  const onSubmit = (values: FormValues) => {
+    updateRelationship.mutate({
+      id: relationship.id,
+      data: { ...values, notes: values.notes?.trim() || null },
+    }, {
+      onSuccess: () => {
+        toast({
+          title: "Success",
+          description: "Relationship updated successfully",
+        });
+        onOpenChange(false);
+      },
+      onError: (error) => {
+        if (error instanceof RelationshipRuleRejection) {
+          form.setError("type", { type: error.violation.code, message: error.violation.message });
+          return;
+        }
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    });
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm('Remove this relationship?')) return;
+    deleteRelationship.mutate(relationship.id, {
+      onSuccess: () => {
+        toast({
+          title: "Success",
+          description: "Relationship removed successfully",
+        });
+        onOpenChange(false);
+      },
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit Relationship</DialogTitle>
+          <DialogDescription>
+            {nameOf(relationship.fromMemberId)} and {nameOf(relationship.toMemberId)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Relationship Type</FormLabel>
+                  <Select
+                    value={field.value}
+                    onValueChange={(value) => {
+                      field.onChange(value);
+                      form.setValue("subType", undefined);
+                    }}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {typeOptions.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {label(type)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {subTypeOptions(selectedType).length > 0 && (
+              <FormField
+                control={form.control}
+                name="subType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Relationship Sub-type</FormLabel>
+                    <Select value={field.value ?? ""} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select sub-type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {subTypeOptions(selectedType).map((subType) => (
+                          <SelectItem key={subType} value={subType}>
+                            {label(subType)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="status"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Status</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select status" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {statusOptions.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {label(status)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="startDateText"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start Date</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. about 1850" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="endDateText"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>End Date</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. 1901" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea className="h-20" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex space-x-3 pt-4 border-t">
+              <Button type="submit" className="flex-1" disabled={updateRelationship.isPending}>
+                {updateRelationship.isPending ? "Saving..." : "Update Relationship"}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                className="text-red-600"
+                onClick={handleDelete}
+                disabled={deleteRelationship.isPending}
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Remove
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
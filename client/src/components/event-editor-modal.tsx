@@ -0,0 +1,287 @@
+import React, { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Trash2 } from "lucide-react";
+import { insertFamilyEventSchema, familyEventTypes } from "@shared/schema";
+import type { FamilyEvent, FamilyMember } from "@shared/schema";
+import { formatStoredDate } from "@shared/dates";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import MediaGallery from "@/components/media-gallery";
+import { useFamilyTree } from "@/hooks/use-family-tree";
+import { useToast } from "@/hooks/use-toast";
+
+const formSchema = insertFamilyEventSchema.omit({ date: true }).extend({
+  place: z.string().optional(),
+  description: z.string().optional(),
+  memberIds: z.number().array().min(1, "Choose at least one member"),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+const typeLabel = (type: string) => type.charAt(0).toUpperCase() + type.slice(1);
+
+interface EventEditorModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The event to edit; null creates a new one
+  event: FamilyEvent | null;
+  // Members ticked when creating an event
+  defaultMemberIds?: number[];
+}
+
+export default function EventEditorModal({
+  open,
+  onOpenChange,
+  event,
+  defaultMemberIds = []
+}: EventEditorModalProps) {
+  const { toast } = useToast();
+  const { data: familyTree, createEvent, updateEvent, deleteEvent } = useFamilyTree();
+  const members = [...(familyTree?.members ?? [])].sort((a, b) =>
+    `${a.lastName ?? ''} ${a.firstName}`.localeCompare(`${b.lastName ?? ''} ${b.firstName}`)
+  );
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      type: 'other',
+      dateText: "",
+      place: "",
+      description: "",
+      memberIds: [],
+    },
+  });
+
+  // Reset form when the dialog opens for another event
+  useEffect(() => {
+    if (!open) return;
+    form.reset({
+      type: (event?.type as FormValues['type']) ?? 'other',
+      dateText: event ? formatStoredDate(event.date, event.dateText) ?? "" : "",
+      place: event?.place ?? "",
+      description: event?.description ?? "",
+      memberIds: event?.memberIds ?? defaultMemberIds,
+    });
+  }, [open, event, form]);
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const onSubmit = (values: FormValues) => {
+    // The server works the sort date out from the date text
+    const data = {
+      ...values,
+      date: null,
+      place: values.place?.trim() || null,
+      description: values.description?.trim() || null,
+    };
+    const onSuccess = () => {
+      toast({
+        title: "Success",
+        description: event ? "Event updated successfully" : "Event created successfully",
+      });
+      onOpenChange(false);
+    };
+
+    if (event) {
+      updateEvent.mutate({ id: event.id, data }, { onSuccess, onError: showError });
+    } else {
+      createEvent.mutate(data, { onSuccess, onError: showError });
+    }
+  };
+
+  const handleDelete = () => {
+    if (!event || !window.confirm('Delete this event?')) return;
+    deleteEvent.mutate(event.id, {
+      onSuccess: () => {
+        toast({
+          title: "Success",
+          description: "Event deleted successfully",
+        });
+        onOpenChange(false);
+      },
+      onError: showError
+    });
+  };
+
+  const isSaving = createEvent.isPending || updateEvent.isPending;
+  const nameOf = (member: FamilyMember) => `${member.firstName} ${member.lastName ?? ''}`.trim();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{event ? "Edit Event" : "Add Event"}</DialogTitle>
+          <DialogDescription>
+            A dated event in the family's history, and everyone who took part in it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {familyEventTypes.map(type => (
+                          <SelectItem key={type} value={type}>
+                            {typeLabel(type)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="dateText"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. 12 Mar 1901 or about 1850" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="place"
+                render={({ field }) => (
+                  <FormItem className="md:col-span-2">
+                    <FormLabel>Place</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter place" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="What happened" className="h-20" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="memberIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Members</FormLabel>
+                  <div className="max-h-48 overflow-y-auto rounded-md border divide-y">
+                    {members.map(member => (
+                      <label
+                        key={member.id}
+                        className="flex items-center space-x-2 px-3 py-2 text-sm cursor-pointer hover:bg-gray-50"
+                      >
+                        <Checkbox
+                          checked={field.value.includes(member.id)}
+                          onCheckedChange={(checked) => field.onChange(checked
+                            ? [...field.value, member.id]
+                            : field.value.filter(id => id !== member.id)
+                          )}
+                        />
+                        <span>{nameOf(member)}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex space-x-3 pt-4 border-t">
+              <Button type="submit" className="flex-1" disabled={isSaving}>
+                {isSaving ? "Saving..." : event ? "Update Event" : "Add Event"}
+              </Button>
+              {event && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="text-red-600"
+                  onClick={handleDelete}
+                  disabled={deleteEvent.isPending}
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </Form>
+
+        {event && (
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold border-b pb-2">Photos and Documents</h3>
+            <MediaGallery target={{ eventId: event.id }} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -25,6 +25,8 @@ import {
   UserCheck,
   Users,
   Languages,
+  CalendarPlus,
+  CalendarCheck,
 } from "lucide-react";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
@@ -34,19 +36,31 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import type { FamilyMember } from "@shared/schema";
-import { format } from "date-fns";
+import type { FamilyMember, FamilyEvent } from "@shared/schema";
+import { formatStoredDate } from "@shared/dates";
+import { lifeSpan } from "@/components/chart-member-box";
+import { useTreePermissions, useTreeApi } from "@/hooks/use-trees";
 
 interface FamilyMemberCardProps {
   member: FamilyMember;
+  // Uploaded primary photo; takes precedence over the photo URL
+  photoMediaId?: number;
   isSelected: boolean;
-  onSelect: () => void;
+  isOnPath?: boolean;
+  onSelect: (additive: boolean) => void;
   onPositionChange: (id: number, x: number, y: number) => void;
   onAddMember: (type: string, relatedMemberId: number) => void;
   onDelete: (id: number) => void;
   onEdit: (member: FamilyMember) => void;
+  // Events this member took part in, editable from the menu
+  events?: FamilyEvent[];
+  onAddEvent: (memberId: number) => void;
+  onEditEvent: (event: FamilyEvent) => void;
 }
 
+export const COMPACT_CARD_WIDTH = 192;
+export const COMPACT_CARD_HEIGHT = 56;
+
 const genderConfig = {
   male: { 
     color: 'blue-500', 
@@ -74,28 +88,39 @@ const relationshipActions = [
   { type: 'other', label: 'Add Other Relation', icon: Users }
 ];
 
+function genderBorderClass(member: FamilyMember) {
+  const config = genderConfig[member.gender as keyof typeof genderConfig] || genderConfig.unknown;
+  return {
+    'blue-500': 'border-blue-500',
+    'pink-500': 'border-pink-500',
+    'purple-500': 'border-purple-500',
+    'gray-500': 'border-gray-500'
+  }[config.color];
+}
+
 export default function FamilyMemberCard({
   member,
+  photoMediaId,
   isSelected,
+  isOnPath = false,
   onSelect,
   onPositionChange,
   onAddMember,
   onDelete,
-  onEdit
+  onEdit,
+  events = [],
+  onAddEvent,
+  onEditEvent
 }: FamilyMemberCardProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const cardRef = useRef<HTMLDivElement>(null);
+  const { canPropose, canEdit } = useTreePermissions();
+  const treeApi = useTreeApi();
 
   const config = genderConfig[member.gender as keyof typeof genderConfig] || genderConfig.unknown;
   const IconComponent = config.icon;
-
-  const colorClass = {
-    'blue-500': 'border-blue-500',
-    'pink-500': 'border-pink-500',
-    'purple-500': 'border-purple-500',
-    'gray-500': 'border-gray-500'
-  }[config.color];
+  const colorClass = genderBorderClass(member);
 
   const handleMouseDown = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -103,12 +128,16 @@ export default function FamilyMemberCard({
     if ((e.target as HTMLElement).closest('[data-dropdown-menu]')) {
       return;
     }
-    setIsDragging(true);
-    setDragStart({
-      x: e.clientX - member.x,
-      y: e.clientY - member.y
-    });
-    onSelect();
+    // Only editors can move people around
+    if (canEdit) {
+      setIsDragging(true);
+      setDragStart({
+        x: e.clientX - member.x,
+        y: e.clientY - member.y
+      });
+    }
+    // Shift/Ctrl-click picks a second member to compare with the selected one
+    onSelect(e.shiftKey || e.ctrlKey || e.metaKey);
   };
 
   const handleMouseMove = (e: MouseEvent) => {
@@ -149,8 +178,8 @@ export default function FamilyMemberCard({
   return (
     <div
       ref={cardRef}
-      className={`family-member-card absolute cursor-move transition-all duration-200 hover:-translate-y-1 hover:shadow-lg ${
-        isSelected ? 'ring-2 ring-primary ring-offset-2' : ''
+      className={`family-member-card absolute ${canEdit ? 'cursor-move' : 'cursor-pointer'} transition-all duration-200 hover:-translate-y-1 hover:shadow-lg ${
+        isSelected ? 'ring-2 ring-primary ring-offset-2' : isOnPath ? 'ring-2 ring-amber-400 ring-offset-2' : ''
       }`}
       style={{ left: member.x, top: member.y }}
       onMouseDown={handleMouseDown}
@@ -158,7 +187,10 @@ export default function FamilyMemberCard({
       <Card className={`w-64 p-4 bg-white border-l-4 ${colorClass}`}>
         <div className="flex items-start space-x-3">
           <Avatar className="w-12 h-12">
-            <AvatarImage src={member.photoUrl || ''} alt={`${member.firstName} ${member.lastName}`} />
+            <AvatarImage
+              src={photoMediaId ? `${treeApi}/media/${photoMediaId}/thumbnail` : member.photoUrl || ''}
+              alt={`${member.firstName} ${member.lastName}`}
+            />
             <AvatarFallback>
               {member.firstName?.[0]}{member.lastName?.[0]}
             </AvatarFallback>
@@ -177,45 +209,68 @@ export default function FamilyMemberCard({
                 </div>
               </div>
 
-              <DropdownMenu>
-                <DropdownMenuTrigger asChild>
-                  <Button variant="ghost" size="sm" className="h-6 w-6 p-0" data-dropdown-menu>
-                    <MoreVertical className="h-3 w-3" />
-                  </Button>
-                </DropdownMenuTrigger>
-                <DropdownMenuContent align="end" className="w-56">
-                  {relationshipActions.map((action) => (
-                    <React.Fragment key={action.type}>
-                      {action.subTypes ? (
-                        action.subTypes.map((subType) => (
-                          <DropdownMenuItem
-                            key={`${action.type}-${subType}`}
-                            onClick={() => onAddMember(`${action.type}-${subType}`, member.id)}
-                          >
-                            <action.icon className="mr-2 h-3 w-3" />
-                            {`${action.label} (${subType})`}
-                          </DropdownMenuItem>
-                        ))
-                      ) : (
-                        <DropdownMenuItem
-                          onClick={() => onAddMember(action.type, member.id)}
-                        >
-                          <action.icon className="mr-2 h-3 w-3" />
-                          {action.label}
+              {canPropose && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0" data-dropdown-menu>
+                      <MoreVertical className="h-3 w-3" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" className="w-56">
+                    {canEdit && (
+                      <>
+                        {relationshipActions.map((action) => (
+                          <React.Fragment key={action.type}>
+                            {action.subTypes ? (
+                              action.subTypes.map((subType) => (
+                                <DropdownMenuItem
+                                  key={`${action.type}-${subType}`}
+                                  onClick={() => onAddMember(`${action.type}-${subType}`, member.id)}
+                                >
+                                  <action.icon className="mr-2 h-3 w-3" />
+                                  {`${action.label} (${subType})`}
+                                </DropdownMenuItem>
+                              ))
+                            ) : (
+                              <DropdownMenuItem
+                                onClick={() => onAddMember(action.type, member.id)}
+                              >
+                                <action.icon className="mr-2 h-3 w-3" />
+                                {action.label}
+                              </DropdownMenuItem>
+                            )}
+                          </React.Fragment>
+                        ))}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={() => onAddEvent(member.id)}>
+                          <CalendarPlus className="mr-2 h-3 w-3" />
+                          Add Event
                         </DropdownMenuItem>
-                      )}
-                    </React.Fragment>
-                  ))}
-                  <DropdownMenuItem onClick={() => onEdit(member)}>
-                    <Edit2 className="mr-2 h-3 w-3" />
-                    Edit Details
-                  </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => onDelete(member.id)} className="text-red-600">
-                    <Trash2 className="mr-2 h-3 w-3" />
-                    Delete Member
-                  </DropdownMenuItem>
-                </DropdownMenuContent>
-              </DropdownMenu>
+                        {events.map(event => (
+                          <DropdownMenuItem key={event.id} onClick={() => onEditEvent(event)}>
+                            <CalendarCheck className="mr-2 h-3 w-3" />
+                            <span className="truncate">
+                              Edit {event.type}
+                              {event.date && ` (${formatStoredDate(event.date, event.dateText)})`}
+                            </span>
+                          </DropdownMenuItem>
+                        ))}
+                        <DropdownMenuSeparator />
+                      </>
+                    )}
+                    <DropdownMenuItem onClick={() => onEdit(member)}>
+                      <Edit2 className="mr-2 h-3 w-3" />
+                      {canEdit ? "Edit Details" : "Suggest Changes"}
+                    </DropdownMenuItem>
+                    {canEdit && (
+                      <DropdownMenuItem onClick={() => onDelete(member.id)} className="text-red-600">
+                        <Trash2 className="mr-2 h-3 w-3" />
+                        Delete Member
+                      </DropdownMenuItem>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
             </div>
 
             <div className="mt-2 space-y-1 text-xs text-gray-600">
@@ -224,7 +279,7 @@ export default function FamilyMemberCard({
                 <span>
                   {member.birthDate ? (
                     <>
-                      {format(new Date(member.birthDate), 'MMM d, yyyy')}
+                      {formatStoredDate(member.birthDate, member.birthDateText)}
                       {member.birthPlace && ` in ${member.birthPlace}`}
                     </>
                   ) : (
@@ -237,7 +292,7 @@ export default function FamilyMemberCard({
                 <div className="flex items-center space-x-1">
                   <MapPin className="w-3 h-3" />
                   <span>
-                    {format(new Date(member.deathDate), 'MMM d, yyyy')}
+                    {formatStoredDate(member.deathDate, member.deathDateText)}
                     {member.deathPlace && ` in ${member.deathPlace}`}
                   </span>
                 </div>
@@ -281,3 +336,55 @@ export default function FamilyMemberCard({
     </div>
   );
 }
+
+interface CompactMemberCardProps {
+  member: FamilyMember;
+  photoMediaId?: number;
+  x: number;
+  y: number;
+  isSelected: boolean;
+  onSelect: () => void;
+}
+
+// The card's look at a fixed size and position, for charts laid out automatically
+export function CompactMemberCard({
+  member,
+  photoMediaId,
+  x,
+  y,
+  isSelected,
+  onSelect
+}: CompactMemberCardProps) {
+  const treeApi = useTreeApi();
+  return (
+    <div
+      className={`absolute cursor-pointer transition-shadow hover:shadow-lg ${
+        isSelected ? 'ring-2 ring-primary ring-offset-2' : ''
+      }`}
+      style={{ left: x, top: y, width: COMPACT_CARD_WIDTH, height: COMPACT_CARD_HEIGHT }}
+      onClick={onSelect}
+    >
+      <Card className={`h-full px-3 py-2 bg-white border-l-4 ${genderBorderClass(member)}`}>
+        <div className="flex items-center space-x-2">
+          <Avatar className="w-8 h-8">
+            <AvatarImage
+              src={photoMediaId ? `${treeApi}/media/${photoMediaId}/thumbnail` : member.photoUrl || ''}
+              alt={`${member.firstName} ${member.lastName}`}
+            />
+            <AvatarFallback className="text-xs">
+              {member.firstName?.[0]}{member.lastName?.[0]}
+            </AvatarFallback>
+          </Avatar>
+          <div className="min-w-0">
+            <h3 className="truncate text-sm font-semibold text-gray-900">
+              {member.firstName} {member.lastName}
+            </h3>
+            <p className="truncate text-xs text-gray-600">
+              {lifeSpan(member) || (member.isLiving ? "Living" : "Deceased")}
+            </p>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -2,14 +2,21 @@ import React, { useRef, useEffect, useState } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import FamilyMemberCard from "./family-member-card";
-import type { FamilyTreeData, FamilyMember, Relationship } from "@shared/schema";
+import type { FamilyTreeData, FamilyMember, FamilyEvent, Relationship, Kinship } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+import { useFamilyTree, usePrimaryPhotos, useChangeHistory } from "@/hooks/use-family-tree";
+import { useTreePermissions, useCurrentTreeId } from "@/hooks/use-trees";
 import EditMemberModal from "./edit-member-modal";
+import EventEditorModal from "./event-editor-modal";
+import EditRelationshipModal from "./edit-relationship-modal";
 
 interface FamilyTreeCanvasProps {
   familyTree?: FamilyTreeData;
   selectedMemberId: number | null;
-  onMemberSelect: (id: number | null) => void;
+  compareMemberId?: number | null;
+  kinship?: Kinship | null;
+  onMemberSelect: (id: number | null, additive?: boolean) => void;
   onAddMember: (type: string, relatedMemberId?: number) => void;
   scale: number;
   panX: number;
@@ -61,6 +68,8 @@ const getRelationshipStyle = (relationship: Relationship) => {
 export default function FamilyTreeCanvas({
   familyTree,
   selectedMemberId,
+  compareMemberId = null,
+  kinship = null,
   onMemberSelect,
   onAddMember,
   scale,
@@ -72,34 +81,37 @@ export default function FamilyTreeCanvas({
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const queryClient = useQueryClient();
+  const treeId = useCurrentTreeId();
   const { toast } = useToast();
   const [editMember, setEditMember] = useState<FamilyMember | null>(null);
+  const { data: primaryPhotos } = usePrimaryPhotos();
+  const { updateMemberPositions } = useFamilyTree();
+  const { undo } = useChangeHistory();
+  const { canEdit } = useTreePermissions();
   const [editModalOpen, setEditModalOpen] = useState(false);
+  const [editRelationship, setEditRelationship] = useState<Relationship | null>(null);
+  // The event being edited, or the members of a new one
+  const [eventEditor, setEventEditor] = useState<{ event: FamilyEvent | null; memberIds: number[] } | null>(null);
   
   const [isPanning, setIsPanning] = useState(false);
   const [lastPanPoint, setLastPanPoint] = useState({ x: 0, y: 0 });
   const [redrawKey, setRedrawKey] = useState(0);
 
-  const updatePositionMutation = useMutation({
-    mutationFn: async ({ id, x, y }: { id: number; x: number; y: number }) => {
-      const response = await apiRequest('PATCH', `/api/family-members/${id}/position`, { x, y });
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/family-tree'] });
-    }
-  });
-
   const deleteMemberMutation = useMutation({
     mutationFn: async (id: number) => {
-      await apiRequest('DELETE', `/api/family-members/${id}`);
+      await apiRequest('DELETE', `/api/trees/${treeId}/family-members/${id}`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/family-tree'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId] });
       onMemberSelect(null);
       toast({
         title: "Success",
         description: "Family member deleted successfully",
+        action: (
+          <ToastAction altText="Undo delete" onClick={() => undo.mutate()}>
+            Undo
+          </ToastAction>
+        ),
       });
     },
     onError: () => {
@@ -135,13 +147,17 @@ export default function FamilyTreeCanvas({
         }
       }
     });
-  }, [familyTree, scale, panX, panY, redrawKey]);
+  }, [familyTree, kinship, scale, panX, panY, redrawKey, canEdit]);
 
   const drawRelationship = (from: FamilyMember, to: FamilyMember, relationship: Relationship) => {
     const svg = svgRef.current;
     if (!svg || !familyTree) return;
 
     const style = getRelationshipStyle(relationship);
+    if (kinship?.relationshipIds.includes(relationship.id)) {
+      style.color = '#F59E0B';
+      style.strokeWidth += 2;
+    }
     const CARD_WIDTH = 256;
     const CARD_HEIGHT = 128;
 
@@ -213,6 +229,29 @@ export default function FamilyTreeCanvas({
     }
     group.appendChild(line);
 
+    // A wider transparent line on top makes the connection easy to hover and click
+    const hitLine = document.createElementNS('http://www.w3.org/2000/svg', 'line');
+    hitLine.setAttribute('x1', fromX.toString());
+    hitLine.setAttribute('y1', fromY.toString());
+    hitLine.setAttribute('x2', toX.toString());
+    hitLine.setAttribute('y2', toY.toString());
+    hitLine.setAttribute('stroke', 'transparent');
+    hitLine.setAttribute('stroke-width', '12');
+    hitLine.setAttribute('class', `relationship-line pointer-events-auto${canEdit ? ' cursor-pointer' : ''}`);
+    hitLine.addEventListener('mouseenter', () => {
+      line.setAttribute('stroke-width', (style.strokeWidth + 2).toString());
+    });
+    hitLine.addEventListener('mouseleave', () => {
+      line.setAttribute('stroke-width', style.strokeWidth.toString());
+    });
+    // Only editors can change a relationship; everyone else just sees what it is
+    if (canEdit) {
+      hitLine.addEventListener('click', () => setEditRelationship(relationship));
+    }
+    const title = document.createElementNS('http://www.w3.org/2000/svg', 'title');
+    title.textContent = `${from.firstName} and ${to.firstName}: ${relationship.type}${canEdit ? '. Click to edit' : ''}`;
+    hitLine.appendChild(title);
+
     // For parent-child relationships, add an arrow pointing to the child
     if (relationship.type === 'parent-child' || relationship.type === 'adopted' || relationship.type === 'guardian') {
       const angle = Math.atan2(toY - fromY, toX - fromX);
@@ -244,11 +283,21 @@ export default function FamilyTreeCanvas({
       group.appendChild(text);
     }
 
+    // Keep the hit line above the arrow and label
+    group.appendChild(hitLine);
     svg.appendChild(group);
   };
 
   const handleMemberPositionChange = (id: number, x: number, y: number) => {
-    updatePositionMutation.mutate({ id, x, y });
+    updateMemberPositions.mutate([{ id, x, y }], {
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    });
     setRedrawKey(k => k + 1);
   };
 
@@ -261,7 +310,7 @@ export default function FamilyTreeCanvas({
 
   const handleMouseDown = (e: React.MouseEvent) => {
     // Only start panning if not clicking on a family member card
-    if ((e.target as HTMLElement).closest('.family-member-card')) {
+    if ((e.target as Element).closest('.family-member-card, .relationship-line')) {
       return;
     }
     
@@ -333,9 +382,9 @@ export default function FamilyTreeCanvas({
         }}
       />
 
-      {/* Family Members Container */}
+      {/* Family Members Container; only the cards take clicks so the lines below stay clickable */}
       <div 
-        className="absolute top-0 left-0 w-full h-full"
+        className="absolute top-0 left-0 w-full h-full pointer-events-none [&>*]:pointer-events-auto"
         style={{
           transform: `scale(${scale}) translate(${panX}px, ${panY}px)`
         }}
@@ -344,12 +393,14 @@ export default function FamilyTreeCanvas({
           <FamilyMemberCard
             key={member.id}
             member={member}
-            isSelected={selectedMemberId === member.id}
-            onSelect={() => onMemberSelect(member.id)}
+            photoMediaId={primaryPhotos?.[member.id]}
+            isSelected={selectedMemberId === member.id || compareMemberId === member.id}
+            isOnPath={kinship?.path.includes(member.id) ?? false}
+            onSelect={(additive) => onMemberSelect(member.id, additive)}
             onPositionChange={handleMemberPositionChange}
             onAddMember={onAddMember}
             onDelete={(id) => {
-              if (window.confirm('Are you sure you want to delete this family member? This action cannot be undone.')) {
+              if (window.confirm('Are you sure you want to delete this family member and every event they are in?')) {
                 deleteMemberMutation.mutate(id);
               }
             }}
@@ -357,6 +408,9 @@ export default function FamilyTreeCanvas({
               setEditMember(member);
               setEditModalOpen(true);
             }}
+            events={familyTree.events.filter(e => e.memberIds.includes(member.id))}
+            onAddEvent={(memberId) => setEventEditor({ event: null, memberIds: [memberId] })}
+            onEditEvent={(event) => setEventEditor({ event, memberIds: event.memberIds })}
           />
         ))}
       </div>
@@ -367,6 +421,20 @@ export default function FamilyTreeCanvas({
         onOpenChange={setEditModalOpen}
         member={editMember}
       />
+
+      <EditRelationshipModal
+        open={editRelationship !== null}
+        onOpenChange={(open) => !open && setEditRelationship(null)}
+        relationship={editRelationship}
+        familyTree={familyTree}
+      />
+
+      <EventEditorModal
+        open={eventEditor !== null}
+        onOpenChange={(open) => !open && setEventEditor(null)}
+        event={eventEditor?.event ?? null}
+        defaultMemberIds={eventEditor?.memberIds}
+      />
     </div>
   );
 }
@@ -0,0 +1,248 @@
+import React, { useMemo, useRef, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download, PieChart } from "lucide-react";
+import { MemberPicker, lifeYears, nameOf } from "@/components/chart-member-box";
+import type { FamilyMember, FamilyTreeData } from "@shared/schema";
+import { buildPedigree } from "@shared/charts";
+
+interface FanChartProps {
+  familyTree?: FamilyTreeData;
+  selectedMemberId: number | null;
+  onSelectMember: (id: number) => void;
+}
+
+type FanShape = "half" | "full";
+type ColorMode = "lineage" | "surname";
+
+const CENTER_RADIUS = 70;
+const MARGIN = 16;
+const GENERATION_OPTIONS = [3, 4, 5, 6, 7, 8];
+// Names run along the inner rings and outward across the narrow outer ones
+const TANGENTIAL_GENERATIONS = 3;
+
+const ringWidth = (generation: number) => generation <= 4 ? 64 : 96;
+const innerRadius = (generation: number) =>
+  CENTER_RADIUS + Array.from({ length: generation - 1 }, (_, g) => ringWidth(g + 1)).reduce((a, b) => a + b, 0);
+
+// Angles are in degrees clockwise from twelve o'clock
+const polar = (cx: number, cy: number, radius: number, angle: number) => {
+  const radians = (angle * Math.PI) / 180;
+  return { x: cx + radius * Math.sin(radians), y: cy - radius * Math.cos(radians) };
+};
+
+function segmentPath(cx: number, cy: number, inner: number, outer: number, from: number, to: number) {
+  const large = to - from > 180 ? 1 : 0;
+  const a = polar(cx, cy, outer, from);
+  const b = polar(cx, cy, outer, to);
+  const c = polar(cx, cy, inner, to);
+  const d = polar(cx, cy, inner, from);
+  return `M ${a.x} ${a.y} A ${outer} ${outer} 0 ${large} 1 ${b.x} ${b.y} ` +
+    `L ${c.x} ${c.y} A ${inner} ${inner} 0 ${large} 0 ${d.x} ${d.y} Z`;
+}
+
+// Fathers' lines in blues and mothers' in pinks, paler further out
+function lineageColor(number: number, generation: number) {
+  const paternal = number < 3 * 2 ** (generation - 1);
+  const lightness = Math.min(88, 62 + generation * 4);
+  return paternal ? `hsl(213, 70%, ${lightness}%)` : `hsl(330, 65%, ${lightness}%)`;
+}
+
+function surnameColor(member: FamilyMember) {
+  const surname = member.lastName?.trim().toLowerCase();
+  if (!surname) return '#E5E7EB';
+  let hash = 0;
+  for (const char of surname) hash = (hash * 31 + char.charCodeAt(0)) % 360;
+  return `hsl(${hash}, 55%, 80%)`;
+}
+
+const truncate = (text: string, maxChars: number) =>
+  text.length <= maxChars ? text : `${text.slice(0, Math.max(1, maxChars - 1))}…`;
+
+export default function FanChart({
+  familyTree,
+  selectedMemberId,
+  onSelectMember
+}: FanChartProps) {
+  const [generations, setGenerations] = useState(5);
+  const [shape, setShape] = useState<FanShape>("half");
+  const [colorMode, setColorMode] = useState<ColorMode>("lineage");
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const pedigree = useMemo(
+    () => familyTree && selectedMemberId !== null
+      ? buildPedigree(familyTree, selectedMemberId, generations)
+      : null,
+    [familyTree, selectedMemberId, generations]
+  );
+  const root = pedigree?.entries[0];
+
+  const radius = innerRadius(generations);
+  const span = shape === "full" ? 360 : 180;
+  const start = -span / 2;
+  const cx = radius + MARGIN;
+  const cy = radius + MARGIN;
+  const width = 2 * (radius + MARGIN);
+  const height = shape === "full" ? width : radius + CENTER_RADIUS + 2 * MARGIN;
+
+  const handleDownload = () => {
+    if (!svgRef.current || !root) return;
+    const markup = new XMLSerializer().serializeToString(svgRef.current);
+    const url = URL.createObjectURL(new Blob([markup], { type: "image/svg+xml" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `fan-chart-${nameOf(root.member).replace(/\s+/g, '-').toLowerCase()}.svg`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderSegment = (number: number, member: FamilyMember | undefined) => {
+    const generation = Math.floor(Math.log2(number));
+    const slots = 2 ** generation;
+    const from = start + (number - slots) * (span / slots);
+    const to = from + span / slots;
+    const inner = innerRadius(generation);
+    const outer = inner + ringWidth(generation);
+    const path = segmentPath(cx, cy, inner, outer, from, to);
+
+    if (!member) {
+      return <path key={number} d={path} fill="#F9FAFB" stroke="#E5E7EB" />;
+    }
+
+    // Text sits in the middle of the segment, turned so it reads upright
+    const mid = (from + to) / 2;
+    const midRadius = (inner + outer) / 2;
+    const centre = polar(cx, cy, midRadius, mid);
+    const arcLength = (midRadius * (to - from) * Math.PI) / 180;
+    const tangential = generation <= TANGENTIAL_GENERATIONS;
+    const rotation = tangential
+      ? (Math.abs(mid) > 90 ? mid + 180 : mid)
+      : (mid < 0 ? mid + 90 : mid - 90);
+    const room = (tangential ? arcLength : ringWidth(generation)) - 8;
+    const fontSize = tangential ? (generation <= 2 ? 12 : 11) : Math.min(11, arcLength * 0.4);
+    const maxChars = Math.floor(room / (fontSize * 0.55));
+    const years = lifeYears(member);
+
+    return (
+      <g
+        key={number}
+        className="cursor-pointer"
+        onClick={() => onSelectMember(member.id)}
+      >
+        <title>{`${number}. ${nameOf(member)}${years ? ` (${years})` : ''}`}</title>
+        <path
+          d={path}
+          fill={colorMode === "lineage" ? lineageColor(number, generation) : surnameColor(member)}
+          stroke="#FFFFFF"
+          strokeWidth={1.5}
+          className="hover:opacity-80"
+        />
+        {fontSize >= 5 && maxChars > 0 && (
+          <text
+            transform={`translate(${centre.x} ${centre.y}) rotate(${rotation})`}
+            textAnchor="middle"
+            fontSize={fontSize}
+            fill="#1F2937"
+            pointerEvents="none"
+          >
+            <tspan x={0} dy={years ? '-0.2em' : '0.35em'} fontWeight={600}>
+              {truncate(nameOf(member), maxChars)}
+            </tspan>
+            {years && (
+              <tspan x={0} dy="1.2em" fill="#4B5563">
+                {truncate(years, maxChars)}
+              </tspan>
+            )}
+          </text>
+        )}
+      </g>
+    );
+  };
+
+  const known = new Map(pedigree?.entries.map(e => [e.number, e.member]) ?? []);
+  const slots = Array.from({ length: 2 ** generations - 2 }, (_, i) => i + 2);
+
+  return (
+    <div className="p-6 max-h-screen overflow-auto">
+      <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">Fan Chart</h2>
+          <p className="text-gray-600">Ancestors in rings around the selected person; click a segment to put them in the centre</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <MemberPicker familyTree={familyTree} value={selectedMemberId} onChange={onSelectMember} />
+          <Select value={String(generations)} onValueChange={(value) => setGenerations(parseInt(value))}>
+            <SelectTrigger className="w-40 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GENERATION_OPTIONS.map(count => (
+                <SelectItem key={count} value={String(count)}>
+                  {count} generations
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={shape} onValueChange={(value) => setShape(value as FanShape)}>
+            <SelectTrigger className="w-36 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="half">Half circle</SelectItem>
+              <SelectItem value="full">Full circle</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={colorMode} onValueChange={(value) => setColorMode(value as ColorMode)}>
+            <SelectTrigger className="w-44 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="lineage">Color by lineage</SelectItem>
+              <SelectItem value="surname">Color by surname</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={handleDownload} disabled={!root}>
+            <Download className="h-4 w-4 mr-2" />
+            SVG
+          </Button>
+        </div>
+      </div>
+
+      {!root ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center text-gray-500">
+              <PieChart className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+              <p>No one selected</p>
+              <p className="text-sm mt-2">Choose a person to see their ancestors</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <svg
+          ref={svgRef}
+          xmlns="http://www.w3.org/2000/svg"
+          width={width}
+          height={height}
+          viewBox={`0 0 ${width} ${height}`}
+          className="mx-auto block"
+          fontFamily="ui-sans-serif, system-ui, sans-serif"
+        >
+          {slots.map(number => renderSegment(number, known.get(number)))}
+          <circle cx={cx} cy={cy} r={CENTER_RADIUS} fill="#FFFFFF" stroke="#94A3B8" strokeWidth={2} />
+          <text x={cx} y={cy} textAnchor="middle" fontSize={13} fill="#111827">
+            <tspan x={cx} dy="-0.2em" fontWeight={700}>{truncate(nameOf(root.member), 18)}</tspan>
+            <tspan x={cx} dy="1.3em" fontSize={11} fill="#4B5563">{lifeYears(root.member)}</tspan>
+          </text>
+        </svg>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import React, { useMemo, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Hourglass } from "lucide-react";
+import { MemberPicker } from "@/components/chart-member-box";
+import {
+  CompactMemberCard,
+  COMPACT_CARD_WIDTH,
+  COMPACT_CARD_HEIGHT,
+} from "@/components/family-member-card";
+import { usePrimaryPhotos } from "@/hooks/use-family-tree";
+import type { FamilyMember, FamilyTreeData } from "@shared/schema";
+import { buildDescendants, buildPedigree, type DescendantNode } from "@shared/charts";
+
+interface HourglassChartProps {
+  familyTree?: FamilyTreeData;
+  selectedMemberId: number | null;
+  onSelectMember: (id: number) => void;
+}
+
+const SIBLING_GAP = 16;
+const ROW_HEIGHT = COMPACT_CARD_HEIGHT + 48;
+const GENERATION_OPTIONS = [1, 2, 3, 4];
+
+// A branch of the chart, growing up for ancestors or down for descendants
+type Branch = { key: string; member: FamilyMember; children: Branch[] };
+type PlacedCard = { key: string; member: FamilyMember; x: number; y: number };
+
+function ancestorBranch(tree: FamilyTreeData, rootId: number, generations: number): Branch | null {
+  const entries = new Map(buildPedigree(tree, rootId, generations + 1).entries.map(e => [e.number, e.member]));
+  const branch = (number: number): Branch | null => {
+    const member = entries.get(number);
+    if (!member) return null;
+    return {
+      key: `a${number}`,
+      member,
+      children: [branch(number * 2), branch(number * 2 + 1)].filter((b): b is Branch => b !== null),
+    };
+  };
+  return branch(1);
+}
+
+function descendantBranch(node: DescendantNode, generations: number): Branch {
+  return {
+    key: `d${node.key}`,
+    member: node.member,
+    children: node.generation < generations
+      ? node.children.map(child => descendantBranch(child, generations))
+      : [],
+  };
+}
+
+/**
+ * Places one half of the hourglass with each person centred over their own
+ * branch. `direction` is -1 to grow upward from the focus row, 1 downward.
+ */
+function layoutBranch(root: Branch, direction: 1 | -1) {
+  const widths = new Map<string, number>();
+  const measure = (branch: Branch): number => {
+    const childrenWidth = branch.children.reduce((sum, child) => sum + measure(child), 0) +
+      Math.max(0, branch.children.length - 1) * SIBLING_GAP;
+    const width = Math.max(COMPACT_CARD_WIDTH, childrenWidth);
+    widths.set(branch.key, width);
+    return width;
+  };
+
+  const cards: PlacedCard[] = [];
+  const links: Array<{ key: string; d: string }> = [];
+  let depth = 0;
+
+  // Returns the horizontal centre of the card
+  const place = (branch: Branch, left: number, level: number): number => {
+    const width = widths.get(branch.key)!;
+    const centre = left + width / 2;
+    const y = direction * level * ROW_HEIGHT;
+    cards.push({ key: branch.key, member: branch.member, x: centre - COMPACT_CARD_WIDTH / 2, y });
+    depth = Math.max(depth, level);
+
+    if (branch.children.length) {
+      const childrenWidth = branch.children.reduce((sum, child) => sum + widths.get(child.key)!, 0) +
+        (branch.children.length - 1) * SIBLING_GAP;
+      let childLeft = left + (width - childrenWidth) / 2;
+      const centres = branch.children.map(child => {
+        const childCentre = place(child, childLeft, level + 1);
+        childLeft += widths.get(child.key)! + SIBLING_GAP;
+        return childCentre;
+      });
+
+      // Links leave the card's top edge going up, its bottom edge going down
+      const fromY = direction === 1 ? y + COMPACT_CARD_HEIGHT : y;
+      const toY = direction === 1 ? y + ROW_HEIGHT : y - ROW_HEIGHT + COMPACT_CARD_HEIGHT;
+      const midY = (fromY + toY) / 2;
+      links.push({
+        key: branch.key,
+        d: `M ${centre} ${fromY} V ${midY} M ${Math.min(centre, ...centres)} ${midY} H ${Math.max(centre, ...centres)} ` +
+          centres.map(c => `M ${c} ${midY} V ${toY}`).join(' '),
+      });
+    }
+
+    return centre;
+  };
+
+  const width = measure(root);
+  place(root, 0, 0);
+  return { cards, links, width, depth };
+}
+
+export default function HourglassChart({
+  familyTree,
+  selectedMemberId,
+  onSelectMember
+}: HourglassChartProps) {
+  const [ancestorGenerations, setAncestorGenerations] = useState(2);
+  const [descendantGenerations, setDescendantGenerations] = useState(2);
+  const { data: primaryPhotos } = usePrimaryPhotos();
+
+  const layout = useMemo(() => {
+    if (!familyTree || selectedMemberId === null) return null;
+    const ancestors = ancestorBranch(familyTree, selectedMemberId, ancestorGenerations);
+    const descendants = buildDescendants(familyTree, selectedMemberId);
+    if (!ancestors || !descendants) return null;
+
+    const above = layoutBranch(ancestors, -1);
+    const below = layoutBranch(descendantBranch(descendants, descendantGenerations), 1);
+    const width = Math.max(above.width, below.width);
+    const top = above.depth * ROW_HEIGHT;
+
+    // Both halves share the focus card, centred on the wider of the two
+    const place = (half: typeof above) => {
+      const offset = { x: (width - half.width) / 2, y: top };
+      return {
+        cards: half.cards.map(card => ({ ...card, x: card.x + offset.x, y: card.y + offset.y })),
+        links: half.links.map(link => ({ ...link, transform: `translate(${offset.x} ${offset.y})` })),
+      };
+    };
+    const upper = place(above);
+    const lower = place(below);
+
+    return {
+      // The focus card is the root of both halves; draw it once
+      cards: [...upper.cards, ...lower.cards.slice(1)],
+      links: [...upper.links, ...lower.links],
+      width,
+      height: top + below.depth * ROW_HEIGHT + COMPACT_CARD_HEIGHT + 16,
+    };
+  }, [familyTree, selectedMemberId, ancestorGenerations, descendantGenerations]);
+
+  const generationSelect = (label: string, value: number, onChange: (value: number) => void) => (
+    <Select value={String(value)} onValueChange={(v) => onChange(parseInt(v))}>
+      <SelectTrigger className="w-48 bg-white">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {GENERATION_OPTIONS.map(count => (
+          <SelectItem key={count} value={String(count)}>
+            {count} {count === 1 ? 'generation' : 'generations'} {label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="p-6 max-h-screen overflow-auto">
+      <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">Hourglass Chart</h2>
+          <p className="text-gray-600">Ancestors above and descendants below the selected person</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <MemberPicker familyTree={familyTree} value={selectedMemberId} onChange={onSelectMember} />
+          {generationSelect('up', ancestorGenerations, setAncestorGenerations)}
+          {generationSelect('down', descendantGenerations, setDescendantGenerations)}
+        </div>
+      </div>
+
+      {!layout ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center text-gray-500">
+              <Hourglass className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+              <p>No one selected</p>
+              <p className="text-sm mt-2">Choose a person to see their ancestors and descendants</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="relative mx-auto" style={{ width: layout.width, height: layout.height }}>
+          <svg className="absolute inset-0 pointer-events-none" width={layout.width} height={layout.height}>
+            {layout.links.map(link => (
+              <path
+                key={link.key}
+                d={link.d}
+                transform={link.transform}
+                fill="none"
+                stroke="#94A3B8"
+                strokeWidth={2}
+              />
+            ))}
+          </svg>
+
+          {layout.cards.map(card => (
+            <CompactMemberCard
+              key={card.key}
+              member={card.member}
+              photoMediaId={primaryPhotos?.[card.member.id]}
+              x={card.x}
+              y={card.y}
+              isSelected={card.member.id === selectedMemberId}
+              onSelect={() => onSelectMember(card.member.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
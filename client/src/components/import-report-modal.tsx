@@ -0,0 +1,68 @@
+import React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { GedcomImportReport } from "@shared/schema";
+
+interface ImportReportModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  report: GedcomImportReport | null;
+}
+
+export default function ImportReportModal({
+  open,
+  onOpenChange,
+  report
+}: ImportReportModalProps) {
+  if (!report) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>GEDCOM Import Report</DialogTitle>
+          <DialogDescription>
+            Added {report.members} members, {report.relationships} relationships
+            and {report.events} events.
+          </DialogDescription>
+        </DialogHeader>
+
+        {report.skipped.length > 0 ? (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-gray-800">
+              Skipped or adjusted ({report.skipped.length})
+            </h3>
+            <ScrollArea className="h-72 rounded-md border">
+              <ul className="divide-y text-sm">
+                {report.skipped.map((entry, index) => (
+                  <li key={index} className="p-3 space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="outline">{entry.tag}</Badge>
+                      <span className="text-xs text-gray-500">Line {entry.line}</span>
+                    </div>
+                    <p className="text-gray-800">{entry.reason}</p>
+                    <p className="text-xs text-gray-500 font-mono">{entry.path}</p>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600">Every tag in the file was imported.</p>
+        )}
+
+        <div className="flex justify-end pt-2">
+          <Button onClick={() => onOpenChange(false)}>Close</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,166 @@
+import React, { useRef, useState } from "react";
+import { FileText, ImagePlus, Star, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useMedia, type MediaTarget } from "@/hooks/use-family-tree";
+import { useToast } from "@/hooks/use-toast";
+import { useTreeApi } from "@/hooks/use-trees";
+import type { MediaItem } from "@shared/schema";
+import { formatStoredDate } from "@shared/dates";
+
+const ACCEPTED_TYPES = "image/jpeg,image/png,image/gif,image/webp,application/pdf";
+
+interface MediaGalleryProps {
+  target: MediaTarget;
+}
+
+// Photos and documents for one member or event, with upload and captions
+export default function MediaGallery({ target }: MediaGalleryProps) {
+  const { toast } = useToast();
+  const treeApi = useTreeApi();
+  const { data: items, uploadMedia, updateMedia, linkMedia, deleteMedia } = useMedia(target);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [caption, setCaption] = useState("");
+  const [dateText, setDateText] = useState("");
+  const memberId = 'memberId' in target ? target.memberId : null;
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    uploadMedia.mutate({
+      file,
+      caption: caption.trim() || undefined,
+      dateText: dateText.trim() || undefined,
+    }, {
+      onSuccess: () => {
+        setCaption("");
+        setDateText("");
+      },
+      onError: showError
+    });
+  };
+
+  const saveCaption = (item: MediaItem, value: string) => {
+    if (value.trim() === (item.caption ?? "")) return;
+    updateMedia.mutate({ id: item.id, caption: value.trim() || null }, { onError: showError });
+  };
+
+  const handleDelete = (item: MediaItem) => {
+    if (window.confirm(`Delete ${item.originalName}? It will be removed everywhere it is linked.`)) {
+      deleteMedia.mutate(item.id, { onError: showError });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {!items?.length ? (
+        <p className="text-sm text-gray-600">No photos or documents yet.</p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {items.map(item => {
+            const isPrimary = memberId !== null && item.primaryForMemberIds.includes(memberId);
+            const date = formatStoredDate(item.date, item.dateText);
+            return (
+              <div key={item.id} className="rounded-md border overflow-hidden text-sm">
+                <a
+                  href={`${treeApi}/media/${item.id}/file`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="relative block aspect-square bg-gray-50"
+                >
+                  {item.thumbnailFileName ? (
+                    <img
+                      src={`${treeApi}/media/${item.id}/thumbnail`}
+                      alt={item.caption || item.originalName}
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <div className="flex h-full flex-col items-center justify-center p-2 text-gray-500">
+                      <FileText className="w-8 h-8" />
+                      <span className="mt-1 truncate max-w-full text-xs">{item.originalName}</span>
+                    </div>
+                  )}
+                  {isPrimary && <Badge className="absolute top-1 left-1">Primary</Badge>}
+                </a>
+                <div className="p-2 space-y-1">
+                  <Input
+                    key={item.caption ?? ""}
+                    defaultValue={item.caption ?? ""}
+                    placeholder="Caption"
+                    className="h-8 text-xs"
+                    onBlur={(e) => saveCaption(item, e.target.value)}
+                  />
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-gray-500">{date}</span>
+                    <div className="flex">
+                      {memberId !== null && item.thumbnailFileName && !isPrimary && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Show on card"
+                          aria-label="Make primary photo"
+                          onClick={() => linkMedia.mutate({ id: item.id, memberId, isPrimary: true }, { onError: showError })}
+                        >
+                          <Star className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        aria-label="Delete media"
+                        onClick={() => handleDelete(item)}
+                        disabled={deleteMedia.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_10rem_auto] gap-2">
+        <Input
+          value={caption}
+          onChange={(e) => setCaption(e.target.value)}
+          placeholder="Caption for the next upload"
+        />
+        <Input
+          value={dateText}
+          onChange={(e) => setDateText(e.target.value)}
+          placeholder="Date, e.g. about 1920"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploadMedia.isPending}
+        >
+          <ImagePlus className="w-4 h-4 mr-2" />
+          {uploadMedia.isPending ? "Uploading..." : "Upload"}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_TYPES}
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import React from "react";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { History } from "lucide-react";
+import { useAuditLog } from "@/hooks/use-family-tree";
+import type { AuditEntry } from "@shared/schema";
+
+interface MemberHistoryProps {
+  memberId: number;
+}
+
+const ACTION_LABELS: Record<AuditEntry['action'], string> = {
+  create: "Added",
+  update: "Changed",
+  delete: "Removed",
+  import: "Imported",
+  restore: "Restored",
+};
+
+// birthDateText -> "birth date text"
+const fieldLabel = (field: string) =>
+  field.replace(/([A-Z])/g, ' $1').toLowerCase();
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return "—";
+  if (Array.isArray(value)) return value.length ? value.join(', ') : "—";
+  if (typeof value === 'boolean') return value ? "yes" : "no";
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function describeEntry(entry: AuditEntry, memberId: number): string {
+  const verb = ACTION_LABELS[entry.action];
+  if (entry.entityType === 'member' && entry.entityId === memberId) {
+    return entry.action === 'update' ? "Changed details" : `${verb} this person`;
+  }
+  // Relationships and events read better with their type: "Added spouse relationship"
+  const type = entry.entityType === 'relationship' || entry.entityType === 'event'
+    ? (entry.changes.type?.after ?? entry.changes.type?.before) as string | undefined
+    : undefined;
+  return [verb, type, entry.entityType].filter(Boolean).join(' ');
+}
+
+// Everything recorded about one person: their own details, relationships, events, sources and photos
+export default function MemberHistory({ memberId }: MemberHistoryProps) {
+  const { data: entries, isLoading } = useAuditLog({ memberId });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading history…</p>;
+  }
+
+  if (!entries?.length) {
+    return (
+      <div className="text-center text-gray-500 py-8">
+        <History className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+        <p>No changes recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className="h-[60vh] rounded-md border">
+      <ul className="divide-y text-sm">
+        {entries.map(entry => (
+          <li key={entry.id} className="p-3 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline">{describeEntry(entry, memberId)}</Badge>
+              <span className="text-xs text-gray-500">
+                {entry.actor ?? "Unknown"} · {new Date(entry.createdAt).toLocaleString()}
+              </span>
+            </div>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+              {Object.entries(entry.changes).map(([field, { before, after }]) => (
+                <React.Fragment key={field}>
+                  <dt className="text-gray-500 capitalize">{fieldLabel(field)}</dt>
+                  <dd className="text-gray-800 break-words">
+                    {entry.action === 'update' ? (
+                      <>
+                        <span className="line-through text-gray-400">{formatValue(before)}</span>
+                        {" → "}
+                        {formatValue(after)}
+                      </>
+                    ) : formatValue(after ?? before)}
+                  </dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          </li>
+        ))}
+      </ul>
+    </ScrollArea>
+  );
+}
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useFamilyTree } from "@/hooks/use-family-tree";
+import { useToast } from "@/hooks/use-toast";
+import type { FamilyMember, InsertFamilyMember } from "@shared/schema";
+import { formatStoredDate } from "@shared/dates";
+
+interface MergeMembersModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  members: [FamilyMember, FamilyMember] | null;
+}
+
+type MergeField = keyof Omit<InsertFamilyMember, 'x' | 'y'>;
+
+// Date fields carry their text column along, so a qualifier like "about" is kept
+const mergeFields: Array<{
+  key: MergeField;
+  label: string;
+  kind?: 'date' | 'living';
+  text?: 'birthDateText' | 'deathDateText';
+}> = [
+  { key: 'firstName', label: 'First Name' },
+  { key: 'middleName', label: 'Middle Name' },
+  { key: 'lastName', label: 'Last Name' },
+  { key: 'gender', label: 'Gender' },
+  { key: 'birthDate', label: 'Birth Date', kind: 'date', text: 'birthDateText' },
+  { key: 'birthPlace', label: 'Birth Place' },
+  { key: 'isLiving', label: 'Status', kind: 'living' },
+  { key: 'deathDate', label: 'Death Date', kind: 'date', text: 'deathDateText' },
+  { key: 'deathPlace', label: 'Death Place' },
+  { key: 'occupation', label: 'Occupation' },
+  { key: 'email', label: 'Email' },
+  { key: 'photoUrl', label: 'Photo URL' },
+  { key: 'biography', label: 'Biography' },
+];
+
+const hasValue = (value: unknown) => value !== null && value !== undefined && value !== '';
+
+const display = (member: FamilyMember, field: typeof mergeFields[number]) => {
+  const value = member[field.key];
+  if (field.kind === 'living') return value ? 'Living' : 'Deceased';
+  if (!hasValue(value)) return '—';
+  if (field.kind === 'date') return formatStoredDate(value as string, member[field.text!]) ?? '—';
+  return String(value);
+};
+
+export default function MergeMembersModal({
+  open,
+  onOpenChange,
+  members
+}: MergeMembersModalProps) {
+  const { mergeMembers } = useFamilyTree();
+  const { toast } = useToast();
+  const [keepSide, setKeepSide] = useState<0 | 1>(0);
+  const [choices, setChoices] = useState<Partial<Record<MergeField, 0 | 1>>>({});
+
+  // Default every field to the kept record, unless only the other one has a value
+  const defaultChoices = (keep: 0 | 1) => {
+    if (!members) return {};
+    const other = keep === 0 ? 1 : 0;
+    return Object.fromEntries(mergeFields.map(({ key }) => [
+      key,
+      hasValue(members[keep][key]) ? keep : other,
+    ])) as Partial<Record<MergeField, 0 | 1>>;
+  };
+
+  useEffect(() => {
+    if (open) {
+      setKeepSide(0);
+      setChoices(defaultChoices(0));
+    }
+  }, [open, members]);
+
+  if (!members) return null;
+
+  const chooseKeep = (side: 0 | 1) => {
+    setKeepSide(side);
+    setChoices(defaultChoices(side));
+  };
+
+  const handleMerge = () => {
+    const values: Partial<Record<MergeField, unknown>> = {};
+    for (const { key, text } of mergeFields) {
+      const member = members[choices[key] ?? keepSide];
+      if (hasValue(member[key])) {
+        values[key] = member[key];
+        if (text) values[text] = member[text];
+      }
+    }
+
+    mergeMembers.mutate({
+      keepMemberId: members[keepSide].id,
+      mergeMemberId: members[keepSide === 0 ? 1 : 0].id,
+      values: values as Partial<InsertFamilyMember>,
+    }, {
+      onSuccess: () => {
+        toast({
+          title: "Success",
+          description: "Family members merged successfully",
+        });
+        onOpenChange(false);
+      },
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    });
+  };
+
+  const cellClass = (selected: boolean, selectable: boolean) =>
+    `rounded-md border px-3 py-2 text-left text-sm break-words ${
+      selected ? 'border-primary bg-primary/5 text-gray-900' : 'border-gray-200 text-gray-500'
+    } ${selectable ? 'hover:border-primary cursor-pointer' : 'cursor-default'}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Merge Family Members</DialogTitle>
+          <DialogDescription>
+            Pick the value to keep for each field. Relationships and events from
+            both records are moved to the merged person.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto">
+          <div className="grid grid-cols-[8rem_1fr_1fr] gap-2 items-start">
+            <div />
+            {members.map((member, side) => (
+              <button
+                key={member.id}
+                type="button"
+                onClick={() => chooseKeep(side as 0 | 1)}
+                className={cellClass(keepSide === side, true)}
+              >
+                <span className="font-semibold">{member.firstName} {member.lastName}</span>
+                {keepSide === side && <Badge className="ml-2">Keep</Badge>}
+              </button>
+            ))}
+
+            {mergeFields.map(field => {
+              const { key, label } = field;
+              const conflict = hasValue(members[0][key]) && hasValue(members[1][key])
+                && display(members[0], field) !== display(members[1], field);
+              return (
+                <React.Fragment key={key}>
+                  <span className="py-2 text-sm font-medium text-gray-700">{label}</span>
+                  {members.map((member, side) => (
+                    <button
+                      key={side}
+                      type="button"
+                      disabled={!conflict}
+                      onClick={() => setChoices(prev => ({ ...prev, [key]: side as 0 | 1 }))}
+                      className={cellClass(choices[key] === side, conflict)}
+                    >
+                      {display(member, field)}
+                    </button>
+                  ))}
+                </React.Fragment>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex space-x-3 pt-4">
+          <Button
+            className="flex-1"
+            onClick={handleMerge}
+            disabled={mergeMembers.isPending}
+          >
+            {mergeMembers.isPending ? "Merging..." : "Merge Members"}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            className="flex-1"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,166 @@
+import React, { useMemo, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GitFork } from "lucide-react";
+import ChartMemberBox, { MemberPicker, nameOf } from "@/components/chart-member-box";
+import type { FamilyTreeData } from "@shared/schema";
+import { buildPedigree } from "@shared/charts";
+
+interface PedigreeChartProps {
+  familyTree?: FamilyTreeData;
+  selectedMemberId: number | null;
+  onSelectMember: (id: number) => void;
+}
+
+const BOX_WIDTH = 208;
+const BOX_HEIGHT = 64;
+const COLUMN_GAP = 48;
+const ROW_GAP = 12;
+const GENERATION_OPTIONS = [3, 4, 5, 6];
+
+// Vertical centre of an Ahnentafel slot; each generation splits the height in half
+const slotCenter = (number: number, generation: number, height: number) => {
+  const slots = 2 ** generation;
+  return ((number - slots) + 0.5) * (height / slots);
+};
+
+export default function PedigreeChart({
+  familyTree,
+  selectedMemberId,
+  onSelectMember
+}: PedigreeChartProps) {
+  const [generations, setGenerations] = useState(4);
+
+  const pedigree = useMemo(
+    () => familyTree && selectedMemberId !== null
+      ? buildPedigree(familyTree, selectedMemberId, generations)
+      : null,
+    [familyTree, selectedMemberId, generations]
+  );
+
+  const height = 2 ** (generations - 1) * (BOX_HEIGHT + ROW_GAP);
+  const width = generations * BOX_WIDTH + (generations - 1) * COLUMN_GAP;
+
+  const boxes = pedigree?.entries.map(entry => ({
+    ...entry,
+    x: entry.generation * (BOX_WIDTH + COLUMN_GAP),
+    y: slotCenter(entry.number, entry.generation, height) - BOX_HEIGHT / 2,
+  })) ?? [];
+  const known = new Set(boxes.map(b => b.number));
+
+  // Empty parent slots show where the research stops
+  const missing = boxes
+    .filter(b => b.generation + 1 < generations)
+    .flatMap(b => [b.number * 2, b.number * 2 + 1])
+    .filter(number => !known.has(number))
+    .map(number => {
+      const generation = Math.floor(Math.log2(number));
+      return {
+        number,
+        x: generation * (BOX_WIDTH + COLUMN_GAP),
+        y: slotCenter(number, generation, height) - BOX_HEIGHT / 2,
+      };
+    });
+
+  // Elbow from each child's right edge to both parent slots
+  const links = boxes
+    .filter(b => b.generation + 1 < generations)
+    .flatMap(child => [child.number * 2, child.number * 2 + 1].map(number => {
+      const generation = child.generation + 1;
+      const fromX = child.x + BOX_WIDTH;
+      const fromY = child.y + BOX_HEIGHT / 2;
+      const toX = generation * (BOX_WIDTH + COLUMN_GAP);
+      const toY = slotCenter(number, generation, height);
+      const midX = fromX + COLUMN_GAP / 2;
+      return {
+        key: number,
+        known: known.has(number),
+        d: `M ${fromX} ${fromY} H ${midX} V ${toY} H ${toX}`,
+      };
+    }));
+
+  return (
+    <div className="p-6 max-h-screen overflow-auto">
+      <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">Pedigree Chart</h2>
+          <p className="text-gray-600">Direct ancestors, numbered by the Ahnentafel system; click anyone to follow their line</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <MemberPicker familyTree={familyTree} value={selectedMemberId} onChange={onSelectMember} />
+          <Select value={String(generations)} onValueChange={(value) => setGenerations(parseInt(value))}>
+            <SelectTrigger className="w-40 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GENERATION_OPTIONS.map(count => (
+                <SelectItem key={count} value={String(count)}>
+                  {count} generations
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {!pedigree?.entries.length ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center text-gray-500">
+              <GitFork className="h-12 w-12 mx-auto mb-4 text-gray-300 rotate-90" />
+              <p>No one selected</p>
+              <p className="text-sm mt-2">Choose a person to see their ancestors</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="relative" style={{ width, height }}>
+          <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+            {links.map(link => (
+              <path
+                key={link.key}
+                d={link.d}
+                fill="none"
+                stroke={link.known ? '#94A3B8' : '#CBD5E1'}
+                strokeWidth={link.known ? 2 : 1}
+                strokeDasharray={link.known ? undefined : '4,4'}
+              />
+            ))}
+          </svg>
+
+          {missing.map(slot => (
+            <div
+              key={slot.number}
+              className="absolute flex items-center rounded-md border border-dashed border-gray-300 px-3 text-xs text-gray-400"
+              style={{ left: slot.x, top: slot.y, width: BOX_WIDTH, height: BOX_HEIGHT }}
+            >
+              <span className="mr-2 font-mono">{slot.number}</span>
+              Unknown
+            </div>
+          ))}
+
+          {boxes.map(box => (
+            <ChartMemberBox
+              key={box.number}
+              member={box.member}
+              x={box.x}
+              y={box.y}
+              width={BOX_WIDTH}
+              height={BOX_HEIGHT}
+              label={box.number}
+              isFocus={box.number === 1}
+              title={box.number === 1 ? undefined : `Show ${nameOf(box.member)}'s ancestors`}
+              onClick={() => onSelectMember(box.member.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
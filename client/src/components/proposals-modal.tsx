@@ -0,0 +1,117 @@
+import React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useProposals } from "@/hooks/use-family-tree";
+import { useToast } from "@/hooks/use-toast";
+import type { ChangeProposal, FamilyTreeData } from "@shared/schema";
+import { format } from "date-fns";
+
+interface ProposalsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  familyTree?: FamilyTreeData;
+}
+
+const ACTION_VERBS = { create: "add", update: "change", delete: "remove" } as const;
+
+// Editors and owners approve or reject what contributors have suggested
+export default function ProposalsModal({
+  open,
+  onOpenChange,
+  familyTree
+}: ProposalsModalProps) {
+  const { pending, review } = useProposals(open);
+  const { toast } = useToast();
+
+  const memberName = (id: number | null | undefined) => {
+    const member = familyTree?.members.find(m => m.id === id);
+    return member ? [member.firstName, member.lastName].filter(Boolean).join(' ') : `#${id}`;
+  };
+
+  const describe = (proposal: ChangeProposal) => {
+    const data = proposal.data ?? {};
+    if (proposal.entityType === 'member') {
+      const name = proposal.action === 'create'
+        ? [data.firstName, data.lastName].filter(Boolean).join(' ')
+        : memberName(proposal.entityId);
+      return `${ACTION_VERBS[proposal.action]} ${name}`;
+    }
+    return `${ACTION_VERBS[proposal.action]} a ${proposal.entityType}`;
+  };
+
+  const handleReview = (proposal: ChangeProposal, approve: boolean) => {
+    review.mutate({ id: proposal.id, approve }, {
+      onSuccess: () => toast({
+        title: approve ? "Suggestion applied" : "Suggestion rejected",
+        description: `${proposal.proposedByUsername ?? "Someone"} suggested to ${describe(proposal)}.`,
+      }),
+      onError: (error) => toast({ title: "Error", description: error.message, variant: "destructive" })
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Suggested Changes</DialogTitle>
+          <DialogDescription>
+            Contributors' changes only reach the tree once an editor approves them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!pending?.length ? (
+          <p className="text-sm text-gray-600">Nothing is waiting for review.</p>
+        ) : (
+          <ScrollArea className="h-80 rounded-md border">
+            <ul className="divide-y text-sm">
+              {pending.map(proposal => (
+                <li key={proposal.id} className="p-3 flex items-start justify-between space-x-3">
+                  <div className="space-y-1 min-w-0">
+                    <p className="font-medium text-gray-900">
+                      {proposal.proposedByUsername ?? "Someone"} suggests to {describe(proposal)}
+                    </p>
+                    {proposal.createdAt && (
+                      <p className="text-xs text-gray-500">
+                        {format(new Date(proposal.createdAt), 'd MMM yyyy, HH:mm')}
+                      </p>
+                    )}
+                    {proposal.action === 'update' && (
+                      <div className="flex flex-wrap gap-1">
+                        {Object.entries(proposal.data ?? {}).map(([field, value]) => (
+                          <Badge key={field} variant="outline" className="font-normal">
+                            {field}: {value === null || value === '' ? 'cleared' : String(value)}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2 shrink-0">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={review.isPending}
+                      onClick={() => handleReview(proposal, false)}
+                    >
+                      Reject
+                    </Button>
+                    <Button size="sm" disabled={review.isPending} onClick={() => handleReview(proposal, true)}>
+                      Approve
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,58 @@
+import React from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ChevronRight, GitCompareArrows, X } from "lucide-react";
+import type { FamilyTreeData, Kinship } from "@shared/schema";
+
+interface RelationshipPanelProps {
+  familyTree?: FamilyTreeData;
+  kinship: Kinship | null | undefined;
+  isLoading: boolean;
+  onClose: () => void;
+}
+
+export default function RelationshipPanel({
+  familyTree,
+  kinship,
+  isLoading,
+  onClose
+}: RelationshipPanelProps) {
+  const nameOf = (id: number) => {
+    const member = familyTree?.members.find(m => m.id === id);
+    return member ? `${member.firstName} ${member.lastName || ''}`.trim() : 'Unknown';
+  };
+
+  return (
+    <Card className="fixed bottom-6 left-1/2 md:left-[calc(50%+10rem)] -translate-x-1/2 z-30 w-[min(90vw,36rem)] p-4 bg-white shadow-xl border-amber-300">
+      <div className="flex items-start justify-between space-x-3">
+        <div className="flex items-start space-x-3 min-w-0">
+          <GitCompareArrows className="w-5 h-5 text-amber-500 mt-0.5 shrink-0" />
+          <div className="min-w-0">
+            <p className="font-semibold text-gray-900">
+              {isLoading ? 'Working out the relationship...' : kinship?.description}
+            </p>
+            {kinship && kinship.path.length > 0 && (
+              <div className="mt-2 flex flex-wrap items-center gap-1 text-xs">
+                {kinship.path.map((id, index) => (
+                  <React.Fragment key={id}>
+                    {index > 0 && <ChevronRight className="w-3 h-3 text-gray-400" />}
+                    <Badge
+                      variant={kinship.commonAncestorIds.includes(id) ? "default" : "outline"}
+                      className={kinship.commonAncestorIds.includes(id) ? "bg-amber-500 hover:bg-amber-500" : ""}
+                    >
+                      {nameOf(id)}
+                    </Badge>
+                  </React.Fragment>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0 shrink-0" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,260 @@
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Copy, Link2, Lock, X } from "lucide-react";
+import { useTreeSharing, useShareLinks } from "@/hooks/use-trees";
+import { useToast } from "@/hooks/use-toast";
+import { TREE_ROLES, type ShareLink, type TreeRole, type TreeWithRole } from "@shared/schema";
+import { format } from "date-fns";
+
+interface ShareTreeModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tree?: TreeWithRole;
+}
+
+const ROLE_LABELS: Record<TreeRole, string> = {
+  viewer: "Viewer",
+  contributor: "Contributor",
+  editor: "Editor",
+  owner: "Owner",
+};
+
+function RoleSelect({ value, onChange }: { value: TreeRole; onChange: (role: TreeRole) => void }) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as TreeRole)}>
+      <SelectTrigger className="w-36">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {TREE_ROLES.map(role => (
+          <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+const shareUrl = (link: ShareLink) => `${window.location.origin}/share/${link.token}`;
+
+// Owners invite relatives by username and pick what each of them may do, or
+// hand out read-only links to relatives without an account
+export default function ShareTreeModal({ open, onOpenChange, tree }: ShareTreeModalProps) {
+  const { members, share, changeRole, remove } = useTreeSharing(open ? tree?.id : undefined);
+  const { links, create, revoke } = useShareLinks(open ? tree?.id : undefined);
+  const { toast } = useToast();
+  const [username, setUsername] = useState("");
+  const [role, setRole] = useState<TreeRole>("viewer");
+  const [linkLabel, setLinkLabel] = useState("");
+  const [linkExpiry, setLinkExpiry] = useState("");
+  const [linkPassword, setLinkPassword] = useState("");
+
+  const showError = (error: Error) =>
+    toast({ title: "Something went wrong", description: error.message, variant: "destructive" });
+
+  const handleShare = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = username.trim();
+    if (!trimmed) return;
+    share.mutate({ username: trimmed, role }, {
+      onSuccess: (member) => {
+        setUsername("");
+        toast({ title: "Tree shared", description: `${member.username} can now open "${tree?.name}".` });
+      },
+      onError: showError
+    });
+  };
+
+  const handleRemove = (userId: number, name: string) => {
+    if (window.confirm(`Stop sharing "${tree?.name}" with ${name}?`)) {
+      remove.mutate(userId, { onError: showError });
+    }
+  };
+
+  const handleCopy = (link: ShareLink) => {
+    navigator.clipboard.writeText(shareUrl(link)).then(
+      () => toast({ title: "Link copied", description: "Anyone with it can see the tree, without living people." }),
+      () => toast({ title: "Could not copy the link", description: shareUrl(link), variant: "destructive" })
+    );
+  };
+
+  const handleCreateLink = (e: React.FormEvent) => {
+    e.preventDefault();
+    create.mutate({
+      label: linkLabel.trim() || undefined,
+      // The link still works on the day it expires
+      expiresAt: linkExpiry ? new Date(`${linkExpiry}T23:59:59`) : null,
+      password: linkPassword || undefined,
+    }, {
+      onSuccess: (link) => {
+        setLinkLabel("");
+        setLinkExpiry("");
+        setLinkPassword("");
+        handleCopy(link);
+      },
+      onError: showError
+    });
+  };
+
+  const handleRevoke = (link: ShareLink) => {
+    if (window.confirm(`Revoke ${link.label ? `the link for ${link.label}` : "this link"}? It stops working at once.`)) {
+      revoke.mutate(link.id, { onError: showError });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Share "{tree?.name}"</DialogTitle>
+          <DialogDescription>
+            Viewers can look around, contributors can suggest changes for an editor
+            to approve, editors can change anything and owners can also share,
+            rename and delete the tree. Relatives need an account first.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleShare} className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="share-username">Username</Label>
+            <Input
+              id="share-username"
+              value={username}
+              placeholder="e.g. cousin_mary"
+              onChange={(e) => setUsername(e.target.value)}
+            />
+          </div>
+          <RoleSelect value={role} onChange={setRole} />
+          <Button type="submit" disabled={!username.trim() || share.isPending}>
+            Share
+          </Button>
+        </form>
+
+        <ul className="divide-y rounded-md border text-sm">
+          {members?.map(member => (
+            <li key={member.userId} className="flex items-center justify-between gap-2 p-3">
+              <span className="truncate font-medium text-gray-900">{member.username}</span>
+              <div className="flex items-center gap-2">
+                <RoleSelect
+                  value={member.role}
+                  onChange={(next) => changeRole.mutate({ userId: member.userId, role: next }, { onError: showError })}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  aria-label={`Remove ${member.username}`}
+                  onClick={() => handleRemove(member.userId, member.username)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div className="space-y-3 border-t pt-4">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900">Read-only links</h3>
+            <p className="text-sm text-gray-600">
+              Anyone with a link can browse the tree and timeline without an account.
+              Living people are hidden and nothing can be changed.
+            </p>
+          </div>
+
+          <form onSubmit={handleCreateLink} className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="link-label">For</Label>
+              <Input
+                id="link-label"
+                value={linkLabel}
+                maxLength={100}
+                placeholder="e.g. Grandma"
+                onChange={(e) => setLinkLabel(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="link-expiry">Expires (optional)</Label>
+              <Input
+                id="link-expiry"
+                type="date"
+                value={linkExpiry}
+                min={format(new Date(), "yyyy-MM-dd")}
+                onChange={(e) => setLinkExpiry(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="link-password">Password (optional)</Label>
+              <Input
+                id="link-password"
+                type="password"
+                autoComplete="new-password"
+                value={linkPassword}
+                onChange={(e) => setLinkPassword(e.target.value)}
+              />
+            </div>
+            <Button type="submit" className="self-end" disabled={create.isPending}>
+              <Link2 className="h-4 w-4 mr-2" />
+              Create Link
+            </Button>
+          </form>
+
+          {!!links?.length && (
+            <ul className="divide-y rounded-md border text-sm">
+              {links.map(link => (
+                <li key={link.id} className="flex items-center justify-between gap-2 p-3">
+                  <div className="min-w-0">
+                    <p className="flex items-center gap-1 truncate font-medium text-gray-900">
+                      {link.hasPassword && <Lock className="h-3 w-3 shrink-0" aria-label="Needs a password" />}
+                      {link.label || "Unnamed link"}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {link.expiresAt
+                        ? `${new Date(link.expiresAt) > new Date() ? "Expires" : "Expired"} ${format(new Date(link.expiresAt), "d MMM yyyy")}`
+                        : "Never expires"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      aria-label="Copy link"
+                      onClick={() => handleCopy(link)}
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      aria-label="Revoke link"
+                      onClick={() => handleRevoke(link)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
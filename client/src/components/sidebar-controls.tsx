@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { 
@@ -10,17 +10,42 @@ import {
   Activity,
   HeartHandshake,
   Link,
-  Layout
+  Layout,
+  Upload,
+  Download,
+  Archive,
+  ArchiveRestore,
+  AlertTriangle,
+  AlertCircle,
+  CheckCircle2,
+  Combine,
+  LogOut,
+  UserPlus,
+  ClipboardCheck,
+  ShieldCheck
 } from "lucide-react";
+import { useTreePermissions, useTreeApi } from "@/hooks/use-trees";
 import type { FamilyTreeData } from "@shared/schema";
+import type { ValidationIssue } from "@shared/validation";
 
 interface SidebarControlsProps {
   familyTree?: FamilyTreeData;
   onAddMember: (type: string) => void;
   onConnectMembers: () => void;
   onAutoAlign: () => void;
+  onImportGedcom: (file: File) => void;
+  onRestoreBackup: (file: File) => void;
+  onJumpToMember: (id: number) => void;
+  onFindDuplicates: () => void;
+  onReviewProposals: () => void;
+  onSignOut: () => void;
+  username?: string;
+  problems?: ValidationIssue[];
+  pendingProposals?: number;
   selectedMemberId: number | null;
   isAutoAligning?: boolean;
+  isImporting?: boolean;
+  isRestoring?: boolean;
 }
 
 export default function SidebarControls({
@@ -28,9 +53,25 @@ export default function SidebarControls({
   onAddMember,
   onConnectMembers,
   onAutoAlign,
+  onImportGedcom,
+  onRestoreBackup,
+  onJumpToMember,
+  onFindDuplicates,
+  onReviewProposals,
+  onSignOut,
+  username,
+  problems = [],
+  pendingProposals = 0,
   selectedMemberId,
-  isAutoAligning = false
+  isAutoAligning = false,
+  isImporting = false,
+  isRestoring = false
 }: SidebarControlsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  const { canPropose, canEdit } = useTreePermissions();
+  const treeApi = useTreeApi();
+
   const calculateStats = () => {
     if (!familyTree) return { totalMembers: 0, generations: 0, couples: 0 };
 
@@ -78,6 +119,11 @@ export default function SidebarControls({
 
   const stats = calculateStats();
 
+  const memberName = (id: number) => {
+    const member = familyTree?.members.find(m => m.id === id);
+    return member ? `${member.firstName} ${member.lastName || ''}`.trim() : `#${id}`;
+  };
+
   return (
     <div className="p-6 h-full overflow-y-auto">
       <div className="mb-8">
@@ -87,48 +133,210 @@ export default function SidebarControls({
         <p className="text-sm text-gray-600">
           Create and manage your family relationships
         </p>
+        {username && (
+          <div className="mt-4 flex items-center justify-between rounded-lg border px-3 py-2 text-sm">
+            <span className="text-gray-700 truncate">
+              Signed in as <span className="font-medium">{username}</span>
+            </span>
+            <Button variant="ghost" size="sm" onClick={onSignOut} className="h-8 px-2">
+              <LogOut className="w-4 h-4 mr-1" />
+              Sign out
+            </Button>
+          </div>
+        )}
       </div>
 
       {/* Add Member Buttons */}
       <div className="space-y-4 mb-8">
-        <h3 className="text-lg font-semibold text-gray-800 mb-4">
-          Add Family Members
-        </h3>
-        
-        <Button
-          onClick={() => onAddMember('spouse')}
-          className="w-full bg-red-500 hover:bg-red-600 text-white p-3 h-auto flex items-center justify-center space-x-2 transition-transform hover:scale-105"
-        >
-          <Heart className="w-4 h-4" />
-          <span>Add Spouse</span>
-        </Button>
-        
+        {canPropose && (
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">
+            {canEdit ? "Add Family Members" : "Suggest Changes"}
+          </h3>
+        )}
+
+        {canEdit ? (
+          <>
+            <Button
+              onClick={() => onAddMember('spouse')}
+              className="w-full bg-red-500 hover:bg-red-600 text-white p-3 h-auto flex items-center justify-center space-x-2 transition-transform hover:scale-105"
+            >
+              <Heart className="w-4 h-4" />
+              <span>Add Spouse</span>
+            </Button>
+            
+            <Button
+              onClick={() => onAddMember('child')}
+              className="w-full bg-green-500 hover:bg-green-600 text-white p-3 h-auto flex items-center justify-center space-x-2 transition-transform hover:scale-105"
+            >
+              <Baby className="w-4 h-4" />
+              <span>Add Child</span>
+            </Button>
+
+            <Button
+              onClick={onConnectMembers}
+              className="w-full bg-purple-500 hover:bg-purple-600 text-white p-3 h-auto flex items-center justify-center space-x-2 transition-transform hover:scale-105"
+            >
+              <Link className="w-4 h-4" />
+              <span>Connect Members</span>
+            </Button>
+
+            <Button
+              onClick={onAutoAlign}
+              disabled={isAutoAligning}
+              className="w-full bg-orange-500 hover:bg-orange-600 text-white p-3 h-auto flex items-center justify-center space-x-2 transition-transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Layout className={`w-4 h-4 ${isAutoAligning ? 'animate-spin' : ''}`} />
+              <span>{isAutoAligning ? "Aligning..." : "Auto Align Layout"}</span>
+            </Button>
+
+            <Button
+              onClick={onFindDuplicates}
+              className="w-full bg-indigo-500 hover:bg-indigo-600 text-white p-3 h-auto flex items-center justify-center space-x-2 transition-transform hover:scale-105"
+            >
+              <Combine className="w-4 h-4" />
+              <span>Find Duplicates</span>
+            </Button>
+
+            <Button
+              onClick={onReviewProposals}
+              disabled={pendingProposals === 0}
+              className="w-full bg-amber-500 hover:bg-amber-600 text-white p-3 h-auto flex items-center justify-center space-x-2 transition-transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ClipboardCheck className="w-4 h-4" />
+              <span>Review Suggestions{pendingProposals > 0 && ` (${pendingProposals})`}</span>
+            </Button>
+
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ged,.gedcom,text/plain"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImportGedcom(file);
+                e.target.value = "";
+              }}
+            />
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isImporting}
+              className="w-full bg-teal-500 hover:bg-teal-600 text-white p-3 h-auto flex items-center justify-center space-x-2 transition-transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Upload className="w-4 h-4" />
+              <span>{isImporting ? "Importing..." : "Import GEDCOM"}</span>
+            </Button>
+          </>
+        ) : canPropose && (
+          // Contributors' additions go to an editor for review
+          <Button
+            onClick={() => onAddMember('suggestion')}
+            className="w-full bg-red-500 hover:bg-red-600 text-white p-3 h-auto flex items-center justify-center space-x-2 transition-transform hover:scale-105"
+          >
+            <UserPlus className="w-4 h-4" />
+            <span>Suggest a Person</span>
+          </Button>
+        )}
+
         <Button
-          onClick={() => onAddMember('child')}
-          className="w-full bg-green-500 hover:bg-green-600 text-white p-3 h-auto flex items-center justify-center space-x-2 transition-transform hover:scale-105"
+          asChild
+          className="w-full bg-sky-500 hover:bg-sky-600 text-white p-3 h-auto flex items-center justify-center space-x-2 transition-transform hover:scale-105"
         >
-          <Baby className="w-4 h-4" />
-          <span>Add Child</span>
+          <a href={`${treeApi}/export/gedcom`} download="family-tree.ged">
+            <Download className="w-4 h-4" />
+            <span>Export GEDCOM</span>
+          </a>
         </Button>
 
+        {/* For sending to other researchers or genealogy sites */}
         <Button
-          onClick={onConnectMembers}
-          className="w-full bg-purple-500 hover:bg-purple-600 text-white p-3 h-auto flex items-center justify-center space-x-2 transition-transform hover:scale-105"
+          asChild
+          className="w-full bg-sky-400 hover:bg-sky-500 text-white p-3 h-auto flex items-center justify-center space-x-2 transition-transform hover:scale-105"
         >
-          <Link className="w-4 h-4" />
-          <span>Connect Members</span>
+          <a href={`${treeApi}/export/gedcom?redactLiving=true`} download="family-tree-public.ged">
+            <ShieldCheck className="w-4 h-4" />
+            <span>Export GEDCOM without Living People</span>
+          </a>
         </Button>
 
         <Button
-          onClick={onAutoAlign}
-          disabled={isAutoAligning}
-          className="w-full bg-orange-500 hover:bg-orange-600 text-white p-3 h-auto flex items-center justify-center space-x-2 transition-transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+          asChild
+          className="w-full bg-slate-600 hover:bg-slate-700 text-white p-3 h-auto flex items-center justify-center space-x-2 transition-transform hover:scale-105"
         >
-          <Layout className={`w-4 h-4 ${isAutoAligning ? 'animate-spin' : ''}`} />
-          <span>{isAutoAligning ? "Aligning..." : "Auto Align Layout"}</span>
+          <a href={`${treeApi}/backup`} download>
+            <Archive className="w-4 h-4" />
+            <span>Download Backup</span>
+          </a>
         </Button>
+
+        {canEdit && (
+          <>
+            <input
+              ref={backupInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onRestoreBackup(file);
+                e.target.value = "";
+              }}
+            />
+            <Button
+              onClick={() => backupInputRef.current?.click()}
+              disabled={isRestoring}
+              className="w-full bg-slate-500 hover:bg-slate-600 text-white p-3 h-auto flex items-center justify-center space-x-2 transition-transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ArchiveRestore className="w-4 h-4" />
+              <span>{isRestoring ? "Restoring..." : "Restore Backup"}</span>
+            </Button>
+          </>
+        )}
       </div>
 
+      {/* Problems */}
+      <Card className={`mb-6 ${problems.length ? 'bg-amber-50 border-amber-200' : 'bg-green-50 border-green-200'}`}>
+        <CardHeader className="pb-3">
+          <CardTitle className={`text-base font-semibold ${problems.length ? 'text-amber-800' : 'text-green-800'}`}>
+            Problems {problems.length > 0 && `(${problems.length})`}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {problems.length === 0 ? (
+            <div className="flex items-center space-x-2 text-sm text-green-700">
+              <CheckCircle2 className="w-4 h-4" />
+              <span>No problems found</span>
+            </div>
+          ) : (
+            <ul className="space-y-3 text-sm max-h-64 overflow-y-auto">
+              {problems.map((issue, index) => (
+                <li key={`${issue.code}-${index}`} className="flex items-start space-x-2">
+                  {issue.severity === 'error' ? (
+                    <AlertCircle className="w-4 h-4 mt-0.5 shrink-0 text-red-600" />
+                  ) : (
+                    <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-amber-600" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-gray-800">{issue.message}</p>
+                    <div className="flex flex-wrap gap-x-2">
+                      {issue.memberIds.filter((id, i) => issue.memberIds.indexOf(id) === i).map(id => (
+                        <button
+                          key={id}
+                          type="button"
+                          onClick={() => onJumpToMember(id)}
+                          className="text-xs text-blue-600 hover:underline"
+                        >
+                          Show {memberName(id)}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Instructions */}
       <Card className="mb-6 bg-blue-50 border-blue-200">
         <CardHeader className="pb-3">
@@ -140,6 +348,7 @@ export default function SidebarControls({
           <ul className="text-sm text-blue-700 space-y-1">
             <li>• Click three-dot menu on any card for all relationship options (parents, spouses, children)</li>
             <li>• Drag cards to reposition them manually</li>
+            <li>• Shift-click a second card to see how two people are related</li>
             <li>• Mouse wheel to zoom in/out</li>
             <li>• Click and drag canvas to pan</li>
             <li>• Use "Auto Align Layout" to organize automatically</li>
@@ -1,6 +1,7 @@
-import React, { useMemo } from "react";
+import React, { useMemo, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { 
   Calendar, 
   MapPin, 
@@ -12,9 +13,14 @@ import {
   UserCheck,
   School,
   Briefcase,
-  GraduationCap
+  GraduationCap,
+  Pencil,
+  CalendarPlus
 } from "lucide-react";
-import type { FamilyTreeData, FamilyMember, Relationship } from "@shared/schema";
+import type { FamilyTreeData, FamilyMember, FamilyEvent, Relationship } from "@shared/schema";
+import EventEditorModal from "./event-editor-modal";
+import { useTreePermissions } from "@/hooks/use-trees";
+import { compareStoredDates, formatStoredDate } from "@shared/dates";
 
 interface TimelineViewProps {
   familyTree?: FamilyTreeData;
@@ -22,6 +28,8 @@ interface TimelineViewProps {
 
 interface TimelineEvent {
   date: string;
+  // GEDCOM form of an inexact date; `date` is then its sort date
+  dateText?: string | null;
   year: number;
   type: 'birth' | 'death' | 'marriage' | 'divorce' | 'adoption' | 'career' | 'education' | 'relationship' | 'graduation' | 'move' | 'other';
   member: FamilyMember;
@@ -29,9 +37,15 @@ interface TimelineEvent {
   relatedMembers?: FamilyMember[];
   location?: string;
   details?: string;
+  // Set for entries from the events table, which can be edited
+  source?: FamilyEvent;
 }
 
 export default function TimelineView({ familyTree }: TimelineViewProps) {
+  // The event being edited; null adds a new one
+  const [editing, setEditing] = useState<FamilyEvent | null | undefined>(undefined);
+  const { canEdit } = useTreePermissions();
+
   const timelineEvents = useMemo(() => {
     if (!familyTree?.members) return [];
     
@@ -48,13 +62,15 @@ export default function TimelineView({ familyTree }: TimelineViewProps) {
         if (!isNaN(year)) {
           events.push({
             date: event.date?.toString() || '',
+            dateText: event.dateText,
             year,
             type: event.type as TimelineEvent['type'],
             member: involvedMembers[0],
             description: event.description || `Family event: ${event.type}`,
             relatedMembers: involvedMembers.slice(1),
             location: event.place || undefined,
-            details: event.description || undefined
+            details: event.description || undefined,
+            source: event
           });
         }
       }
@@ -65,6 +81,7 @@ export default function TimelineView({ familyTree }: TimelineViewProps) {
       if (member.birthDate) {
         events.push({
           date: member.birthDate.toString(),
+          dateText: member.birthDateText,
           year: parseInt(member.birthDate.toString().split('-')[0]),
           type: 'birth',
           member,
@@ -76,6 +93,7 @@ export default function TimelineView({ familyTree }: TimelineViewProps) {
       if (member.deathDate) {
         events.push({
           date: member.deathDate.toString(),
+          dateText: member.deathDateText,
           year: parseInt(member.deathDate.toString().split('-')[0]),
           type: 'death',
           member,
@@ -90,6 +108,7 @@ export default function TimelineView({ familyTree }: TimelineViewProps) {
         if (educationMatch) {
           events.push({
             date: member.birthDate,
+            dateText: member.birthDateText,
             year: parseInt(member.birthDate.split('-')[0]),
             type: 'education',
             member,
@@ -133,6 +152,7 @@ export default function TimelineView({ familyTree }: TimelineViewProps) {
 
             events.push({
               date: rel.startDate,
+              dateText: rel.startDateText,
               year: startYear,
               type: eventType,
               member: fromMember,
@@ -149,6 +169,7 @@ export default function TimelineView({ familyTree }: TimelineViewProps) {
           if (!isNaN(endYear)) {
             events.push({
               date: rel.endDate,
+              dateText: rel.endDateText,
               year: endYear,
               type: 'divorce',
               member: fromMember,
@@ -163,7 +184,11 @@ export default function TimelineView({ familyTree }: TimelineViewProps) {
     // Sort events by date and then by type priority
     return events.sort((a, b) => {
       if (a.date && b.date) {
-        return a.date.localeCompare(b.date);
+        const byDate = compareStoredDates(
+          { date: a.date, text: a.dateText },
+          { date: b.date, text: b.dateText }
+        );
+        if (byDate) return byDate;
       }
       if (a.year !== b.year) {
         return a.year - b.year;
@@ -244,6 +269,21 @@ export default function TimelineView({ familyTree }: TimelineViewProps) {
     }
   };
   
+  const eventEditor = (
+    <EventEditorModal
+      open={editing !== undefined}
+      onOpenChange={(open) => !open && setEditing(undefined)}
+      event={editing ?? null}
+    />
+  );
+
+  const addEventButton = canEdit && (
+    <Button variant="outline" onClick={() => setEditing(null)} disabled={!familyTree?.members.length}>
+      <CalendarPlus className="h-4 w-4 mr-2" />
+      Add Event
+    </Button>
+  );
+
   if (!timelineEvents.length) {
     return (
       <div className="p-6">
@@ -253,18 +293,23 @@ export default function TimelineView({ familyTree }: TimelineViewProps) {
               <Calendar className="h-12 w-12 mx-auto mb-4 text-gray-300" />
               <p>No timeline events available</p>
               <p className="text-sm mt-2">Add dates to family members and relationships to see timeline events</p>
+              {addEventButton && <div className="mt-4">{addEventButton}</div>}
             </div>
           </CardContent>
         </Card>
+        {eventEditor}
       </div>
     );
   }
   
   return (
     <div className="p-6 max-h-screen overflow-y-auto">
-      <div className="mb-6">
-        <h2 className="text-2xl font-bold text-gray-800 mb-2">Family Timeline</h2>
-        <p className="text-gray-600">Chronological view of family events and milestones</p>
+      <div className="mb-6 flex items-start justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">Family Timeline</h2>
+          <p className="text-gray-600">Chronological view of family events and milestones</p>
+        </div>
+        {addEventButton}
       </div>
       
       <div className="space-y-6">
@@ -279,11 +324,7 @@ export default function TimelineView({ familyTree }: TimelineViewProps) {
               {/* Date badge */}
               <div className="flex-shrink-0">
                 <Badge variant="outline" className="px-3 py-1 font-semibold">
-                  {event.date ? new Date(event.date).toLocaleDateString(undefined, {
-                    year: 'numeric',
-                    month: 'short',
-                    day: 'numeric'
-                  }) : event.year}
+                  {formatStoredDate(event.date, event.dateText) ?? event.year}
                 </Badge>
               </div>
               
@@ -330,6 +371,16 @@ export default function TimelineView({ familyTree }: TimelineViewProps) {
                         )}
                       </div>
                     </div>
+                    {canEdit && event.source && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-label="Edit event"
+                        onClick={() => setEditing(event.source)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -337,6 +388,7 @@ export default function TimelineView({ familyTree }: TimelineViewProps) {
           </div>
         ))}
       </div>
+      {eventEditor}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,156 @@
+import React, { useState } from "react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Check, ChevronDown, FolderTree, Pencil, Plus, Share2, Trash2 } from "lucide-react";
+import { useTrees } from "@/hooks/use-trees";
+import { useToast } from "@/hooks/use-toast";
+import ShareTreeModal from "@/components/share-tree-modal";
+
+type NameDialog = { mode: "create" } | { mode: "rename"; id: number };
+
+// Picks which tree the page shows, and creates, renames, shares and deletes trees
+export default function TreeSwitcher() {
+  const { trees, currentTree, selectTree, createTree, renameTree, deleteTree } = useTrees();
+  const { toast } = useToast();
+  const [dialog, setDialog] = useState<NameDialog | null>(null);
+  const [name, setName] = useState("");
+  const [shareOpen, setShareOpen] = useState(false);
+  const isOwner = currentTree?.role === "owner";
+
+  const showError = (error: Error) =>
+    toast({ title: "Something went wrong", description: error.message, variant: "destructive" });
+
+  const openDialog = (next: NameDialog) => {
+    setName(next.mode === "rename" ? currentTree?.name ?? "" : "");
+    setDialog(next);
+  };
+
+  const handleSelect = (id: number) => {
+    if (id === currentTree?.id) return;
+    selectTree.mutate(id, { onError: showError });
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!dialog || !trimmed) return;
+    if (dialog.mode === "create") {
+      createTree.mutate({ name: trimmed }, {
+        onSuccess: () => setDialog(null),
+        onError: showError
+      });
+    } else {
+      renameTree.mutate({ id: dialog.id, data: { name: trimmed } }, {
+        onSuccess: () => setDialog(null),
+        onError: showError
+      });
+    }
+  };
+
+  const handleDelete = () => {
+    if (!currentTree) return;
+    if (window.confirm(`Delete "${currentTree.name}" and everyone in it? Its photos and documents are deleted too.`)) {
+      deleteTree.mutate(currentTree.id, {
+        onSuccess: () => toast({ title: "Tree deleted", description: `"${currentTree.name}" has been deleted.` }),
+        onError: showError
+      });
+    }
+  };
+
+  const isSaving = createTree.isPending || renameTree.isPending;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="bg-white shadow-lg max-w-[14rem]">
+            <FolderTree className="mr-2 h-4 w-4 shrink-0" />
+            <span className="truncate">{currentTree?.name ?? "Family Tree"}</span>
+            <ChevronDown className="ml-2 h-4 w-4 shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-60">
+          <DropdownMenuLabel>Trees</DropdownMenuLabel>
+          {trees?.map(tree => (
+            <DropdownMenuItem key={tree.id} onClick={() => handleSelect(tree.id)}>
+              <Check className={`mr-2 h-4 w-4 ${tree.id === currentTree?.id ? "" : "invisible"}`} />
+              <span className="truncate">{tree.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => openDialog({ mode: "create" })}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Tree
+          </DropdownMenuItem>
+          {isOwner && (
+            <>
+              <DropdownMenuItem onClick={() => setShareOpen(true)}>
+                <Share2 className="mr-2 h-4 w-4" />
+                Share Tree
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => currentTree && openDialog({ mode: "rename", id: currentTree.id })}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Rename Tree
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                className="text-red-600 focus:text-red-600"
+                disabled={(trees?.length ?? 0) <= 1}
+                onClick={handleDelete}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete Tree
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="sm:max-w-sm">
+          <form onSubmit={handleSave}>
+            <DialogHeader>
+              <DialogTitle>{dialog?.mode === "rename" ? "Rename Tree" : "New Tree"}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="tree-name">Name</Label>
+              <Input
+                id="tree-name"
+                value={name}
+                maxLength={100}
+                placeholder="e.g. Smith Family"
+                onChange={(e) => setName(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialog(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim() || isSaving}>
+                {isSaving ? "Saving..." : dialog?.mode === "rename" ? "Rename" : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ShareTreeModal open={shareOpen} onOpenChange={setShareOpen} tree={currentTree} />
+    </>
+  );
+}
@@ -0,0 +1,46 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Undo2, Redo2 } from "lucide-react";
+import type { ChangeHistory } from "@shared/schema";
+
+interface UndoControlsProps {
+  history?: ChangeHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  isBusy: boolean;
+}
+
+export default function UndoControls({
+  history,
+  onUndo,
+  onRedo,
+  isBusy
+}: UndoControlsProps) {
+  return (
+    <Card className="fixed bottom-5 right-5 z-10 p-2">
+      <div className="flex space-x-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onUndo}
+          disabled={isBusy || !history?.undo}
+          title={history?.undo ? `Undo ${history.undo.description} (Ctrl+Z)` : "Nothing to undo"}
+          className="h-8 w-8 p-0 hover:bg-gray-100 transition-colors"
+        >
+          <Undo2 className="h-4 w-4 text-gray-600" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRedo}
+          disabled={isBusy || !history?.redo}
+          title={history?.redo ? `Redo ${history.redo.description} (Ctrl+Shift+Z)` : "Nothing to redo"}
+          className="h-8 w-8 p-0 hover:bg-gray-100 transition-colors"
+        >
+          <Redo2 className="h-4 w-4 text-gray-600" />
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,59 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { getQueryFn } from "@/lib/queryClient";
+import type { Credentials, User } from "@shared/schema";
+
+async function sendCredentials(url: string, credentials: Credentials, fallback: string): Promise<User> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(credentials),
+    credentials: 'include'
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || fallback);
+  }
+  return response.json();
+}
+
+// The signed-in user, or null; signing in or out swaps everything cached
+export function useAuth() {
+  const queryClient = useQueryClient();
+
+  const { data: user, isLoading } = useQuery<User | null>({
+    queryKey: ['/api/user'],
+    queryFn: getQueryFn({ on401: "returnNull" })
+  });
+
+  const signedIn = (account: User) => {
+    queryClient.removeQueries({ queryKey: ['/api/family-tree'] });
+    queryClient.removeQueries({ queryKey: ['/api/trees'] });
+    queryClient.setQueryData(['/api/user'], account);
+  };
+
+  const login = useMutation({
+    mutationFn: (credentials: Credentials) =>
+      sendCredentials('/api/login', credentials, 'Failed to sign in'),
+    onSuccess: signedIn
+  });
+
+  const register = useMutation({
+    mutationFn: (credentials: Credentials) =>
+      sendCredentials('/api/register', credentials, 'Failed to create account'),
+    onSuccess: signedIn
+  });
+
+  const logout = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/logout', { method: 'POST', credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to sign out');
+    },
+    onSuccess: () => {
+      queryClient.removeQueries({ queryKey: ['/api/family-tree'] });
+      queryClient.removeQueries({ queryKey: ['/api/trees'] });
+      queryClient.setQueryData(['/api/user'], null);
+    }
+  });
+
+  return { user: user ?? null, isLoading, login, register, logout };
+}
@@ -6,24 +6,71 @@ import type {
   InsertRelationship,
   Relationship,
   InsertFamilyEvent,
-  FamilyEvent
+  FamilyEvent,
+  GedcomImportReport,
+  Kinship,
+  DuplicateCandidate,
+  MergeFamilyMembers,
+  Source,
+  InsertSource,
+  Citation,
+  InsertCitation,
+  MediaItem,
+  UpdateMedia,
+  MediaLink,
+  RelationshipRuleViolation,
+  MemberPosition,
+  MemberPositionUpdate,
+  ChangeHistory,
+  AuditEntry,
+  AuditQuery,
+  ChangeProposal,
+  ChangeProposalInput
 } from "@shared/schema";
+import type { ValidationReport } from "@shared/validation";
+import { useShareToken } from "@/lib/share-link";
+import { useCurrentTreeId, useTreeApi, useTreePermissions } from "@/hooks/use-trees";
 
+// Carries the server's rule violation so a form can show it next to the field
+export class RelationshipRuleRejection extends Error {
+  constructor(public violation: RelationshipRuleViolation) {
+    super(violation.message);
+  }
+}
+
+// A copy of the tree with some members moved; positions never change anything else
+function withPositions(tree: FamilyTreeData | undefined, positions: MemberPositionUpdate[]) {
+  if (!tree) return tree;
+  const moved = new Map(positions.map(p => [p.id, p]));
+  return {
+    ...tree,
+    members: tree.members.map(member => {
+      const position = moved.get(member.id);
+      return position ? { ...member, x: position.x, y: position.y } : member;
+    }),
+  };
+}
+
+// Through a share link, only the tree itself can be read
 export function useFamilyTree() {
   const queryClient = useQueryClient();
+  const shareToken = useShareToken();
+  const treeId = useCurrentTreeId();
+  const treeApi = useTreeApi();
 
   const { data, isLoading, error } = useQuery<FamilyTreeData>({
-    queryKey: ['/api/family-tree'],
+    queryKey: shareToken ? ['/api/share', shareToken, 'family-tree'] : ['/api/family-tree', treeId],
     queryFn: async () => {
-      const response = await fetch('/api/family-tree');
+      const response = await fetch(`${treeApi}/family-tree`);
       if (!response.ok) throw new Error('Failed to fetch family tree');
       return response.json();
-    }
+    },
+    enabled: !!shareToken || treeId !== undefined
   });
 
   const createMember = useMutation({
     mutationFn: async (member: InsertFamilyMember): Promise<FamilyMember> => {
-      const response = await fetch('/api/family-members', {
+      const response = await fetch(`/api/trees/${treeId}/family-members`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(member)
@@ -31,12 +78,12 @@ export function useFamilyTree() {
       if (!response.ok) throw new Error('Failed to create family member');
       return response.json();
     },
-    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree'] })
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId] })
   });
 
   const updateMember = useMutation({
     mutationFn: async ({ id, data }: { id: number, data: Partial<InsertFamilyMember> }): Promise<FamilyMember> => {
-      const response = await fetch(`/api/family-members/${id}`, {
+      const response = await fetch(`/api/trees/${treeId}/family-members/${id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(data)
@@ -44,25 +91,50 @@ export function useFamilyTree() {
       if (!response.ok) throw new Error('Failed to update family member');
       return response.json();
     },
-    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree'] })
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId] })
   });
 
-  const updateMemberPosition = useMutation({
-    mutationFn: async ({ id, x, y }: { id: number, x: number, y: number }): Promise<FamilyMember> => {
-      const response = await fetch(`/api/family-members/${id}/position`, {
+  // Cards move in the cache straight away and go back if the save fails
+  const updateMemberPositions = useMutation({
+    mutationFn: async (positions: MemberPositionUpdate[]): Promise<FamilyMember[]> => {
+      const response = await fetch(`/api/trees/${treeId}/family-members/positions`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ x, y })
+        body: JSON.stringify(positions)
       });
-      if (!response.ok) throw new Error('Failed to update position');
+      if (!response.ok) throw new Error('Failed to update positions');
+      return response.json();
+    },
+    onMutate: async (positions) => {
+      await queryClient.cancelQueries({ queryKey: ['/api/family-tree', treeId], exact: true });
+      const previous = queryClient.getQueryData<FamilyTreeData>(['/api/family-tree', treeId]);
+      queryClient.setQueryData(['/api/family-tree', treeId], withPositions(previous, positions));
+      return { previous };
+    },
+    onError: (_error, _positions, context) => {
+      if (context?.previous) queryClient.setQueryData(['/api/family-tree', treeId], context.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId, 'changes'] })
+  });
+
+  // The server works out every position and saves them together
+  const autoLayout = useMutation({
+    mutationFn: async (): Promise<MemberPosition[]> => {
+      const response = await fetch(`/api/trees/${treeId}/layout`, { method: 'POST' });
+      if (!response.ok) throw new Error('Failed to lay out family tree');
       return response.json();
     },
-    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree'] })
+    onSuccess: (positions) => {
+      queryClient.setQueryData<FamilyTreeData>(['/api/family-tree', treeId], (tree) =>
+        withPositions(tree, positions.map(({ memberId, x, y }) => ({ id: memberId, x, y })))
+      );
+      queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId, 'changes'] });
+    }
   });
 
   const createRelationship = useMutation({
     mutationFn: async (relationship: InsertRelationship): Promise<Relationship> => {
-      const response = await fetch('/api/relationships', {
+      const response = await fetch(`/api/trees/${treeId}/relationships`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(relationship)
@@ -70,25 +142,28 @@ export function useFamilyTree() {
       if (!response.ok) throw new Error('Failed to create relationship');
       return response.json();
     },
-    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree'] })
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId] })
   });
 
   const updateRelationship = useMutation({
     mutationFn: async ({ id, data }: { id: number, data: Partial<InsertRelationship> }): Promise<Relationship> => {
-      const response = await fetch(`/api/relationships/${id}`, {
+      const response = await fetch(`/api/trees/${treeId}/relationships/${id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(data)
       });
+      if (response.status === 409 || response.status === 422) {
+        throw new RelationshipRuleRejection(await response.json());
+      }
       if (!response.ok) throw new Error('Failed to update relationship');
       return response.json();
     },
-    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree'] })
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId] })
   });
 
   const createEvent = useMutation({
     mutationFn: async (event: InsertFamilyEvent): Promise<FamilyEvent> => {
-      const response = await fetch('/api/events', {
+      const response = await fetch(`/api/trees/${treeId}/events`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(event)
@@ -96,37 +171,95 @@ export function useFamilyTree() {
       if (!response.ok) throw new Error('Failed to create event');
       return response.json();
     },
-    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree'] })
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId] })
+  });
+
+  const updateEvent = useMutation({
+    mutationFn: async ({ id, data }: { id: number, data: Partial<InsertFamilyEvent> }): Promise<FamilyEvent> => {
+      const response = await fetch(`/api/trees/${treeId}/events/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+      });
+      if (!response.ok) throw new Error('Failed to update event');
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId] })
   });
 
   const deleteMember = useMutation({
     mutationFn: async (id: number): Promise<void> => {
-      const response = await fetch(`/api/family-members/${id}`, {
+      const response = await fetch(`/api/trees/${treeId}/family-members/${id}`, {
         method: 'DELETE'
       });
       if (!response.ok) throw new Error('Failed to delete member');
     },
-    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree'] })
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId] })
   });
 
   const deleteRelationship = useMutation({
     mutationFn: async (id: number): Promise<void> => {
-      const response = await fetch(`/api/relationships/${id}`, {
+      const response = await fetch(`/api/trees/${treeId}/relationships/${id}`, {
         method: 'DELETE'
       });
       if (!response.ok) throw new Error('Failed to delete relationship');
     },
-    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree'] })
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId] })
   });
 
   const deleteEvent = useMutation({
     mutationFn: async (id: number): Promise<void> => {
-      const response = await fetch(`/api/events/${id}`, {
+      const response = await fetch(`/api/trees/${treeId}/events/${id}`, {
         method: 'DELETE'
       });
       if (!response.ok) throw new Error('Failed to delete event');
     },
-    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree'] })
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId] })
+  });
+
+  const importGedcom = useMutation({
+    mutationFn: async (file: File): Promise<GedcomImportReport> => {
+      const response = await fetch(`/api/trees/${treeId}/import/gedcom`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain' },
+        body: await file.text()
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || 'Failed to import GEDCOM file');
+      }
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId] })
+  });
+
+  const restoreBackup = useMutation({
+    mutationFn: async (file: File): Promise<FamilyTreeData> => {
+      const response = await fetch(`/api/trees/${treeId}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: await file.text()
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || 'Failed to restore backup');
+      }
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId] })
+  });
+
+  const mergeMembers = useMutation({
+    mutationFn: async (merge: MergeFamilyMembers): Promise<FamilyMember> => {
+      const response = await fetch(`/api/trees/${treeId}/family-members/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(merge)
+      });
+      if (!response.ok) throw new Error('Failed to merge family members');
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId] })
   });
 
   return {
@@ -135,12 +268,349 @@ export function useFamilyTree() {
     error,
     createMember,
     updateMember,
-    updateMemberPosition,
+    updateMemberPositions,
+    autoLayout,
     createRelationship,
     updateRelationship,
     createEvent,
+    updateEvent,
     deleteMember,
     deleteRelationship,
-    deleteEvent
+    deleteEvent,
+    importGedcom,
+    restoreBackup,
+    mergeMembers
+  };
+}
+
+// Keyed under the tree so any change to members or relationships refetches it
+export function useKinship(fromMemberId: number | null, toMemberId: number | null) {
+  const treeId = useCurrentTreeId();
+  return useQuery<Kinship>({
+    queryKey: ['/api/family-tree', treeId, 'relationship', fromMemberId, toMemberId],
+    queryFn: async () => {
+      const response = await fetch(`/api/trees/${treeId}/members/${fromMemberId}/relationship-to/${toMemberId}`);
+      if (!response.ok) throw new Error('Failed to calculate relationship');
+      return response.json();
+    },
+    enabled: treeId !== undefined && fromMemberId !== null && toMemberId !== null
+  });
+}
+
+export function useValidation() {
+  const treeId = useCurrentTreeId();
+  return useQuery<ValidationReport>({
+    queryKey: ['/api/family-tree', treeId, 'validation'],
+    queryFn: async () => {
+      const response = await fetch(`/api/trees/${treeId}/validation`);
+      if (!response.ok) throw new Error('Failed to validate family tree');
+      return response.json();
+    },
+    enabled: treeId !== undefined
+  });
+}
+
+// Undo and redo replay the server's change log, so the whole tree refetches
+export function useChangeHistory() {
+  const queryClient = useQueryClient();
+  const treeId = useCurrentTreeId();
+  const { canEdit } = useTreePermissions();
+
+  const { data } = useQuery<ChangeHistory>({
+    queryKey: ['/api/family-tree', treeId, 'changes'],
+    queryFn: async () => {
+      const response = await fetch(`/api/trees/${treeId}/changes`);
+      if (!response.ok) throw new Error('Failed to fetch change history');
+      return response.json();
+    },
+    enabled: canEdit && treeId !== undefined
+  });
+
+  const replay = (action: 'undo' | 'redo') => async (): Promise<{ description: string }> => {
+    const response = await fetch(`/api/trees/${treeId}/changes/${action}`, { method: 'POST' });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.message || `Failed to ${action} change`);
+    }
+    return response.json();
   };
+
+  const undo = useMutation({
+    mutationFn: replay('undo'),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId] })
+  });
+
+  const redo = useMutation({
+    mutationFn: replay('redo'),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId] })
+  });
+
+  return { data, undo, redo };
+}
+
+// Keyed under the tree so every edit refreshes the history
+export function useAuditLog(filter: Partial<AuditQuery> | null) {
+  const treeId = useCurrentTreeId();
+  return useQuery<AuditEntry[]>({
+    queryKey: ['/api/family-tree', treeId, 'audit', filter],
+    queryFn: async () => {
+      const params = new URLSearchParams(
+        Object.entries(filter ?? {}).map(([key, value]) => [
+          key,
+          value instanceof Date ? value.toISOString() : String(value),
+        ])
+      );
+      const response = await fetch(`/api/trees/${treeId}/audit?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch change history');
+      return response.json();
+    },
+    enabled: treeId !== undefined && filter !== null
+  });
+}
+
+// Contributors propose changes; editors and owners approve or reject the pending ones
+export function useProposals(enabled: boolean) {
+  const queryClient = useQueryClient();
+  const treeId = useCurrentTreeId();
+
+  const { data: pending } = useQuery<ChangeProposal[]>({
+    queryKey: ['/api/family-tree', treeId, 'proposals'],
+    queryFn: async () => {
+      const response = await fetch(`/api/trees/${treeId}/proposals?status=pending`);
+      if (!response.ok) throw new Error('Failed to fetch proposals');
+      return response.json();
+    },
+    enabled: enabled && treeId !== undefined
+  });
+
+  const propose = useMutation({
+    mutationFn: async (proposal: ChangeProposalInput): Promise<ChangeProposal> => {
+      const response = await fetch(`/api/trees/${treeId}/proposals`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(proposal)
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || 'Failed to send proposal');
+      }
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId, 'proposals'] })
+  });
+
+  const review = useMutation({
+    mutationFn: async ({ id, approve }: { id: number; approve: boolean }): Promise<ChangeProposal> => {
+      const response = await fetch(`/api/trees/${treeId}/proposals/${id}/${approve ? 'approve' : 'reject'}`, { method: 'POST' });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || 'Failed to review proposal');
+      }
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId] })
+  });
+
+  return { pending, propose, review };
+}
+
+export function useDuplicates(enabled: boolean) {
+  const treeId = useCurrentTreeId();
+  return useQuery<DuplicateCandidate[]>({
+    queryKey: ['/api/family-tree', treeId, 'duplicates'],
+    queryFn: async () => {
+      const response = await fetch(`/api/trees/${treeId}/duplicates`);
+      if (!response.ok) throw new Error('Failed to find duplicates');
+      return response.json();
+    },
+    enabled: enabled && treeId !== undefined
+  });
+}
+
+// A citation belongs to exactly one member, relationship or event
+export type CitationTarget =
+  | { memberId: number }
+  | { relationshipId: number }
+  | { eventId: number };
+
+export function useCitations(target: CitationTarget | null) {
+  const treeId = useCurrentTreeId();
+  return useQuery<Citation[]>({
+    queryKey: ['/api/family-tree', treeId, 'citations', target],
+    queryFn: async () => {
+      const params = new URLSearchParams(
+        Object.entries(target ?? {}).map(([key, id]) => [key, String(id)])
+      );
+      const response = await fetch(`/api/trees/${treeId}/citations?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch citations');
+      return response.json();
+    },
+    enabled: treeId !== undefined && target !== null
+  });
+}
+
+export function useSources() {
+  const queryClient = useQueryClient();
+  const treeId = useCurrentTreeId();
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId] });
+
+  const { data, isLoading } = useQuery<Source[]>({
+    queryKey: ['/api/family-tree', treeId, 'sources'],
+    queryFn: async () => {
+      const response = await fetch(`/api/trees/${treeId}/sources`);
+      if (!response.ok) throw new Error('Failed to fetch sources');
+      return response.json();
+    },
+    enabled: treeId !== undefined
+  });
+
+  const createSource = useMutation({
+    mutationFn: async (source: InsertSource): Promise<Source> => {
+      const response = await fetch(`/api/trees/${treeId}/sources`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(source)
+      });
+      if (!response.ok) throw new Error('Failed to create source');
+      return response.json();
+    },
+    onSuccess: invalidate
+  });
+
+  const createCitation = useMutation({
+    mutationFn: async (citation: InsertCitation): Promise<Citation> => {
+      const response = await fetch(`/api/trees/${treeId}/citations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(citation)
+      });
+      if (!response.ok) throw new Error('Failed to add citation');
+      return response.json();
+    },
+    onSuccess: invalidate
+  });
+
+  const deleteCitation = useMutation({
+    mutationFn: async (id: number): Promise<void> => {
+      const response = await fetch(`/api/trees/${treeId}/citations/${id}`, {
+        method: 'DELETE'
+      });
+      if (!response.ok) throw new Error('Failed to delete citation');
+    },
+    onSuccess: invalidate
+  });
+
+  return {
+    data,
+    isLoading,
+    createSource,
+    createCitation,
+    deleteCitation
+  };
+}
+
+// Media shown for one member or event
+export type MediaTarget = { memberId: number } | { eventId: number };
+
+export function useMedia(target: MediaTarget | null) {
+  const queryClient = useQueryClient();
+  const treeId = useCurrentTreeId();
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['/api/family-tree', treeId] });
+
+  const { data, isLoading } = useQuery<MediaItem[]>({
+    queryKey: ['/api/family-tree', treeId, 'media', target],
+    queryFn: async () => {
+      const params = new URLSearchParams(
+        Object.entries(target ?? {}).map(([key, id]) => [key, String(id)])
+      );
+      const response = await fetch(`/api/trees/${treeId}/media?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch media');
+      return response.json();
+    },
+    enabled: treeId !== undefined && target !== null
+  });
+
+  const uploadMedia = useMutation({
+    mutationFn: async ({ file, caption, dateText }: {
+      file: File;
+      caption?: string;
+      dateText?: string;
+    }): Promise<MediaItem> => {
+      const form = new FormData();
+      form.append('file', file);
+      if (caption) form.append('caption', caption);
+      if (dateText) form.append('dateText', dateText);
+      for (const [key, id] of Object.entries(target ?? {})) {
+        form.append(key, String(id));
+      }
+      const response = await fetch(`/api/trees/${treeId}/media`, { method: 'POST', body: form });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || 'Failed to upload file');
+      }
+      return response.json();
+    },
+    onSuccess: invalidate
+  });
+
+  const updateMedia = useMutation({
+    mutationFn: async ({ id, ...update }: UpdateMedia & { id: number }): Promise<MediaItem> => {
+      const response = await fetch(`/api/trees/${treeId}/media/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update)
+      });
+      if (!response.ok) throw new Error('Failed to update media');
+      return response.json();
+    },
+    onSuccess: invalidate
+  });
+
+  const linkMedia = useMutation({
+    mutationFn: async ({ id, ...link }: MediaLink & { id: number }): Promise<MediaItem> => {
+      const response = await fetch(`/api/trees/${treeId}/media/${id}/links`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(link)
+      });
+      if (!response.ok) throw new Error('Failed to link media');
+      return response.json();
+    },
+    onSuccess: invalidate
+  });
+
+  const deleteMedia = useMutation({
+    mutationFn: async (id: number): Promise<void> => {
+      const response = await fetch(`/api/trees/${treeId}/media/${id}`, {
+        method: 'DELETE'
+      });
+      if (!response.ok) throw new Error('Failed to delete media');
+    },
+    onSuccess: invalidate
+  });
+
+  return {
+    data,
+    isLoading,
+    uploadMedia,
+    updateMedia,
+    linkMedia,
+    deleteMedia
+  };
+}
+
+// Media id of each member's primary photo, for the cards on the canvas
+export function usePrimaryPhotos() {
+  const shareToken = useShareToken();
+  const treeId = useCurrentTreeId();
+  const treeApi = useTreeApi();
+  return useQuery<Record<number, number>>({
+    queryKey: shareToken ? ['/api/share', shareToken, 'media', 'primary'] : ['/api/family-tree', treeId, 'media', 'primary'],
+    queryFn: async () => {
+      const response = await fetch(`${treeApi}/media/primary`);
+      if (!response.ok) throw new Error('Failed to fetch primary photos');
+      return response.json();
+    },
+    enabled: !!shareToken || treeId !== undefined
+  });
 }
@@ -0,0 +1,214 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { hasTreeRole } from "@shared/schema";
+import type { TreeWithRole, InsertTree, TreeMember, TreeRole, ShareLink, CreateShareLink, SharedTree } from "@shared/schema";
+import { useShareToken } from "@/lib/share-link";
+
+async function send<T>(url: string, method: string, body: unknown, fallback: string): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.message || fallback);
+  }
+  return response.json();
+}
+
+// The tree the page shows; visitors through a share link have none
+function useCurrentTree() {
+  const signedIn = !useShareToken();
+  return useQuery<TreeWithRole>({
+    queryKey: ['/api/trees', 'current'],
+    queryFn: async () => {
+      const response = await fetch('/api/trees/current');
+      if (!response.ok) throw new Error('Failed to fetch tree');
+      return response.json();
+    },
+    enabled: signedIn
+  });
+}
+
+// Id of the open tree once it has loaded. Its data is read from /api/trees/:treeId
+// and cached under ['/api/family-tree', treeId], so switching trees never shows stale data.
+export function useCurrentTreeId(): number | undefined {
+  return useCurrentTree().data?.id;
+}
+
+// Where the tree is read from: a share link's read-only routes, or the signed-in user's open tree
+export function useTreeApi(): string {
+  const token = useShareToken();
+  const treeId = useCurrentTreeId();
+  return token ? `/api/share/${token}` : `/api/trees/${treeId}`;
+}
+
+// Every tree, and the one the page shows; switching refetches everything in the tree.
+// Visitors through a share link have neither.
+export function useTrees() {
+  const queryClient = useQueryClient();
+  const signedIn = !useShareToken();
+
+  const { data: trees } = useQuery<TreeWithRole[]>({
+    queryKey: ['/api/trees'],
+    queryFn: async () => {
+      const response = await fetch('/api/trees');
+      if (!response.ok) throw new Error('Failed to fetch trees');
+      return response.json();
+    },
+    enabled: signedIn
+  });
+
+  const { data: currentTree } = useCurrentTree();
+
+  const showTree = (tree: TreeWithRole) => {
+    queryClient.setQueryData(['/api/trees', 'current'], tree);
+    queryClient.resetQueries({ queryKey: ['/api/family-tree'] });
+  };
+
+  const selectTree = useMutation({
+    mutationFn: (id: number) => send<TreeWithRole>(`/api/trees/${id}/select`, 'POST', undefined, 'Failed to open tree'),
+    onSuccess: showTree
+  });
+
+  // A new tree opens straight away
+  const createTree = useMutation({
+    mutationFn: async (tree: InsertTree) => {
+      const created = await send<TreeWithRole>('/api/trees', 'POST', tree, 'Failed to create tree');
+      return send<TreeWithRole>(`/api/trees/${created.id}/select`, 'POST', undefined, 'Failed to open tree');
+    },
+    onSuccess: (tree) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/trees'], exact: true });
+      showTree(tree);
+    }
+  });
+
+  const renameTree = useMutation({
+    mutationFn: ({ id, data }: { id: number; data: Partial<InsertTree> }) =>
+      send<TreeWithRole>(`/api/trees/${id}`, 'PATCH', data, 'Failed to rename tree'),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/trees'] })
+  });
+
+  // Deleting the open tree falls back to the oldest one left
+  const deleteTree = useMutation({
+    mutationFn: async (id: number): Promise<void> => {
+      const response = await fetch(`/api/trees/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message || 'Failed to delete tree');
+      }
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['/api/trees'] });
+      queryClient.resetQueries({ queryKey: ['/api/family-tree'] });
+    }
+  });
+
+  return { trees, currentTree, selectTree, createTree, renameTree, deleteTree };
+}
+
+// What the signed-in user may do in the open tree; the server enforces the same rules
+export function useTreePermissions() {
+  const { currentTree } = useTrees();
+  const role = currentTree?.role;
+  return {
+    role,
+    canPropose: hasTreeRole(role, 'contributor'),
+    canEdit: hasTreeRole(role, 'editor'),
+    isOwner: hasTreeRole(role, 'owner'),
+  };
+}
+
+// Who the open tree is shared with; only owners can change it
+export function useTreeSharing(treeId: number | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = ['/api/trees', treeId, 'sharing'];
+  const refresh = () => queryClient.invalidateQueries({ queryKey });
+
+  const { data: members } = useQuery<TreeMember[]>({
+    queryKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/trees/${treeId}/sharing`);
+      if (!response.ok) throw new Error('Failed to fetch tree members');
+      return response.json();
+    },
+    enabled: treeId !== undefined
+  });
+
+  const share = useMutation({
+    mutationFn: (invite: { username: string; role: TreeRole }) =>
+      send<TreeMember>(`/api/trees/${treeId}/sharing`, 'POST', invite, 'Failed to share tree'),
+    onSuccess: refresh
+  });
+
+  const changeRole = useMutation({
+    mutationFn: ({ userId, role }: { userId: number; role: TreeRole }) =>
+      send<TreeMember>(`/api/trees/${treeId}/sharing/${userId}`, 'PATCH', { role }, 'Failed to change role'),
+    onSuccess: refresh
+  });
+
+  const remove = useMutation({
+    mutationFn: (userId: number) =>
+      send<unknown>(`/api/trees/${treeId}/sharing/${userId}`, 'DELETE', undefined, 'Failed to remove person'),
+    onSuccess: refresh
+  });
+
+  return { members, share, changeRole, remove };
+}
+
+// Read-only links to the open tree for people without an account; only owners see them
+export function useShareLinks(treeId: number | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = ['/api/trees', treeId, 'share-links'];
+  const refresh = () => queryClient.invalidateQueries({ queryKey });
+
+  const { data: links } = useQuery<ShareLink[]>({
+    queryKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/trees/${treeId}/share-links`);
+      if (!response.ok) throw new Error('Failed to fetch share links');
+      return response.json();
+    },
+    enabled: treeId !== undefined
+  });
+
+  const create = useMutation({
+    mutationFn: (link: CreateShareLink) =>
+      send<ShareLink>(`/api/trees/${treeId}/share-links`, 'POST', link, 'Failed to create share link'),
+    onSuccess: refresh
+  });
+
+  const revoke = useMutation({
+    mutationFn: (id: number) =>
+      send<unknown>(`/api/trees/${treeId}/share-links/${id}`, 'DELETE', undefined, 'Failed to revoke share link'),
+    onSuccess: refresh
+  });
+
+  return { links, create, revoke };
+}
+
+// What a share link opens, for its visitor; unlocking a password-protected link lasts the session
+export function useSharedTree(token: string) {
+  const queryClient = useQueryClient();
+
+  const { data: sharedTree, isLoading, error } = useQuery<SharedTree>({
+    queryKey: ['/api/share', token],
+    queryFn: async () => {
+      const response = await fetch(`/api/share/${token}`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || 'Failed to open share link');
+      }
+      return response.json();
+    },
+    retry: false
+  });
+
+  const unlock = useMutation({
+    mutationFn: (password: string) =>
+      send<unknown>(`/api/share/${token}/unlock`, 'POST', { password }, 'Failed to unlock share link'),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/share', token] })
+  });
+
+  return { sharedTree, isLoading, error, unlock };
+}
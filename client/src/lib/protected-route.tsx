@@ -0,0 +1,27 @@
+import React from "react";
+import { Route, Redirect } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+
+interface ProtectedRouteProps {
+  path: string;
+  component: React.ComponentType;
+}
+
+// Sends anyone who is not signed in to the login page
+export function ProtectedRoute({ path, component: Component }: ProtectedRouteProps) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="min-h-screen flex items-center justify-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+        </div>
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to="/auth" />
+      )}
+    </Route>
+  );
+}
@@ -0,0 +1,8 @@
+import { createContext, useContext } from "react";
+
+// The token of the share link the page was opened through, or null when signed in
+export const ShareLinkContext = createContext<string | null>(null);
+
+export function useShareToken(): string | null {
+  return useContext(ShareLinkContext);
+}
@@ -0,0 +1,121 @@
+import React, { useState } from "react";
+import { Redirect } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { credentialsSchema, type Credentials } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { TreePine } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+type Mode = "login" | "register";
+
+// Signing in only needs something in each box; the rules are for new accounts
+const loginSchema = z.object({
+  username: z.string().trim().min(1, "Enter your username"),
+  password: z.string().min(1, "Enter your password"),
+});
+
+export default function AuthPage() {
+  const { user, login, register } = useAuth();
+  const [mode, setMode] = useState<Mode>("login");
+  const [error, setError] = useState<string | null>(null);
+
+  const form = useForm<Credentials>({
+    resolver: zodResolver(mode === "login" ? loginSchema : credentialsSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const action = mode === "login" ? login : register;
+  const onSubmit = (credentials: Credentials) => {
+    setError(null);
+    action.mutate(credentials, { onError: (err) => setError(err.message) });
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-slate-50 font-inter">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader className="text-center">
+          <TreePine className="h-10 w-10 mx-auto text-green-600" />
+          <CardTitle className="text-2xl">Family Tree Builder</CardTitle>
+          <CardDescription>
+            {mode === "login" ? "Sign in to see your family tree" : "Create an account to start your tree"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <Tabs
+            value={mode}
+            onValueChange={(value) => {
+              setMode(value as Mode);
+              setError(null);
+              form.clearErrors();
+            }}
+          >
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="login">Sign In</TabsTrigger>
+              <TabsTrigger value="register">Create Account</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="username" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="password"
+                        autoComplete={mode === "login" ? "current-password" : "new-password"}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+
+              <Button type="submit" className="w-full" disabled={action.isPending}>
+                {mode === "login"
+                  ? (action.isPending ? "Signing in..." : "Sign In")
+                  : (action.isPending ? "Creating account..." : "Create Account")}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
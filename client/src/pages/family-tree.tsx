@@ -1,30 +1,57 @@
 import React, { useState, useEffect } from "react";
-import { useFamilyTree } from "@/hooks/use-family-tree";
-import { useQueryClient } from "@tanstack/react-query";
+import { useFamilyTree, useKinship, useValidation, useChangeHistory, useProposals } from "@/hooks/use-family-tree";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useTrees, useTreePermissions } from "@/hooks/use-trees";
 import FamilyTreeCanvas from "@/components/family-tree-canvas";
 import TimelineView from "@/components/timeline-view";
+import PedigreeChart from "@/components/pedigree-chart";
+import DescendantChart from "@/components/descendant-chart";
+import FanChart from "@/components/fan-chart";
+import HourglassChart from "@/components/hourglass-chart";
 import SidebarControls from "@/components/sidebar-controls";
 import ZoomControls from "@/components/zoom-controls";
+import UndoControls from "@/components/undo-controls";
+import ProposalsModal from "@/components/proposals-modal";
+import TreeSwitcher from "@/components/tree-switcher";
 import AddMemberModal from "@/components/add-member-modal";
 import ConnectMembersModal from "@/components/connect-members-modal";
+import ImportReportModal from "@/components/import-report-modal";
+import RelationshipPanel from "@/components/relationship-panel";
+import DuplicatesModal from "@/components/duplicates-modal";
+import MergeMembersModal from "@/components/merge-members-modal";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Menu, TreePine, Clock } from "lucide-react";
+import { Menu, TreePine, Clock, GitFork, Network, PieChart, Hourglass } from "lucide-react";
+import type { DuplicateCandidate, FamilyMember, GedcomImportReport } from "@shared/schema";
+
+type View = "tree" | "timeline" | "pedigree" | "descendants" | "fan" | "hourglass";
 
 export default function FamilyTree() {
-  const { data: familyTree, isLoading } = useFamilyTree();
-  const queryClient = useQueryClient();
+  const { data: familyTree, isLoading, autoLayout, importGedcom, restoreBackup } = useFamilyTree();
+  const { toast } = useToast();
+  const { user, logout } = useAuth();
+  const { currentTree } = useTrees();
+  const { canEdit } = useTreePermissions();
   const [selectedMemberId, setSelectedMemberId] = useState<number | null>(null);
+  const [compareMemberId, setCompareMemberId] = useState<number | null>(null);
   const [modalOpen, setModalOpen] = useState(false);
   const [connectModalOpen, setConnectModalOpen] = useState(false);
   const [memberType, setMemberType] = useState<string>("");
   const [relatedMemberId, setRelatedMemberId] = useState<number | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(false);
-  const [activeView, setActiveView] = useState<"tree" | "timeline">("tree");
+  const [activeView, setActiveView] = useState<View>("tree");
   const [scale, setScale] = useState(1);
   const [panX, setPanX] = useState(0);
   const [panY, setPanY] = useState(0);
-  const [isAutoAligning, setIsAutoAligning] = useState(false);
+  const [importReport, setImportReport] = useState<GedcomImportReport | null>(null);
+  const { data: kinship, isLoading: isKinshipLoading } = useKinship(selectedMemberId, compareMemberId);
+  const { data: validation } = useValidation();
+  const [duplicatesOpen, setDuplicatesOpen] = useState(false);
+  const [mergePair, setMergePair] = useState<[FamilyMember, FamilyMember] | null>(null);
+  const { data: changeHistory, undo, redo } = useChangeHistory();
+  const { pending: pendingProposals } = useProposals(canEdit);
+  const [proposalsOpen, setProposalsOpen] = useState(false);
 
   useEffect(() => {
     const handleResize = () => {
@@ -37,126 +64,98 @@ export default function FamilyTree() {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
+  // A different tree starts with nothing selected and the view reset
+  useEffect(() => {
+    setSelectedMemberId(null);
+    setCompareMemberId(null);
+    setMergePair(null);
+    setScale(1);
+    setPanX(0);
+    setPanY(0);
+  }, [currentTree?.id]);
+
+  const handleReplay = (action: typeof undo, verb: string) => {
+    if (action.isPending) return;
+    action.mutate(undefined, {
+      onSuccess: ({ description }) => {
+        toast({ title: `${verb}: ${description}` });
+      },
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    });
+  };
+  const handleUndo = () => handleReplay(undo, "Undid");
+  const handleRedo = () => handleReplay(redo, "Redid");
+
+  // Ctrl+Z undoes and Ctrl+Shift+Z or Ctrl+Y redoes, except while typing
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!canEdit || !(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        if (changeHistory?.undo) handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        if (changeHistory?.redo) handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handleMemberSelect = (id: number | null, additive = false) => {
+    if (additive && id !== null && selectedMemberId !== null && id !== selectedMemberId) {
+      setCompareMemberId(id);
+      return;
+    }
+    setSelectedMemberId(id);
+    setCompareMemberId(null);
+  };
+
+  const handleJumpToMember = (id: number) => {
+    const member = familyTree?.members.find(m => m.id === id);
+    if (!member) return;
+    setActiveView("tree");
+    setSelectedMemberId(id);
+    setCompareMemberId(null);
+    setSidebarOpen(false);
+    // Same centering as auto-align: the card's centre in the middle of the canvas
+    const viewportWidth = window.innerWidth >= 768 ? window.innerWidth - 320 : window.innerWidth;
+    setPanX(-(member.x + 128) + viewportWidth / 2);
+    setPanY(-(member.y + 64) + window.innerHeight / 2);
+    setScale(1);
+  };
+
+  const handleReviewDuplicate = (candidate: DuplicateCandidate) => {
+    const [left, right] = candidate.memberIds.map(id => familyTree?.members.find(m => m.id === id));
+    if (!left || !right) return;
+    setDuplicatesOpen(false);
+    setMergePair([left, right]);
+  };
+
   const handleAddMember = (type: string, relatedId?: number) => {
     setMemberType(type);
     setRelatedMemberId(relatedId || null);
     setModalOpen(true);
   };
 
-  const handleAutoAlign = async () => {
-    if (!familyTree?.members) return;
-    setIsAutoAligning(true);
-    try {
-      const members = [...familyTree.members];
-      const relationships = familyTree.relationships;
-      // Build maps for quick lookup
-      const memberMap = new Map(members.map(m => [m.id, m]));
-      const childrenMap: Record<number, number[]> = {};
-      const parentsMap: Record<number, number[]> = {};
-      const spousesMap: Record<number, number[]> = {};
-      members.forEach(m => {
-        childrenMap[m.id] = [];
-        parentsMap[m.id] = [];
-        spousesMap[m.id] = [];
-      });
-      relationships.forEach(rel => {
-        if (rel.type === 'parent-child') {
-          childrenMap[rel.fromMemberId].push(rel.toMemberId);
-          parentsMap[rel.toMemberId].push(rel.fromMemberId);
-        } else if (rel.type === 'spouse') {
-          spousesMap[rel.fromMemberId].push(rel.toMemberId);
-          spousesMap[rel.toMemberId].push(rel.fromMemberId);
-        }
-      });
-      // Find root members (no parents)
-      const roots = members.filter(m => parentsMap[m.id].length === 0);
-      // Track positions
-      const memberPositions: Record<number, { x: number, y: number }> = {};
-      // Layout constants
-      const CARD_WIDTH = 256;
-      const CARD_HEIGHT = 128;
-      const X_SPACING = 40;
-      const Y_SPACING = 80;
-      // Recursive layout
-      let nextX = 0;
-      function layoutUnit(parents: number[], depth: number): number {
-        // Find all children for this parent group (intersection of all parents' children)
-        let children: number[] = [];
-        if (parents.length === 1) {
-          children = childrenMap[parents[0]];
-        } else if (parents.length > 1) {
-          // Children who have all these parents
-          const sets = parents.map(pid => new Set(childrenMap[pid]));
-          children = Array.from(new Set(parents.flatMap(pid => childrenMap[pid]))).filter(cid =>
-            parents.every(pid => childrenMap[pid].includes(cid))
-          );
-        }
-        // Layout children recursively
-        let childXs: number[] = [];
-        children.forEach(childId => {
-          const childX = layoutUnit(getSpouseGroup(childId), depth + 1);
-          childXs.push(childX);
-        });
-        // Position parents
-        let unitWidth = parents.length * CARD_WIDTH + (parents.length - 1) * X_SPACING;
-        let x: number;
-        if (childXs.length > 0) {
-          // Center parents above their children
-          const minChildX = Math.min(...childXs);
-          const maxChildX = Math.max(...childXs);
-          x = (minChildX + maxChildX - unitWidth) / 2 + CARD_WIDTH / 2;
-        } else {
-          x = nextX;
-        }
-        parents.forEach((pid, i) => {
-          memberPositions[pid] = {
-            x: x + i * (CARD_WIDTH + X_SPACING),
-            y: depth * (CARD_HEIGHT + Y_SPACING),
-          };
-        });
-        // Update nextX for siblings
-        if (childXs.length > 0) {
-          nextX = Math.max(nextX, Math.max(...childXs) + CARD_WIDTH + X_SPACING);
-        } else {
-          nextX = x + unitWidth + X_SPACING;
-        }
-        // Return center x of this unit
-        return parents.length === 1
-          ? memberPositions[parents[0]].x
-          : (memberPositions[parents[0]].x + memberPositions[parents[parents.length - 1]].x) / 2;
-      }
-      // Helper: get all spouses in a group (sorted by id for determinism)
-      function getSpouseGroup(memberId: number): number[] {
-        const group = new Set<number>();
-        function dfs(id: number) {
-          if (group.has(id)) return;
-          group.add(id);
-          spousesMap[id].forEach(dfs);
-        }
-        dfs(memberId);
-        return Array.from(group).sort((a, b) => a - b);
-      }
-      // Layout all root units
-      let rootXs: number[] = [];
-      roots.forEach(root => {
-        const group = getSpouseGroup(root);
-        if (group.some(id => id in memberPositions)) return; // already placed
-        const x = layoutUnit(group, 0);
-        rootXs.push(x);
-      });
-      // Update positions in database
-      const promises = Object.entries(memberPositions).map(([memberId, position]) =>
-        fetch(`/api/family-members/${memberId}/position`, {
-          method: 'PATCH',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ x: position.x, y: position.y })
-        })
-      );
-      await Promise.all(promises);
-      // Center the view
-      const allX = Object.values(memberPositions).map(pos => pos.x);
-      const allY = Object.values(memberPositions).map(pos => pos.y);
-      if (allX.length > 0 && allY.length > 0) {
+  const handleAutoAlign = () => {
+    autoLayout.mutate(undefined, {
+      onSuccess: (positions) => {
+        if (!positions.length) return;
+        // Centre the view on the laid out tree
+        const allX = positions.map(pos => pos.x);
+        const allY = positions.map(pos => pos.y);
         const centerX = (Math.min(...allX) + Math.max(...allX)) / 2;
         const centerY = (Math.min(...allY) + Math.max(...allY)) / 2;
         const viewportWidth = window.innerWidth - 320;
@@ -164,13 +163,49 @@ export default function FamilyTree() {
         setPanX(-centerX + viewportWidth / 2);
         setPanY(-centerY + viewportHeight / 2);
         setScale(1);
+      },
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        });
       }
-      queryClient.invalidateQueries({ queryKey: ['/api/family-tree'] });
-    } catch (error) {
-      console.error('Auto-align failed:', error);
-    } finally {
-      setIsAutoAligning(false);
+    });
+  };
+
+  const handleImportGedcom = (file: File) => {
+    importGedcom.mutate(file, {
+      onSuccess: (report) => setImportReport(report),
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    });
+  };
+
+  const handleRestoreBackup = (file: File) => {
+    if (!window.confirm(`Replace the current family tree with the contents of ${file.name}? This also clears the undo history.`)) {
+      return;
     }
+    restoreBackup.mutate(file, {
+      onSuccess: (tree) => {
+        toast({
+          title: "Backup restored",
+          description: `Restored ${tree.members.length} members, ${tree.relationships.length} relationships and ${tree.events.length} events.`,
+        });
+      },
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    });
   };
 
   const handleZoom = (factor: number) => {
@@ -203,9 +238,10 @@ export default function FamilyTree() {
         <Menu className="h-4 w-4" />
       </Button>
 
-      {/* View Toggle */}
-      <div className="fixed top-4 right-4 z-50">
-        <Tabs value={activeView} onValueChange={(value) => setActiveView(value as "tree" | "timeline")}>
+      {/* Tree Switcher and View Toggle */}
+      <div className="fixed top-4 right-4 z-50 flex items-center gap-2">
+        <TreeSwitcher />
+        <Tabs value={activeView} onValueChange={(value) => setActiveView(value as View)}>
           <TabsList className="bg-white shadow-lg">
             <TabsTrigger value="tree" className="flex items-center space-x-2">
               <TreePine className="h-4 w-4" />
@@ -215,6 +251,22 @@ export default function FamilyTree() {
               <Clock className="h-4 w-4" />
               <span>Timeline</span>
             </TabsTrigger>
+            <TabsTrigger value="pedigree" className="flex items-center space-x-2">
+              <GitFork className="h-4 w-4 rotate-90" />
+              <span>Pedigree</span>
+            </TabsTrigger>
+            <TabsTrigger value="descendants" className="flex items-center space-x-2">
+              <Network className="h-4 w-4" />
+              <span>Descendants</span>
+            </TabsTrigger>
+            <TabsTrigger value="fan" className="flex items-center space-x-2">
+              <PieChart className="h-4 w-4" />
+              <span>Fan</span>
+            </TabsTrigger>
+            <TabsTrigger value="hourglass" className="flex items-center space-x-2">
+              <Hourglass className="h-4 w-4" />
+              <span>Hourglass</span>
+            </TabsTrigger>
           </TabsList>
         </Tabs>
       </div>
@@ -228,8 +280,19 @@ export default function FamilyTree() {
           onAddMember={handleAddMember}
           onConnectMembers={() => setConnectModalOpen(true)}
           onAutoAlign={handleAutoAlign}
+          onImportGedcom={handleImportGedcom}
+          onRestoreBackup={handleRestoreBackup}
+          onJumpToMember={handleJumpToMember}
+          onFindDuplicates={() => setDuplicatesOpen(true)}
+          onReviewProposals={() => setProposalsOpen(true)}
+          onSignOut={() => logout.mutate()}
+          username={user?.username}
+          problems={validation?.issues}
+          pendingProposals={pendingProposals?.length}
           selectedMemberId={selectedMemberId}
-          isAutoAligning={isAutoAligning}
+          isAutoAligning={autoLayout.isPending}
+          isImporting={importGedcom.isPending}
+          isRestoring={restoreBackup.isPending}
         />
       </div>
 
@@ -246,7 +309,9 @@ export default function FamilyTree() {
             <FamilyTreeCanvas
               familyTree={familyTree}
               selectedMemberId={selectedMemberId}
-              onMemberSelect={setSelectedMemberId}
+              compareMemberId={compareMemberId}
+              kinship={compareMemberId !== null ? kinship : null}
+              onMemberSelect={handleMemberSelect}
               onAddMember={handleAddMember}
               scale={scale}
               panX={panX}
@@ -257,12 +322,62 @@ export default function FamilyTree() {
                 setPanY(y);
               }}
             />
+
+            {compareMemberId !== null && (
+              <RelationshipPanel
+                familyTree={familyTree}
+                kinship={kinship}
+                isLoading={isKinshipLoading}
+                onClose={() => setCompareMemberId(null)}
+              />
+            )}
           </>
         )}
         
+        {canEdit && (
+          <UndoControls
+            history={changeHistory}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            isBusy={undo.isPending || redo.isPending}
+          />
+        )}
+
         {activeView === "timeline" && (
           <TimelineView familyTree={familyTree} />
         )}
+
+        {activeView === "pedigree" && (
+          <PedigreeChart
+            familyTree={familyTree}
+            selectedMemberId={selectedMemberId}
+            onSelectMember={(id) => handleMemberSelect(id)}
+          />
+        )}
+
+        {activeView === "descendants" && (
+          <DescendantChart
+            familyTree={familyTree}
+            selectedMemberId={selectedMemberId}
+            onSelectMember={(id) => handleMemberSelect(id)}
+          />
+        )}
+
+        {activeView === "fan" && (
+          <FanChart
+            familyTree={familyTree}
+            selectedMemberId={selectedMemberId}
+            onSelectMember={(id) => handleMemberSelect(id)}
+          />
+        )}
+
+        {activeView === "hourglass" && (
+          <HourglassChart
+            familyTree={familyTree}
+            selectedMemberId={selectedMemberId}
+            onSelectMember={(id) => handleMemberSelect(id)}
+          />
+        )}
       </div>
 
       {/* Add Member Modal */}
@@ -279,6 +394,36 @@ export default function FamilyTree() {
         familyTree={familyTree}
       />
 
+      <DuplicatesModal
+        open={duplicatesOpen}
+        onOpenChange={setDuplicatesOpen}
+        familyTree={familyTree}
+        onReview={handleReviewDuplicate}
+      />
+
+      <MergeMembersModal
+        open={mergePair !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setMergePair(null);
+            setDuplicatesOpen(true);
+          }
+        }}
+        members={mergePair}
+      />
+
+      <ProposalsModal
+        open={proposalsOpen}
+        onOpenChange={setProposalsOpen}
+        familyTree={familyTree}
+      />
+
+      <ImportReportModal
+        open={importReport !== null}
+        onOpenChange={(open) => !open && setImportReport(null)}
+        report={importReport}
+      />
+
       {/* Mobile overlay */}
       {sidebarOpen && (
         <div 
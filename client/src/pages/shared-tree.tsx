@@ -0,0 +1,173 @@
+import React, { useState } from "react";
+import { useFamilyTree } from "@/hooks/use-family-tree";
+import { useSharedTree } from "@/hooks/use-trees";
+import { ShareLinkContext } from "@/lib/share-link";
+import FamilyTreeCanvas from "@/components/family-tree-canvas";
+import TimelineView from "@/components/timeline-view";
+import ZoomControls from "@/components/zoom-controls";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertCircle, Clock, Eye, Lock, TreePine } from "lucide-react";
+import type { SharedTree } from "@shared/schema";
+
+type View = "tree" | "timeline";
+
+const spinner = (
+  <div className="min-h-screen flex items-center justify-center">
+    <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+  </div>
+);
+
+function UnlockForm({ sharedTree, token }: { sharedTree: SharedTree; token: string }) {
+  const { unlock } = useSharedTree(token);
+  const [password, setPassword] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password) unlock.mutate(password);
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-slate-50 font-inter">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader className="text-center">
+          <Lock className="h-10 w-10 mx-auto text-green-600" />
+          <CardTitle className="text-2xl">{sharedTree.name}</CardTitle>
+          <CardDescription>Enter the password you were given to see this family tree.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="share-password">Password</Label>
+              <Input
+                id="share-password"
+                type="password"
+                autoComplete="off"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+              {unlock.error && <p className="text-sm text-red-600">{unlock.error.message}</p>}
+            </div>
+            <Button type="submit" className="w-full" disabled={!password || unlock.isPending}>
+              Open Tree
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// The canvas and timeline with nothing to change; living people come back from the server redacted
+function SharedTreeView({ sharedTree }: { sharedTree: SharedTree }) {
+  const { data: familyTree, isLoading } = useFamilyTree();
+  const [activeView, setActiveView] = useState<View>("tree");
+  const [selectedMemberId, setSelectedMemberId] = useState<number | null>(null);
+  const [scale, setScale] = useState(1);
+  const [panX, setPanX] = useState(0);
+  const [panY, setPanY] = useState(0);
+
+  if (isLoading) return spinner;
+
+  return (
+    <div className="min-h-screen bg-slate-50 font-inter">
+      <div className="fixed top-4 left-4 z-50 flex items-center gap-2 rounded-md bg-white px-3 py-2 shadow-lg">
+        <TreePine className="h-5 w-5 text-green-600" />
+        <span className="font-semibold text-gray-900">{sharedTree.name}</span>
+        <Badge variant="secondary" className="flex items-center gap-1 font-normal">
+          <Eye className="h-3 w-3" />
+          Read-only
+        </Badge>
+      </div>
+
+      <div className={`fixed top-4 z-50 ${activeView === "tree" ? "right-20" : "right-4"}`}>
+        <Tabs value={activeView} onValueChange={(value) => setActiveView(value as View)}>
+          <TabsList className="bg-white shadow-lg">
+            <TabsTrigger value="tree" className="flex items-center space-x-2">
+              <TreePine className="h-4 w-4" />
+              <span>Tree View</span>
+            </TabsTrigger>
+            <TabsTrigger value="timeline" className="flex items-center space-x-2">
+              <Clock className="h-4 w-4" />
+              <span>Timeline</span>
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {activeView === "tree" && (
+        <>
+          <ZoomControls
+            onZoomIn={() => setScale(prev => Math.min(2, prev * 1.2))}
+            onZoomOut={() => setScale(prev => Math.max(0.5, prev * 0.8))}
+            onResetZoom={() => {
+              setScale(1);
+              setPanX(0);
+              setPanY(0);
+            }}
+          />
+          <FamilyTreeCanvas
+            familyTree={familyTree}
+            selectedMemberId={selectedMemberId}
+            onMemberSelect={(id) => setSelectedMemberId(id)}
+            onAddMember={() => {}}
+            scale={scale}
+            panX={panX}
+            panY={panY}
+            onScaleChange={setScale}
+            onPanChange={(x, y) => {
+              setPanX(x);
+              setPanY(y);
+            }}
+          />
+        </>
+      )}
+
+      {activeView === "timeline" && (
+        <div className="pt-16">
+          <TimelineView familyTree={familyTree} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// A tree opened through a share link, for relatives without an account
+export default function SharedTreePage({ params }: { params: { token: string } }) {
+  const { token } = params;
+  const { sharedTree, isLoading, error } = useSharedTree(token);
+
+  if (isLoading) return spinner;
+
+  if (!sharedTree) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+        <Card className="w-full max-w-md mx-4">
+          <CardContent className="pt-6">
+            <div className="flex mb-4 gap-2">
+              <AlertCircle className="h-8 w-8 text-red-500" />
+              <h1 className="text-2xl font-bold text-gray-900">Link Unavailable</h1>
+            </div>
+            <p className="mt-4 text-sm text-gray-600">
+              {error?.message ?? "This link has expired or been revoked"}. Ask whoever sent it for a new one.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!sharedTree.unlocked) {
+    return <UnlockForm sharedTree={sharedTree} token={token} />;
+  }
+
+  return (
+    <ShareLinkContext.Provider value={token}>
+      <SharedTreeView sharedTree={sharedTree} />
+    </ShareLinkContext.Provider>
+  );
+}
@@ -0,0 +1,36 @@
+CREATE TABLE "citations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"source_id" integer NOT NULL,
+	"member_id" integer,
+	"relationship_id" integer,
+	"event_id" integer,
+	"field" varchar(50),
+	"page" varchar(255),
+	"quality" integer,
+	"transcription" text,
+	"accessed_at" date,
+	"notes" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "sources" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" varchar(255) NOT NULL,
+	"author" varchar(255),
+	"publication" text,
+	"repository" varchar(255),
+	"url" varchar(500),
+	"notes" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "citations" ADD CONSTRAINT "citations_source_id_sources_id_fk" FOREIGN KEY ("source_id") REFERENCES "public"."sources"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "citations" ADD CONSTRAINT "citations_member_id_family_members_id_fk" FOREIGN KEY ("member_id") REFERENCES "public"."family_members"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "citations" ADD CONSTRAINT "citations_relationship_id_relationships_id_fk" FOREIGN KEY ("relationship_id") REFERENCES "public"."relationships"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "citations" ADD CONSTRAINT "citations_event_id_family_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."family_events"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "citations_source_idx" ON "citations" USING btree ("source_id");--> statement-breakpoint
+CREATE INDEX "citations_member_idx" ON "citations" USING btree ("member_id");--> statement-breakpoint
+CREATE INDEX "citations_relationship_idx" ON "citations" USING btree ("relationship_id");--> statement-breakpoint
+CREATE INDEX "citations_event_idx" ON "citations" USING btree ("event_id");
\ No newline at end of file
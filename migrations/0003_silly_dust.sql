@@ -0,0 +1,5 @@
+ALTER TABLE "family_events" ADD COLUMN "date_text" varchar(100);--> statement-breakpoint
+ALTER TABLE "family_members" ADD COLUMN "birth_date_text" varchar(100);--> statement-breakpoint
+ALTER TABLE "family_members" ADD COLUMN "death_date_text" varchar(100);--> statement-breakpoint
+ALTER TABLE "relationships" ADD COLUMN "start_date_text" varchar(100);--> statement-breakpoint
+ALTER TABLE "relationships" ADD COLUMN "end_date_text" varchar(100);
\ No newline at end of file
@@ -0,0 +1,37 @@
+CREATE TABLE "event_media" (
+	"event_id" integer NOT NULL,
+	"media_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "event_media_event_id_media_id_pk" PRIMARY KEY("event_id","media_id")
+);
+--> statement-breakpoint
+CREATE TABLE "media" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"file_name" varchar(255) NOT NULL,
+	"original_name" varchar(255) NOT NULL,
+	"mime_type" varchar(100) NOT NULL,
+	"size" integer NOT NULL,
+	"width" integer,
+	"height" integer,
+	"thumbnail_file_name" varchar(255),
+	"caption" text,
+	"date" date,
+	"date_text" varchar(100),
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "member_media" (
+	"member_id" integer NOT NULL,
+	"media_id" integer NOT NULL,
+	"is_primary" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "member_media_member_id_media_id_pk" PRIMARY KEY("member_id","media_id")
+);
+--> statement-breakpoint
+ALTER TABLE "event_media" ADD CONSTRAINT "event_media_event_id_family_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."family_events"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "event_media" ADD CONSTRAINT "event_media_media_id_media_id_fk" FOREIGN KEY ("media_id") REFERENCES "public"."media"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "member_media" ADD CONSTRAINT "member_media_member_id_family_members_id_fk" FOREIGN KEY ("member_id") REFERENCES "public"."family_members"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "member_media" ADD CONSTRAINT "member_media_media_id_media_id_fk" FOREIGN KEY ("media_id") REFERENCES "public"."media"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "event_media_media_idx" ON "event_media" USING btree ("media_id");--> statement-breakpoint
+CREATE INDEX "member_media_media_idx" ON "member_media" USING btree ("media_id");
\ No newline at end of file
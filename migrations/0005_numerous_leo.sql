@@ -0,0 +1,8 @@
+CREATE TABLE "change_log" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"description" text NOT NULL,
+	"before" jsonb NOT NULL,
+	"after" jsonb NOT NULL,
+	"undone" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
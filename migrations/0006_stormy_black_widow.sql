@@ -0,0 +1,12 @@
+CREATE TABLE "audit_log" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"entity_type" varchar(20) NOT NULL,
+	"entity_id" integer,
+	"action" varchar(20) NOT NULL,
+	"member_ids" integer[] NOT NULL,
+	"changes" jsonb NOT NULL,
+	"actor" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "audit_log_entity_idx" ON "audit_log" USING btree ("entity_type","entity_id");
\ No newline at end of file
@@ -0,0 +1,42 @@
+CREATE TABLE "trees" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"description" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+-- Everything recorded so far becomes the first tree
+INSERT INTO "trees" ("name") VALUES ('Family Tree');--> statement-breakpoint
+ALTER TABLE "audit_log" ADD COLUMN "tree_id" integer;--> statement-breakpoint
+UPDATE "audit_log" SET "tree_id" = (SELECT min("id") FROM "trees");--> statement-breakpoint
+ALTER TABLE "audit_log" ALTER COLUMN "tree_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "change_log" ADD COLUMN "tree_id" integer;--> statement-breakpoint
+UPDATE "change_log" SET "tree_id" = (SELECT min("id") FROM "trees");--> statement-breakpoint
+ALTER TABLE "change_log" ALTER COLUMN "tree_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "family_events" ADD COLUMN "tree_id" integer;--> statement-breakpoint
+UPDATE "family_events" SET "tree_id" = (SELECT min("id") FROM "trees");--> statement-breakpoint
+ALTER TABLE "family_events" ALTER COLUMN "tree_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "family_members" ADD COLUMN "tree_id" integer;--> statement-breakpoint
+UPDATE "family_members" SET "tree_id" = (SELECT min("id") FROM "trees");--> statement-breakpoint
+ALTER TABLE "family_members" ALTER COLUMN "tree_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "media" ADD COLUMN "tree_id" integer;--> statement-breakpoint
+UPDATE "media" SET "tree_id" = (SELECT min("id") FROM "trees");--> statement-breakpoint
+ALTER TABLE "media" ALTER COLUMN "tree_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "relationships" ADD COLUMN "tree_id" integer;--> statement-breakpoint
+UPDATE "relationships" SET "tree_id" = (SELECT min("id") FROM "trees");--> statement-breakpoint
+ALTER TABLE "relationships" ALTER COLUMN "tree_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "sources" ADD COLUMN "tree_id" integer;--> statement-breakpoint
+UPDATE "sources" SET "tree_id" = (SELECT min("id") FROM "trees");--> statement-breakpoint
+ALTER TABLE "sources" ALTER COLUMN "tree_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "audit_log" ADD CONSTRAINT "audit_log_tree_id_trees_id_fk" FOREIGN KEY ("tree_id") REFERENCES "public"."trees"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "change_log" ADD CONSTRAINT "change_log_tree_id_trees_id_fk" FOREIGN KEY ("tree_id") REFERENCES "public"."trees"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "family_events" ADD CONSTRAINT "family_events_tree_id_trees_id_fk" FOREIGN KEY ("tree_id") REFERENCES "public"."trees"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "family_members" ADD CONSTRAINT "family_members_tree_id_trees_id_fk" FOREIGN KEY ("tree_id") REFERENCES "public"."trees"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "media" ADD CONSTRAINT "media_tree_id_trees_id_fk" FOREIGN KEY ("tree_id") REFERENCES "public"."trees"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "relationships" ADD CONSTRAINT "relationships_tree_id_trees_id_fk" FOREIGN KEY ("tree_id") REFERENCES "public"."trees"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sources" ADD CONSTRAINT "sources_tree_id_trees_id_fk" FOREIGN KEY ("tree_id") REFERENCES "public"."trees"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "audit_log_tree_idx" ON "audit_log" USING btree ("tree_id");--> statement-breakpoint
+CREATE INDEX "family_events_tree_idx" ON "family_events" USING btree ("tree_id");--> statement-breakpoint
+CREATE INDEX "family_members_tree_idx" ON "family_members" USING btree ("tree_id");--> statement-breakpoint
+CREATE INDEX "relationships_tree_idx" ON "relationships" USING btree ("tree_id");
\ No newline at end of file
@@ -0,0 +1,30 @@
+CREATE TABLE "change_proposals" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"tree_id" integer NOT NULL,
+	"proposed_by" integer,
+	"entity_type" varchar(20) NOT NULL,
+	"action" varchar(20) NOT NULL,
+	"entity_id" integer,
+	"data" jsonb,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"reviewed_by" integer,
+	"reviewed_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "tree_members" (
+	"tree_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"role" varchar(20) NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "tree_members_tree_id_user_id_pk" PRIMARY KEY("tree_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "change_proposals" ADD CONSTRAINT "change_proposals_tree_id_trees_id_fk" FOREIGN KEY ("tree_id") REFERENCES "public"."trees"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "change_proposals" ADD CONSTRAINT "change_proposals_proposed_by_users_id_fk" FOREIGN KEY ("proposed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "change_proposals" ADD CONSTRAINT "change_proposals_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tree_members" ADD CONSTRAINT "tree_members_tree_id_trees_id_fk" FOREIGN KEY ("tree_id") REFERENCES "public"."trees"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tree_members" ADD CONSTRAINT "tree_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "change_proposals_tree_status_idx" ON "change_proposals" USING btree ("tree_id","status");--> statement-breakpoint
+CREATE INDEX "tree_members_user_idx" ON "tree_members" USING btree ("user_id");--> statement-breakpoint
+INSERT INTO "tree_members" ("tree_id", "user_id", "role") SELECT "trees"."id", "users"."id", 'owner' FROM "trees" CROSS JOIN "users";
@@ -0,0 +1 @@
+ALTER TABLE "family_members" ADD COLUMN "privacy" varchar(20);
\ No newline at end of file
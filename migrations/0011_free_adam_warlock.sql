@@ -0,0 +1,15 @@
+CREATE TABLE "share_links" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"tree_id" integer NOT NULL,
+	"token" varchar(64) NOT NULL,
+	"label" varchar(100),
+	"password_hash" text,
+	"expires_at" timestamp,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_tree_id_trees_id_fk" FOREIGN KEY ("tree_id") REFERENCES "public"."trees"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "share_links_token_idx" ON "share_links" USING btree ("token");--> statement-breakpoint
+CREATE INDEX "share_links_tree_idx" ON "share_links" USING btree ("tree_id");
\ No newline at end of file
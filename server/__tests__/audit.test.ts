@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { diffRecords, runAs, currentActor } from '../audit';
+
+describe('Audit', () => {
+  it('lists only the fields that changed, with dates as ISO strings', () => {
+    const before = { id: 1, firstName: 'Ann', birthDate: new Date('1950-03-04'), updatedAt: new Date('2024-01-01') };
+    const after = { id: 1, firstName: 'Anne', birthDate: new Date('1950-03-04'), updatedAt: new Date('2024-02-01') };
+
+    expect(diffRecords(before, after)).toEqual({ firstName: { before: 'Ann', after: 'Anne' } });
+  });
+
+  it('records every set field of a created or deleted row', () => {
+    const row = { id: 7, firstName: 'Bob', lastName: null, birthDate: new Date('1950-03-04') };
+
+    expect(diffRecords(null, row)).toEqual({
+      firstName: { before: null, after: 'Bob' },
+      birthDate: { before: null, after: '1950-03-04T00:00:00.000Z' },
+    });
+    expect(diffRecords(row, null)).toEqual({
+      firstName: { before: 'Bob', after: null },
+      birthDate: { before: '1950-03-04T00:00:00.000Z', after: null },
+    });
+  });
+
+  it('compares arrays by value', () => {
+    expect(diffRecords({ memberIds: [1, 2] }, { memberIds: [1, 2] })).toEqual({});
+    expect(diffRecords({ memberIds: [1, 2] }, { memberIds: [1] }))
+      .toEqual({ memberIds: { before: [1, 2], after: [1] } });
+  });
+
+  it('knows the actor only inside runAs, across awaits', async () => {
+    expect(currentActor()).toBeNull();
+    await runAs('ann', async () => {
+      await new Promise(resolve => setTimeout(resolve, 1));
+      expect(currentActor()).toBe('ann');
+    });
+  });
+});
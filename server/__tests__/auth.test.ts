@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { hashPassword, verifyPassword } from '../auth';
+
+describe('Auth', () => {
+  it('verifies a password against its salted hash', async () => {
+    const stored = await hashPassword('correct horse');
+
+    expect(stored).not.toContain('correct horse');
+    expect(await verifyPassword('correct horse', stored)).toBe(true);
+    expect(await verifyPassword('wrong horse', stored)).toBe(false);
+  });
+
+  it('salts every hash differently', async () => {
+    expect(await hashPassword('same password')).not.toBe(await hashPassword('same password'));
+  });
+
+  it('rejects a malformed stored hash', async () => {
+    expect(await verifyPassword('anything', 'not-a-hash')).toBe(false);
+  });
+});
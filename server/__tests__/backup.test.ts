@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { createBackup, backupToImport } from '../backup';
+import { BACKUP_SCHEMA_VERSION, familyTreeBackupSchema, insertCitationSchema } from '@shared/schema';
+import { member, link, event, source, citation, treeOf } from './fixtures';
+
+const created = new Date('2024-01-01T00:00:00Z');
+
+const tree = treeOf(
+  [
+    member(12, 'Ann', {
+      lastName: 'Smith', gender: 'female', birthDate: '1950-03-01', birthPlace: 'Ohio', isLiving: true,
+      x: 40, y: 80, createdAt: created, updatedAt: created,
+    }),
+    member(15, 'Ben', { lastName: 'Smith', gender: 'male', isLiving: true, x: 336, y: 80, createdAt: created, updatedAt: created }),
+  ],
+  [link('spouse', 12, 15, { id: 3, createdAt: created, updatedAt: created })],
+  [event('marriage', [15, 12], { id: 4, date: '1975-06-01', description: 'Church wedding', createdAt: created, updatedAt: created })]
+);
+
+// Backups travel as JSON files, so validate what actually comes back from disk
+const throughJson = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+describe('Backup', () => {
+  it('should write a versioned document with positions listed separately', () => {
+    const backup = createBackup(tree);
+
+    expect(backup.schemaVersion).toBe(BACKUP_SCHEMA_VERSION);
+    expect(backup.members[0]).not.toHaveProperty('x');
+    expect(backup.positions).toEqual([
+      { memberId: 12, x: 40, y: 80 },
+      { memberId: 15, x: 336, y: 80 },
+    ]);
+  });
+
+  it('should validate its own output after a JSON round trip', () => {
+    const result = familyTreeBackupSchema.safeParse(throughJson(createBackup(tree)));
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should key rows by their backed-up ids', () => {
+    const backup = familyTreeBackupSchema.parse(throughJson(createBackup(tree)));
+    const data = backupToImport(backup);
+
+    expect(data.members.map(m => m.key)).toEqual(['12', '15']);
+    expect(data.members[1].data).toMatchObject({ firstName: 'Ben', x: 336, y: 80 });
+    expect(data.relationships[0]).toMatchObject({ fromKey: '12', toKey: '15' });
+    expect(data.events[0].memberKeys).toEqual(['15', '12']);
+  });
+
+  it('should reject links to members missing from the backup', () => {
+    const backup = throughJson(createBackup(tree));
+    backup.events[0].memberIds.push(99);
+
+    const result = familyTreeBackupSchema.safeParse(backup);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.errors[0]).toMatchObject({
+      path: ['events', 0, 'memberIds', 2],
+      message: 'Unknown member id 99'
+    });
+  });
+
+  it('should carry sources and citations keyed by their backed-up ids', () => {
+    const sources = [source(5, 'Parish register', { createdAt: created, updatedAt: created })];
+    const citations = [citation(8, 5, { relationshipId: 3, page: 'p. 4', quality: 2, createdAt: created, updatedAt: created })];
+    const backup = familyTreeBackupSchema.parse(throughJson(createBackup(tree, sources, citations)));
+    const data = backupToImport(backup);
+
+    expect(data.sources).toEqual([{ key: '5', data: { title: 'Parish register' } }]);
+    expect(data.citations).toEqual([{ sourceKey: '5', relationshipKey: '3', data: { page: 'p. 4', quality: 2 } }]);
+  });
+
+  it('should reject citations of sources missing from the backup', () => {
+    const backup = throughJson(createBackup(tree));
+    backup.citations = [{ id: 1, sourceId: 5, memberId: 12 }];
+
+    const result = familyTreeBackupSchema.safeParse(backup);
+
+    expect(result.error?.errors[0]).toMatchObject({
+      path: ['citations', 0, 'sourceId'],
+      message: 'Unknown source id 5'
+    });
+  });
+
+  it('should still accept version 1 backups without sources', () => {
+    const { sources, citations, ...backup } = throughJson(createBackup(tree));
+
+    const result = familyTreeBackupSchema.safeParse({ ...backup, schemaVersion: 1 });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.citations).toEqual([]);
+  });
+
+  it('should require a citation to point at exactly one record', () => {
+    expect(insertCitationSchema.safeParse({ sourceId: 1, memberId: 2 }).success).toBe(true);
+    expect(insertCitationSchema.safeParse({ sourceId: 1 }).success).toBe(false);
+    expect(insertCitationSchema.safeParse({ sourceId: 1, memberId: 2, eventId: 3 }).success).toBe(false);
+  });
+
+  it('should reject unsupported schema versions', () => {
+    const backup = { ...throughJson(createBackup(tree)), schemaVersion: BACKUP_SCHEMA_VERSION + 1 };
+
+    expect(familyTreeBackupSchema.safeParse(backup).success).toBe(false);
+  });
+});
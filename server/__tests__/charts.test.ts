@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { buildPedigree, buildDescendants, fatherAndMother, ahnentafelGeneration } from '@shared/charts';
+import type { FamilyTreeData } from '@shared/schema';
+import { member, link } from './fixtures';
+
+// Ann's parents are Bill and Cora (linked mother first); Bill's parents are
+// Dave and Edna, and Dave's father is Fred. Cora's parents are unknown, and
+// Ann also has a stepfather, Gus.
+const tree: FamilyTreeData = {
+  members: [
+    member(1, 'Ann', { gender: 'female' }), member(2, 'Bill', { gender: 'male' }), member(3, 'Cora', { gender: 'female' }),
+    member(4, 'Dave', { gender: 'male' }), member(5, 'Edna', { gender: 'female' }), member(6, 'Fred', { gender: 'male' }),
+    member(7, 'Gus', { gender: 'male' }), member(8, 'Hana', { gender: 'unknown' }), member(9, 'Ivo', { gender: 'unknown' }),
+    member(10, 'Jo', { gender: 'unknown' }),
+  ],
+  relationships: [
+    link('parent-child', 3, 1),
+    link('parent-child', 2, 1),
+    link('parent-child', 7, 1, { subType: 'step' }),
+    link('parent-child', 4, 2),
+    link('parent-child', 5, 2),
+    link('parent-child', 6, 4),
+    link('parent-child', 8, 10),
+    link('parent-child', 9, 10),
+  ],
+  events: [],
+};
+
+const numbersOf = (rootId: number, generations: number) =>
+  buildPedigree(tree, rootId, generations).entries.map(e => [e.number, e.member.firstName]);
+
+describe('Pedigree', () => {
+  it('numbers ancestors by the Ahnentafel system', () => {
+    expect(numbersOf(1, 4)).toEqual([
+      [1, 'Ann'], [2, 'Bill'], [3, 'Cora'], [4, 'Dave'], [5, 'Edna'], [8, 'Fred'],
+    ]);
+  });
+
+  it('stops at the requested number of generations', () => {
+    expect(numbersOf(1, 2)).toEqual([[1, 'Ann'], [2, 'Bill'], [3, 'Cora']]);
+    expect(buildPedigree(tree, 1, 3).entries.map(e => e.generation)).toEqual([0, 1, 1, 2, 2]);
+  });
+
+  it('puts the father first whatever order the parents were linked in', () => {
+    const [father, mother] = fatherAndMother(tree, 1);
+    expect(father?.firstName).toBe('Bill');
+    expect(mother?.firstName).toBe('Cora');
+  });
+
+  it('leaves step parents out', () => {
+    expect(numbersOf(1, 2).map(([, name]) => name)).not.toContain('Gus');
+  });
+
+  it('keeps the linked order when genders are unknown', () => {
+    expect(numbersOf(10, 2)).toEqual([[1, 'Jo'], [2, 'Hana'], [3, 'Ivo']]);
+  });
+
+  it('returns nothing for an unknown root', () => {
+    expect(buildPedigree(tree, 99, 4).entries).toEqual([]);
+  });
+
+  it('works out the generation of a number', () => {
+    expect([1, 2, 3, 4, 7, 8, 15].map(ahnentafelGeneration)).toEqual([0, 1, 1, 2, 2, 3, 3]);
+  });
+});
+
+// Fred's sons Dave (1890) and Karl (1885); Karl and his wife Lena have Max,
+// and Karl has Nora with Olga, to whom he was never married. Max adopted Pia.
+const family: FamilyTreeData = {
+  members: [
+    member(4, 'Dave', { gender: 'male', birthDateText: '1890' }), member(6, 'Fred', { gender: 'male' }), member(11, 'Karl', { gender: 'male', birthDateText: '1885' }),
+    member(12, 'Lena', { gender: 'female' }), member(13, 'Max', { gender: 'male', birthDateText: '1910' }), member(14, 'Nora', { gender: 'female', birthDateText: 'about 1905' }),
+    member(15, 'Olga', { gender: 'female' }), member(16, 'Pia', { gender: 'female' }), member(17, 'Quin', { gender: 'male' }),
+  ],
+  relationships: [
+    link('parent-child', 6, 4),
+    link('parent-child', 6, 11),
+    link('spouse', 11, 12),
+    link('parent-child', 11, 13),
+    link('parent-child', 12, 13),
+    link('parent-child', 11, 14),
+    link('parent-child', 15, 14),
+    link('adopted', 13, 16),
+    link('parent-child', 13, 17, { subType: 'step' }),
+  ],
+  events: [],
+};
+
+describe('Descendants', () => {
+  const root = buildDescendants(family, 6)!;
+  const karl = root.children[0];
+
+  it('orders children by birth date', () => {
+    expect(root.children.map(c => c.member.firstName)).toEqual(['Karl', 'Dave']);
+    expect(karl.children.map(c => c.member.firstName)).toEqual(['Nora', 'Max']);
+  });
+
+  it('shows spouses and the other parents of children beside each person', () => {
+    expect(karl.spouses.map(s => s.firstName)).toEqual(['Lena', 'Olga']);
+    expect(root.spouses).toEqual([]);
+  });
+
+  it('counts the descendants and generations in each branch', () => {
+    expect([root.descendantCount, root.branchGenerations]).toEqual([5, 3]);
+    expect([karl.descendantCount, karl.branchGenerations]).toEqual([3, 2]);
+    expect([root.children[1].descendantCount, root.children[1].branchGenerations]).toEqual([0, 0]);
+  });
+
+  it('follows adoptions but not step links', () => {
+    const max = karl.children[1];
+    expect(max.children.map(c => c.member.firstName)).toEqual(['Pia']);
+    expect(max.children[0]).toMatchObject({ key: '6/11/13/16', generation: 3 });
+  });
+
+  it('returns nothing for an unknown root', () => {
+    expect(buildDescendants(family, 99)).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseGenealogicalDate,
+  toGedcomDate,
+  formatStoredDate,
+  compareStoredDates,
+} from '@shared/dates';
+
+const gedcom = (text: string) => {
+  const parsed = parseGenealogicalDate(text);
+  return parsed && toGedcomDate(parsed);
+};
+
+describe('Genealogical dates', () => {
+  it('should read GEDCOM and everyday phrasings alike', () => {
+    expect(gedcom('ABT 1850')).toBe('ABT 1850');
+    expect(gedcom('c. 1850')).toBe('ABT 1850');
+    expect(gedcom('between 1848 and 1852')).toBe('BET 1848 AND 1852');
+    expect(gedcom('1848-1852')).toBe('BET 1848 AND 1852');
+    expect(gedcom('from 1850 to 1860')).toBe('FROM 1850 TO 1860');
+    expect(gedcom('before March 12, 1901')).toBe('BEF 12 MAR 1901');
+    expect(gedcom('1901-03')).toBe('MAR 1901');
+  });
+
+  it('should reject phrases, impossible days and backwards ranges', () => {
+    expect(parseGenealogicalDate('(unknown)')).toBeNull();
+    expect(parseGenealogicalDate('31 FEB 1900')).toBeNull();
+    expect(parseGenealogicalDate('BET 1852 AND 1848')).toBeNull();
+    expect(parseGenealogicalDate('maybe 1850')).toBeNull();
+  });
+
+  it('should label stored dates by their qualifier and precision', () => {
+    expect(formatStoredDate('1850-01-01', 'ABT 1850')).toBe('about 1850');
+    expect(formatStoredDate('1901-03-01', 'MAR 1901')).toBe('Mar 1901');
+    expect(formatStoredDate('1901-03-12T00:00:00.000Z', null)).toBe('Mar 12, 1901');
+    expect(formatStoredDate(null, null)).toBeNull();
+  });
+
+  it('should sort by date, then before, exact and after, with missing dates last', () => {
+    const dates = [
+      { date: null, text: null },
+      { date: '1900-01-01', text: 'AFT 1900' },
+      { date: '1900-01-01', text: 'BEF 1900' },
+      { date: '1899-06-01', text: null },
+      { date: '1900-01-01', text: '1900' },
+    ];
+
+    expect(dates.sort(compareStoredDates).map(d => d.text ?? d.date)).toEqual([
+      '1899-06-01', 'BEF 1900', '1900', 'AFT 1900', null,
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { findDuplicates, scoreDuplicatePair, soundex } from '../duplicates';
+import type { FamilyMember } from '@shared/schema';
+import { member, link, treeOf } from './fixtures';
+
+const person = (id: number, firstName: string, lastName: string, fields: Partial<FamilyMember> = {}) =>
+  member(id, firstName, { lastName, gender: 'male', ...fields });
+
+describe('Duplicates', () => {
+  it('should encode names with Soundex', () => {
+    expect(soundex('Robert')).toBe('R163');
+    expect(soundex('Rupert')).toBe('R163');
+    expect(soundex('Ashcraft')).toBe('A261');
+    expect(soundex('Pfister')).toBe('P236');
+    expect(soundex('Lee')).toBe('L000');
+  });
+
+  it('should score phonetic names with matching dates and places highly', () => {
+    const match = scoreDuplicatePair(
+      person(1, 'Johann', 'Schmidt', { birthDate: '1850-04-02', birthPlace: 'Bremen' }),
+      person(2, 'Johan', 'Schmitt', { birthDate: '1850-04-02', birthPlace: ' bremen ' })
+    );
+
+    expect(match?.score).toBeGreaterThanOrEqual(0.7);
+    expect(match?.reasons).toEqual([
+      'First names sound alike',
+      'Last names sound alike',
+      'Same birth date',
+      'Same birth place',
+    ]);
+  });
+
+  it('should rule out different first names and conflicting genders', () => {
+    expect(scoreDuplicatePair(person(1, 'Anna', 'Smith'), person(2, 'Mary', 'Smith'))).toBeNull();
+    expect(scoreDuplicatePair(
+      person(1, 'Sam', 'Smith'),
+      person(2, 'Sam', 'Smith', { gender: 'female' })
+    )).toBeNull();
+  });
+
+  it('should penalise birth years far apart', () => {
+    const match = scoreDuplicatePair(
+      person(1, 'John', 'Smith', { birthDate: '1900-01-01' }),
+      person(2, 'John', 'Smith', { birthDate: '1930-01-01' })
+    );
+
+    expect(match?.score).toBeLessThan(0.6);
+    expect(match?.reasons).toContain('Birth years differ by 30');
+  });
+
+  it('should list likely pairs best first, skipping members linked to each other', () => {
+    const tree = treeOf(
+      [
+        person(1, 'John', 'Smith', { birthDate: '1900-01-01' }),
+        person(2, 'John', 'Smith', { birthDate: '1900-01-01' }),
+        person(3, 'Jon', 'Smyth'),
+        person(4, 'John', 'Smith', { birthDate: '1900-06-01' }),
+      ],
+      [link('spouse', 1, 4)]
+    );
+
+    const pairs = findDuplicates(tree).map(c => c.memberIds);
+
+    expect(pairs[0]).toEqual([1, 2]);
+    expect(pairs).not.toContainEqual([1, 4]);
+    expect(pairs).toContainEqual([2, 4]);
+  });
+});
@@ -0,0 +1,70 @@
+import type { AuditEntry, Citation, FamilyEvent, FamilyMember, FamilyTreeData, MediaItem, Relationship, Source } from '@shared/schema';
+
+/**
+ * Rows for the tests that run without a database, shaped like the ones
+ * storage returns. Every column starts empty; tests pass only the fields
+ * they care about. Dates are ISO strings, as the client receives them.
+ */
+
+export const member = (id: number, firstName: string, fields: Partial<FamilyMember> = {}): FamilyMember => ({
+  id, treeId: 1, firstName, middleName: null, lastName: null, gender: null,
+  birthDate: null, birthDateText: null, birthPlace: null, deathDate: null, deathDateText: null, deathPlace: null,
+  occupation: null, biography: null, photoUrl: null, isLiving: false, email: null, privacy: null,
+  x: 0, y: 0, createdAt: null, updatedAt: null,
+  ...fields,
+});
+
+// Ids count up unless `fields` gives one; parent-child links are biological unless told otherwise
+let nextRelationshipId = 1;
+export const link = (
+  type: string,
+  fromMemberId: number,
+  toMemberId: number,
+  fields: Partial<Relationship> = {}
+): Relationship => ({
+  id: nextRelationshipId++, treeId: 1, fromMemberId, toMemberId, type,
+  subType: type === 'parent-child' ? 'biological' : null, status: 'active',
+  startDate: null, startDateText: null, endDate: null, endDateText: null, notes: null, createdAt: null, updatedAt: null,
+  ...fields,
+});
+
+export const parentOf = (parentIds: number[], childId: number) =>
+  parentIds.map(parentId => link('parent-child', parentId, childId));
+
+let nextEventId = 1;
+export const event = (type: string, memberIds: number[], fields: Partial<FamilyEvent> = {}): FamilyEvent => ({
+  id: nextEventId++, treeId: 1, type, date: null, dateText: null, place: null, description: null,
+  memberIds, createdAt: null, updatedAt: null,
+  ...fields,
+});
+
+export const source = (id: number, title: string, fields: Partial<Source> = {}): Source => ({
+  id, treeId: 1, title, author: null, publication: null, repository: null, url: null, notes: null,
+  createdAt: null, updatedAt: null,
+  ...fields,
+});
+
+export const citation = (id: number, sourceId: number, fields: Partial<Citation> = {}): Citation => ({
+  id, sourceId, memberId: null, relationshipId: null, eventId: null, field: null, page: null,
+  quality: null, transcription: null, accessedAt: null, notes: null, createdAt: null, updatedAt: null,
+  ...fields,
+});
+
+export const mediaItem = (id: number, fields: Partial<MediaItem> = {}): MediaItem => ({
+  id, treeId: 1, fileName: `${id}.jpg`, originalName: `${id}.jpg`, mimeType: 'image/jpeg', size: 1024,
+  width: null, height: null, thumbnailFileName: null, caption: null, date: null, dateText: null,
+  memberIds: [], eventIds: [], primaryForMemberIds: [], createdAt: null, updatedAt: null,
+  ...fields,
+});
+
+export const auditEntry = (id: number, memberIds: number[], fields: Partial<AuditEntry> = {}): AuditEntry => ({
+  id, treeId: 1, entityType: 'member', entityId: memberIds[0] ?? null, action: 'update', memberIds,
+  changes: {}, actor: null, createdAt: new Date('2024-01-01'),
+  ...fields,
+});
+
+export const treeOf = (
+  members: FamilyMember[],
+  relationships: Relationship[] = [],
+  events: FamilyEvent[] = []
+): FamilyTreeData => ({ members, relationships, events });
@@ -0,0 +1,285 @@
+import { describe, it, expect } from 'vitest';
+import { exportGedcom, importGedcom, parseGedcomDate, parseGedcomLines } from '../gedcom';
+import { member, link, event, treeOf } from './fixtures';
+
+const sample = `0 HEAD
+1 GEDC
+2 VERS 5.5.1
+1 CHAR UTF-8
+0 @I1@ INDI
+1 NAME John Albert /Smith/
+1 SEX M
+1 BIRT
+2 DATE 12 JAN 1900
+2 PLAC Boston, MA
+1 DEAT
+2 DATE ABT 1970
+1 OCCU Carpenter
+1 NOTE Built the family
+2 CONC  home by hand.
+1 FAMS @F1@
+0 @I2@ INDI
+1 NAME Mary /Jones/
+1 SEX F
+1 GRAD
+2 DATE 1918
+2 PLAC Smith College
+1 FAMS @F1@
+0 @I3@ INDI
+1 NAME Tom /Smith/
+1 SEX M
+1 FAMC @F1@
+2 PEDI adopted
+1 _CUSTOM value
+0 @F1@ FAM
+1 HUSB @I1@
+1 WIFE @I2@
+1 MARR
+2 DATE 5 JUN 1925
+2 PLAC Springfield
+1 CHIL @I3@
+0 @S1@ SOUR
+1 TITL Parish register
+0 TRLR
+`;
+
+describe('GEDCOM import', () => {
+  describe('parseGedcomLines', () => {
+    it('should nest lines by level and fold continuations', () => {
+      const records = parseGedcomLines('0 @N1@ NOTE First\r\n1 CONT Second\r\n1 CONC  line\r\n0 TRLR');
+      expect(records).toHaveLength(2);
+      expect(records[0].xref).toBe('@N1@');
+      expect(records[0].value).toBe('First\nSecond line');
+      expect(records[0].children).toHaveLength(0);
+    });
+  });
+
+  describe('parseGedcomDate', () => {
+    it('should parse exact dates', () => {
+      const { date, approximate } = parseGedcomDate('12 JAN 1900');
+      expect(date?.toISOString().split('T')[0]).toBe('1900-01-12');
+      expect(approximate).toBe(false);
+    });
+
+    it('should flag qualified, ranged and partial dates as approximate', () => {
+      expect(parseGedcomDate('ABT 1850')).toMatchObject({ approximate: true });
+      expect(parseGedcomDate('BET 1848 AND 1852').date?.getUTCFullYear()).toBe(1848);
+      expect(parseGedcomDate('MAR 1901').date?.toISOString().split('T')[0]).toBe('1901-03-01');
+      expect(parseGedcomDate('MAR 1901').approximate).toBe(true);
+    });
+
+    it('should keep the GEDCOM form of inexact dates', () => {
+      expect(parseGedcomDate('bet 1848 and 1852').text).toBe('BET 1848 AND 1852');
+      expect(parseGedcomDate('12 JAN 1900').text).toBeNull();
+    });
+
+    it('should return null for phrases', () => {
+      expect(parseGedcomDate('(unknown)').date).toBeNull();
+    });
+  });
+
+  describe('importGedcom', () => {
+    it('should map individuals onto member fields', () => {
+      const { data } = importGedcom(sample);
+      const john = data.members.find(m => m.key === '@I1@')!.data;
+      expect(john).toMatchObject({
+        firstName: 'John',
+        middleName: 'Albert',
+        lastName: 'Smith',
+        gender: 'male',
+        birthPlace: 'Boston, MA',
+        occupation: 'Carpenter',
+        biography: 'Built the family home by hand.',
+        isLiving: false,
+      });
+      expect(john.birthDate?.toISOString().split('T')[0]).toBe('1900-01-12');
+    });
+
+    it('should build spouse and parent-child relationships from families', () => {
+      const { data } = importGedcom(sample);
+      const spouse = data.relationships.find(r => r.data.type === 'spouse');
+      expect(spouse).toMatchObject({ fromKey: '@I1@', toKey: '@I2@' });
+      expect(spouse?.data.startDate?.toISOString().split('T')[0]).toBe('1925-06-05');
+
+      const children = data.relationships.filter(r => r.data.type === 'parent-child');
+      expect(children).toHaveLength(2);
+      expect(children.every(r => r.toKey === '@I3@' && r.data.subType === 'adopted')).toBe(true);
+    });
+
+    it('should import individual and family events', () => {
+      const { data } = importGedcom(sample);
+      const graduation = data.events.find(e => e.data.type === 'graduation');
+      expect(graduation).toMatchObject({ memberKeys: ['@I2@'], data: { place: 'Smith College' } });
+      const marriage = data.events.find(e => e.data.type === 'marriage');
+      expect(marriage).toMatchObject({ memberKeys: ['@I1@', '@I2@'], data: { place: 'Springfield' } });
+    });
+
+    it('should report skipped and imprecise tags', () => {
+      const { report } = importGedcom(sample);
+      expect(report).toMatchObject({ members: 3, relationships: 3, events: 2 });
+      const tags = report.skipped.map(s => s.tag);
+      expect(tags).toContain('_CUSTOM');
+      expect(tags).toContain('SOUR');
+      expect(report.skipped.find(s => s.tag === 'DATE')).toBeUndefined();
+    });
+
+    it('should import shared notes and report the ones nothing points at', () => {
+      const { data, report } = importGedcom([
+        '0 HEAD',
+        '0 @I1@ INDI',
+        '1 NAME Ann /Lee/',
+        '1 NOTE @N1@',
+        '0 @N1@ NOTE Kept the farm',
+        '0 @N2@ NOTE Orphaned note',
+        '0 TRLR',
+      ].join('\n'));
+      expect(data.members[0].data.biography).toBe('Kept the farm');
+      expect(report.skipped).toEqual([
+        { line: 6, tag: 'NOTE', path: 'NOTE @N2@', reason: 'Note is not attached to any imported record' },
+      ]);
+    });
+
+    it('should keep inexact dates alongside their sort date', () => {
+      const { data } = importGedcom(sample);
+      const john = data.members.find(m => m.key === '@I1@')!.data;
+      expect(john.deathDateText).toBe('ABT 1970');
+      expect(john.deathDate?.toISOString().split('T')[0]).toBe('1970-01-01');
+      expect(john.birthDateText).toBeUndefined();
+    });
+
+    it('should lay out generations on separate rows', () => {
+      const { data } = importGedcom(sample);
+      const position = (key: string) => data.members.find(m => m.key === key)!.data;
+      expect(position('@I1@').y).toBe(position('@I2@').y);
+      expect(position('@I1@').x).not.toBe(position('@I2@').x);
+      expect(position('@I3@').y).toBeGreaterThan(position('@I1@').y);
+    });
+
+    it('should place imports to the right of existing members', () => {
+      const { data } = importGedcom(sample, [member(1, 'Ann', { x: 1000 })]);
+      expect(Math.min(...data.members.map(m => m.data.x))).toBeGreaterThan(1000);
+    });
+
+    it('should reject text without a header', () => {
+      expect(() => importGedcom('hello world')).toThrow('Not a GEDCOM file');
+    });
+  });
+
+  describe('exportGedcom', () => {
+    const tree = treeOf(
+      [
+        member(1, 'George', { lastName: 'Hill', gender: 'male', birthDate: '1920-02-03', birthPlace: 'Leeds' }),
+        member(2, 'Ruth', { middleName: 'Ann', lastName: 'Hill', gender: 'female', occupation: 'Nurse', email: 'ruth@example.com', biography: 'Line one\nLine two ' + 'x'.repeat(300), isLiving: true }),
+        member(3, 'Sam', { lastName: 'Hill', gender: 'other', isLiving: true }),
+        member(4, 'Lee', { lastName: 'Park', gender: 'male', isLiving: true }),
+      ],
+      [
+        link('spouse', 2, 1, { id: 1, startDate: '1945-05-01', status: 'widowed', endDate: '1990-01-01', notes: 'Met in Leeds' }),
+        link('parent-child', 1, 3, { id: 2, subType: 'adopted' }),
+        link('parent-child', 2, 3, { id: 3, subType: 'adopted' }),
+        link('parent-child', 4, 3, { id: 4, subType: 'step', notes: 'Raised Sam' }),
+      ],
+      [
+        event('marriage', [1, 2], { id: 1, date: '1945-05-01', place: 'York Minster' }),
+        event('move', [1, 2, 3], { id: 2, date: '1950-07-01', place: 'Toronto', description: 'Emigrated together' }),
+        event('other', [3], { id: 3, description: 'Family reunion' }),
+      ]
+    );
+
+    it('should write a 5.5.1 header and trailer', () => {
+      const text = exportGedcom(tree);
+      expect(text.startsWith('0 HEAD\n')).toBe(true);
+      expect(text).toContain('2 VERS 5.5.1');
+      expect(text.trim().endsWith('0 TRLR')).toBe(true);
+      expect(text.split('\n').every(line => line.length <= 255)).toBe(true);
+    });
+
+    it('should build families from spouses and their shared children', () => {
+      const text = exportGedcom(tree);
+      expect(text).toContain('0 @F1@ FAM\n1 WIFE @I2@\n1 HUSB @I1@\n1 MARR\n2 DATE 1 MAY 1945\n2 PLAC York Minster');
+      expect(text).toContain('1 FAMC @F1@\n2 PEDI adopted');
+      expect(text).toContain('0 @F2@ FAM\n1 HUSB @I4@\n1 CHIL @I3@');
+    });
+
+    it('should round-trip through importGedcom', () => {
+      const { data, report } = importGedcom(exportGedcom(tree));
+      expect(report.skipped).toEqual([]);
+
+      const byKey = (key: string) => data.members.find(m => m.key === key)!.data;
+      expect(byKey('@I1@')).toMatchObject({ firstName: 'George', lastName: 'Hill', birthPlace: 'Leeds', isLiving: false });
+      expect(byKey('@I2@')).toMatchObject({
+        firstName: 'Ruth', middleName: 'Ann', occupation: 'Nurse', email: 'ruth@example.com',
+        biography: tree.members[1].biography,
+      });
+      expect(byKey('@I3@').gender).toBe('other');
+
+      const spouse = data.relationships.find(r => r.data.type === 'spouse')!;
+      expect(spouse).toMatchObject({ fromKey: '@I2@', toKey: '@I1@', data: { status: 'widowed', notes: 'Met in Leeds' } });
+      expect(spouse.data.endDate?.toISOString().split('T')[0]).toBe('1990-01-01');
+
+      const parents = data.relationships.filter(r => r.data.type === 'parent-child');
+      expect(parents.map(r => [r.fromKey, r.data.subType, r.data.notes ?? null])).toEqual(expect.arrayContaining([
+        ['@I1@', 'adopted', null],
+        ['@I2@', 'adopted', null],
+        ['@I4@', 'step', 'Raised Sam'],
+      ]));
+
+      expect(data.events.map(e => [e.data.type, e.memberKeys, e.data.place ?? null, e.data.description ?? null]))
+        .toEqual(expect.arrayContaining([
+          ['marriage', ['@I2@', '@I1@'], 'York Minster', null],
+          ['move', ['@I1@', '@I2@', '@I3@'], 'Toronto', 'Emigrated together'],
+          ['other', ['@I3@'], null, 'Family reunion'],
+        ]));
+      expect(data.events).toHaveLength(3);
+    });
+
+    it('should round-trip the privacy override', () => {
+      const people = treeOf([
+        member(1, 'Ada', { privacy: 'private' }),
+        member(2, 'Ben', { privacy: 'public' }),
+        member(3, 'Cy'),
+      ]);
+      const { data, report } = importGedcom(exportGedcom(people));
+      expect(report.skipped).toEqual([]);
+      expect(data.members.map(m => m.data.privacy ?? null)).toEqual(['private', 'public', null]);
+    });
+
+    it('should keep a two-word first name apart from the middle name', () => {
+      const people = treeOf([
+        member(1, 'Mary Ann', { lastName: 'Lee' }),
+        member(2, 'Mary Ann', { middleName: 'Rose', lastName: 'Lee' }),
+        member(3, 'John', { middleName: 'Paul George', lastName: 'Lee' }),
+      ]);
+      const text = exportGedcom(people);
+      expect(text).toContain('1 NAME Mary Ann Rose /Lee/\n2 GIVN Mary Ann\n2 _MIDN Rose');
+
+      const { data, report } = importGedcom(text);
+      expect(report.skipped).toEqual([]);
+      expect(data.members.map(m => [m.data.firstName, m.data.middleName ?? null])).toEqual([
+        ['Mary Ann', null],
+        ['Mary Ann', 'Rose'],
+        ['John', 'Paul George'],
+      ]);
+    });
+
+    it('should round-trip the status, dates and notes of parent links', () => {
+      const family = treeOf(
+        [member(1, 'Ada'), member(2, 'Ben'), member(3, 'Cy')],
+        [
+          link('spouse', 1, 2, { id: 1 }),
+          link('parent-child', 1, 3, { id: 2, subType: 'adopted', startDate: '1960-03-04', status: 'deceased', endDate: '1999-12-31', notes: 'Took Cy in' }),
+          link('parent-child', 2, 3, { id: 3, subType: 'adopted', startDate: '1960-03-04', startDateText: 'ABT 1960' }),
+        ]
+      );
+      const { data, report } = importGedcom(exportGedcom(family));
+      expect(report.skipped).toEqual([]);
+
+      const parentOf = (key: string) => data.relationships.find(r => r.fromKey === key && r.data.type === 'parent-child')!.data;
+      expect(parentOf('@I1@')).toMatchObject({ subType: 'adopted', status: 'deceased', notes: 'Took Cy in' });
+      expect(parentOf('@I1@').startDate?.toISOString().split('T')[0]).toBe('1960-03-04');
+      expect(parentOf('@I1@').endDate?.toISOString().split('T')[0]).toBe('1999-12-31');
+      expect(parentOf('@I2@')).toMatchObject({ subType: 'adopted', status: 'active', startDateText: 'ABT 1960' });
+      expect(parentOf('@I2@').endDate ?? null).toBeNull();
+    });
+  });
+});
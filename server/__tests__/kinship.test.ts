@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { findKinship, nameBloodRelationship } from '../kinship';
+import type { FamilyTreeData } from '@shared/schema';
+import { member, link, parentOf } from './fixtures';
+
+// Adam and Eve's children Bob and Carol start two lines of descendants;
+// Bob also has a daughter, Iris, with his former wife Jill.
+const tree: FamilyTreeData = {
+  members: [
+    member(1, 'Adam', { gender: 'male' }), member(2, 'Eve', { gender: 'female' }),
+    member(3, 'Bob', { gender: 'male' }), member(4, 'Carol', { gender: 'female' }),
+    member(5, 'Beth', { gender: 'female' }), member(6, 'Dan', { gender: 'male' }),
+    member(7, 'Carl', { gender: 'male' }), member(8, 'Ella', { gender: 'female' }),
+    member(9, 'Finn', { gender: 'male' }), member(10, 'Gina', { gender: 'female' }),
+    member(11, 'Hal', { gender: 'male' }), member(12, 'Iris', { gender: 'female' }),
+    member(13, 'Jill', { gender: 'female' }), member(14, 'Zed', { gender: 'male' }),
+    member(15, 'Kit', { gender: 'unknown' }),
+  ],
+  relationships: [
+    link('spouse', 1, 2),
+    ...parentOf([1, 2], 3),
+    ...parentOf([1, 2], 4),
+    link('spouse', 3, 5),
+    link('spouse', 3, 13, { status: 'divorced' }),
+    ...parentOf([3, 5], 6),
+    ...parentOf([3, 13], 12),
+    link('spouse', 7, 4),
+    ...parentOf([4, 7], 8),
+    ...parentOf([6], 9),
+    ...parentOf([8], 10),
+    ...parentOf([10], 11),
+    link('parent-child', 13, 15, { subType: 'foster' }),
+  ],
+  events: [],
+};
+
+const labelOf = (a: number, b: number) => findKinship(tree, a, b).label;
+
+describe('Kinship', () => {
+  describe('nameBloodRelationship', () => {
+    it('should name lineal relatives', () => {
+      expect(nameBloodRelationship(0, 1, false, 'female')).toBe('daughter');
+      expect(nameBloodRelationship(0, 4, false, 'male')).toBe('great-great-grandson');
+      expect(nameBloodRelationship(2, 0, false, 'unknown')).toBe('grandparent');
+    });
+
+    it('should name collateral relatives', () => {
+      expect(nameBloodRelationship(1, 2, false, 'female')).toBe('niece');
+      expect(nameBloodRelationship(3, 1, false, 'male')).toBe('great-uncle');
+      expect(nameBloodRelationship(4, 2, false, 'male')).toBe('first cousin twice removed');
+      expect(nameBloodRelationship(3, 3, true, null)).toBe('half second cousin');
+    });
+  });
+
+  describe('findKinship', () => {
+    it('should describe blood relatives through their common ancestors', () => {
+      expect(labelOf(1, 9)).toBe('great-grandson');
+      expect(labelOf(9, 1)).toBe('great-grandfather');
+      expect(labelOf(9, 4)).toBe('great-aunt');
+      expect(labelOf(9, 10)).toBe('second cousin');
+      expect(labelOf(9, 11)).toBe('second cousin once removed');
+    });
+
+    it('should recognise half-siblings', () => {
+      expect(labelOf(6, 12)).toBe('half-sister');
+    });
+
+    it('should return the connecting path and edges', () => {
+      const kinship = findKinship(tree, 9, 4);
+
+      expect(kinship.path).toEqual([9, 6, 3, 1, 4]);
+      expect(kinship.commonAncestorIds).toEqual([1, 2]);
+      expect(kinship.relationshipIds).toHaveLength(4);
+      expect(kinship.description).toBe("Carol is Finn's great-aunt");
+    });
+
+    it('should describe spouses and step family', () => {
+      expect(labelOf(3, 13)).toBe('ex-wife');
+      expect(labelOf(6, 13)).toBe('stepmother');
+      expect(labelOf(13, 6)).toBe('stepson');
+      expect(labelOf(13, 15)).toBe('foster child');
+    });
+
+    it('should describe in-laws', () => {
+      expect(labelOf(5, 1)).toBe('father-in-law');
+      expect(labelOf(1, 5)).toBe('daughter-in-law');
+      expect(labelOf(5, 4)).toBe('sister-in-law');
+      expect(labelOf(3, 7)).toBe('brother-in-law');
+      expect(labelOf(6, 7)).toBe('uncle by marriage');
+    });
+
+    it('should report members with no connection', () => {
+      const kinship = findKinship(tree, 9, 14);
+
+      expect(kinship.label).toBeNull();
+      expect(kinship.path).toEqual([]);
+      expect(kinship.description).toBe('Zed and Finn are not related in this tree');
+    });
+
+    it('should reject unknown members', () => {
+      expect(() => findKinship(tree, 1, 99)).toThrow('Family member not found');
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { computeLayout, CARD_WIDTH, CARD_HEIGHT, X_SPACING, Y_SPACING } from '../layout';
+import type { MemberPosition } from '@shared/schema';
+import { member, link, parentOf, treeOf } from './fixtures';
+
+const ROW = CARD_HEIGHT + Y_SPACING;
+
+const byId = (positions: MemberPosition[]) => new Map(positions.map(p => [p.memberId, p]));
+
+// Cards on the same row must keep at least the spacing between them
+function expectNoOverlaps(positions: MemberPosition[]) {
+  for (const a of positions) {
+    for (const b of positions) {
+      if (a.memberId < b.memberId && a.y === b.y) {
+        expect(Math.abs(a.x - b.x)).toBeGreaterThanOrEqual(CARD_WIDTH + X_SPACING);
+      }
+    }
+  }
+}
+
+describe('Layout', () => {
+  // Ann and Bob's children Cal (1952) and Dee (1950); Cal married Eve and
+  // they have Fay and Gil. Dee has a large family of her own.
+  const family = treeOf(
+    [
+      member(1, 'Ann'), member(2, 'Bob'), member(3, 'Cal', { birthDateText: '1952' }), member(4, 'Dee', { birthDateText: '1950' }),
+      member(5, 'Eve'), member(6, 'Fay'), member(7, 'Gil'),
+      member(8, 'Hal'), member(9, 'Ida'), member(10, 'Jon'), member(11, 'Kim'),
+    ],
+    [
+      link('spouse', 1, 2),
+      ...parentOf([1, 2], 3),
+      ...parentOf([1, 2], 4),
+      link('spouse', 3, 5),
+      ...parentOf([3, 5], 6),
+      ...parentOf([3, 5], 7),
+      ...parentOf([4], 8),
+      ...parentOf([4], 9),
+      ...parentOf([4], 10),
+      ...parentOf([4], 11),
+    ]
+  );
+  const positions = computeLayout(family);
+  const at = byId(positions);
+
+  it('places every member once with the top left card at the origin', () => {
+    expect(positions.map(p => p.memberId)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
+    expect(Math.min(...positions.map(p => p.x))).toBe(0);
+    expect(Math.min(...positions.map(p => p.y))).toBe(0);
+  });
+
+  it('puts each generation on its own row', () => {
+    expect([1, 2].map(id => at.get(id)!.y)).toEqual([0, 0]);
+    expect([3, 4, 5].map(id => at.get(id)!.y)).toEqual([ROW, ROW, ROW]);
+    expect([6, 7, 8, 9, 10, 11].map(id => at.get(id)!.y)).toEqual(Array(6).fill(2 * ROW));
+  });
+
+  it('keeps spouses side by side and siblings in birth order', () => {
+    expect(Math.abs(at.get(1)!.x - at.get(2)!.x)).toBe(CARD_WIDTH + X_SPACING);
+    expect(Math.abs(at.get(3)!.x - at.get(5)!.x)).toBe(CARD_WIDTH + X_SPACING);
+    expect(at.get(4)!.x).toBeLessThan(at.get(3)!.x);
+  });
+
+  it('centres parents over their children without overlapping subtrees', () => {
+    expectNoOverlaps(positions);
+    const dee = at.get(4)!.x;
+    const deeChildren = [8, 9, 10, 11].map(id => at.get(id)!.x);
+    expect(dee).toBe((Math.min(...deeChildren) + Math.max(...deeChildren)) / 2);
+  });
+
+  it('puts the first marriage on the left and each marriage over its children', () => {
+    const tree = treeOf(
+      [member(1, 'Pat'), member(2, 'Sue'), member(3, 'Tia'), member(4, 'Uma'), member(5, 'Val')],
+      [
+        link('spouse', 1, 2),
+        link('spouse', 1, 3),
+        ...parentOf([1, 2], 4),
+        ...parentOf([1, 3], 5),
+      ]
+    );
+    const layout = byId(computeLayout(tree));
+    expect(layout.get(2)!.x).toBeLessThan(layout.get(1)!.x);
+    expect(layout.get(3)!.x).toBeGreaterThan(layout.get(1)!.x);
+    expect(layout.get(4)!.x).toBeLessThan(layout.get(5)!.x);
+  });
+
+  it('lines up families joined by a marriage and keeps them apart', () => {
+    // Ray's grandson Wes marries Zoe, a daughter of Xan and Yul
+    const tree = treeOf(
+      [
+        member(1, 'Ray'), member(2, 'Sam'), member(3, 'Wes'),
+        member(4, 'Xan'), member(5, 'Yul'), member(6, 'Zoe'),
+      ],
+      [
+        ...parentOf([1], 2),
+        ...parentOf([2], 3),
+        link('spouse', 4, 5),
+        ...parentOf([4, 5], 6),
+        link('spouse', 3, 6),
+      ]
+    );
+    const positions = computeLayout(tree);
+    const layout = byId(positions);
+    expect(layout.get(6)!.y).toBe(layout.get(3)!.y);
+    expect(layout.get(4)!.y).toBe(ROW);
+    expectNoOverlaps(positions);
+  });
+
+  it('still places people caught in a parent-child loop', () => {
+    const tree = treeOf(
+      [member(1, 'Ada'), member(2, 'Ben')],
+      [...parentOf([1], 2), ...parentOf([2], 1)]
+    );
+    expect(computeLayout(tree).map(p => p.memberId)).toEqual([1, 2]);
+  });
+
+  it('returns nothing for an empty tree', () => {
+    expect(computeLayout(treeOf([], []))).toEqual([]);
+  });
+});
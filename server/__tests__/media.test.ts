@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+
+// The media directory is read when the module loads, so point it at a
+// temporary directory first
+const mediaDir = fs.mkdtempSync(path.join(os.tmpdir(), 'family-tree-media-'));
+process.env.MEDIA_DIR = mediaDir;
+const { saveMediaFile, removeMediaFiles, mediaFilePath, thumbnailFilePath } = await import('../media');
+
+describe('Media files', () => {
+  let png: Buffer;
+
+  beforeAll(async () => {
+    png = await sharp({
+      create: { width: 640, height: 480, channels: 3, background: { r: 200, g: 120, b: 40 } }
+    }).png().toBuffer();
+  });
+
+  afterAll(() => {
+    fs.rmSync(mediaDir, { recursive: true, force: true });
+  });
+
+  it('should store images with their size and a square thumbnail', async () => {
+    const saved = await saveMediaFile({ buffer: png, originalname: 'grandma.png', mimetype: 'image/png' });
+
+    expect(saved).toMatchObject({ originalName: 'grandma.png', mimeType: 'image/png', width: 640, height: 480 });
+    expect(saved.fileName).toMatch(/\.png$/);
+    expect(fs.readFileSync(mediaFilePath(saved.fileName))).toEqual(png);
+    const thumbnail = await sharp(thumbnailFilePath(saved.thumbnailFileName!)).metadata();
+    expect([thumbnail.format, thumbnail.width, thumbnail.height]).toEqual(['webp', 256, 256]);
+
+    await removeMediaFiles(saved);
+    expect(fs.existsSync(mediaFilePath(saved.fileName))).toBe(false);
+    expect(fs.existsSync(thumbnailFilePath(saved.thumbnailFileName!))).toBe(false);
+  });
+
+  it('should store documents without a thumbnail', async () => {
+    const pdf = Buffer.from('%PDF-1.4\n%%EOF\n');
+    const saved = await saveMediaFile({ buffer: pdf, originalname: 'will.pdf', mimetype: 'application/pdf' });
+
+    expect(saved).toMatchObject({ size: pdf.length, width: null, height: null, thumbnailFileName: null });
+  });
+
+  it('should refuse unsupported types and unreadable images', async () => {
+    await expect(saveMediaFile({ buffer: png, originalname: 'x.svg', mimetype: 'image/svg+xml' }))
+      .rejects.toThrow('Unsupported file type');
+    await expect(saveMediaFile({ buffer: Buffer.from('nope'), originalname: 'x.jpg', mimetype: 'image/jpeg' }))
+      .rejects.toThrow();
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isPresumedLiving, isPrivate, redactFamilyTree, redactPrimaryPhotos, redactMedia, redactCitations, redactAuditLog
+} from '@shared/privacy';
+import { member, link, event, citation, mediaItem, auditEntry, treeOf } from './fixtures';
+
+const TODAY = new Date('2024-06-01');
+
+describe('isPresumedLiving', () => {
+  it('should trust members marked living', () => {
+    expect(isPresumedLiving(member(1, 'Ann', { isLiving: true, birthDate: '1850-01-01' }), TODAY)).toBe(true);
+  });
+
+  it('should presume anyone born within 100 years without a death date is living', () => {
+    expect(isPresumedLiving(member(1, 'Ann', { birthDate: '1930-01-01' }), TODAY)).toBe(true);
+    expect(isPresumedLiving(member(2, 'Ben', { birthDate: '1920-01-01' }), TODAY)).toBe(false);
+    expect(isPresumedLiving(member(3, 'Cal', { birthDate: '1930-01-01', deathDate: '2001-01-01' }), TODAY)).toBe(false);
+    expect(isPresumedLiving(member(4, 'Dot', { birthDate: '1930-01-01', deathDateText: 'BEF 2000' }), TODAY)).toBe(false);
+    expect(isPresumedLiving(member(5, 'Eve'), TODAY)).toBe(false);
+  });
+
+  it('should read inexact birth dates at their latest', () => {
+    expect(isPresumedLiving(member(1, 'Ann', { birthDate: '1920-01-01', birthDateText: 'BET 1920 AND 1930' }), TODAY))
+      .toBe(true);
+  });
+});
+
+describe('isPrivate', () => {
+  it('should let the member override win', () => {
+    expect(isPrivate(member(1, 'Ann', { isLiving: true, privacy: 'public' }), TODAY)).toBe(false);
+    expect(isPrivate(member(2, 'Ben', { birthDate: '1800-01-01', privacy: 'private' }), TODAY)).toBe(true);
+    expect(isPrivate(member(3, 'Cal', { isLiving: true }), TODAY)).toBe(true);
+  });
+});
+
+describe('redactFamilyTree', () => {
+  it('should hide living members and the details of their relationships and events', () => {
+    const data = treeOf(
+      [
+        member(1, 'Ann', {
+          isLiving: true, birthDate: '1980-02-03', birthPlace: 'Leeds', email: 'ann@example.com',
+          biography: 'Teacher', photoUrl: '/ann.jpg', middleName: 'May', occupation: 'Teacher',
+        }),
+        member(2, 'Ben', { birthDate: '1880-01-01', deathDate: '1950-01-01', birthPlace: 'York' }),
+      ],
+      [link('spouse', 1, 2, { startDate: '2000-06-01', notes: 'Met at school' })],
+      [event('move', [1], { date: '2005-01-01', place: 'Leeds', description: 'New job' }), event('move', [2], { place: 'York' })]
+    );
+
+    const redacted = redactFamilyTree(data, TODAY);
+
+    expect(redacted.members[0]).toEqual(member(1, 'Living', { isLiving: true }));
+    expect(redacted.members[1]).toEqual(data.members[1]);
+    expect(redacted.relationships[0]).toMatchObject({ type: 'spouse', startDate: null, notes: null });
+    expect(redacted.events[0]).toMatchObject({ date: null, place: null, description: null, memberIds: [1] });
+    expect(redacted.events[1]).toEqual(data.events[1]);
+  });
+
+  it('should leave a tree of the long dead alone', () => {
+    const data = treeOf([member(1, 'Ben', { birthDate: '1880-01-01', deathDate: '1950-01-01' })]);
+    expect(redactFamilyTree(data, TODAY)).toBe(data);
+  });
+});
+
+describe('redactPrimaryPhotos', () => {
+  it('should drop the photos of private members', () => {
+    const members = [member(1, 'Ann', { isLiving: true }), member(2, 'Ben')];
+    expect(redactPrimaryPhotos({ 1: 10, 2: 20 }, members, TODAY)).toEqual({ 2: 20 });
+  });
+});
+
+describe('redactMedia', () => {
+  it('should leave out media of private members and their events', () => {
+    const tree = treeOf(
+      [member(1, 'Ann', { isLiving: true }), member(2, 'Ben')],
+      [],
+      [event('move', [1, 2], { id: 1 }), event('burial', [2], { id: 2 })]
+    );
+    const items = [
+      mediaItem(1, { memberIds: [1] }),
+      mediaItem(2, { memberIds: [2] }),
+      mediaItem(3, { eventIds: [1] }),
+      mediaItem(4, { eventIds: [2] }),
+      mediaItem(5),
+    ];
+    expect(redactMedia(items, tree, TODAY).map(m => m.id)).toEqual([2, 4, 5]);
+  });
+});
+
+describe('redactCitations', () => {
+  it('should leave out citations about private members, their relationships and their events', () => {
+    const tree = treeOf(
+      [member(1, 'Ann', { isLiving: true }), member(2, 'Ben'), member(3, 'Cal')],
+      [link('spouse', 1, 2, { id: 1 }), link('spouse', 2, 3, { id: 2 })],
+      [event('move', [1], { id: 1 }), event('move', [3], { id: 2 })]
+    );
+    const citations = [
+      citation(1, 1, { memberId: 1 }),
+      citation(2, 1, { memberId: 2 }),
+      citation(3, 1, { relationshipId: 1 }),
+      citation(4, 1, { relationshipId: 2 }),
+      citation(5, 1, { eventId: 1 }),
+      citation(6, 1, { eventId: 2 }),
+    ];
+    expect(redactCitations(citations, tree, TODAY).map(c => c.id)).toEqual([2, 4, 6]);
+  });
+});
+
+describe('redactAuditLog', () => {
+  it('should drop the changed values of entries about private or deleted members', () => {
+    const changes = { birthPlace: { before: null, after: 'Leeds' } };
+    const entries = [
+      auditEntry(1, [1], { changes }),
+      auditEntry(2, [2], { changes }),
+      auditEntry(3, [2, 9], { changes }),
+      auditEntry(4, [], { entityType: 'source', changes }),
+    ];
+    const redacted = redactAuditLog(entries, [member(1, 'Ann', { isLiving: true }), member(2, 'Ben')], TODAY);
+    expect(redacted.map(e => e.changes)).toEqual([{}, changes, {}, changes]);
+    expect(redacted[0]).toMatchObject({ id: 1, action: 'update', memberIds: [1] });
+  });
+});
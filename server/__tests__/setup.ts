@@ -21,27 +21,52 @@ function getDatabaseName(url: string): string {
 async function runMigrations(db: ReturnType<typeof drizzle>) {
   // Drop everything first to ensure clean state
   await db.execute(sql`
+    DROP TABLE IF EXISTS share_links CASCADE;
+    DROP TABLE IF EXISTS change_proposals CASCADE;
+    DROP TABLE IF EXISTS tree_members CASCADE;
+    DROP TABLE IF EXISTS users CASCADE;
+    DROP TABLE IF EXISTS audit_log CASCADE;
+    DROP TABLE IF EXISTS change_log CASCADE;
+    DROP TABLE IF EXISTS event_media CASCADE;
+    DROP TABLE IF EXISTS member_media CASCADE;
+    DROP TABLE IF EXISTS media CASCADE;
+    DROP TABLE IF EXISTS citations CASCADE;
+    DROP TABLE IF EXISTS sources CASCADE;
     DROP TABLE IF EXISTS family_events CASCADE;
     DROP TABLE IF EXISTS relationships CASCADE;
     DROP TABLE IF EXISTS family_members CASCADE;
+    DROP TABLE IF EXISTS trees CASCADE;
   `);
   
   // Create tables and indexes
   await db.execute(sql`
+    CREATE TABLE trees (
+      id SERIAL PRIMARY KEY,
+      name VARCHAR(100) NOT NULL,
+      description TEXT,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+
     CREATE TABLE family_members (
       id SERIAL PRIMARY KEY,
+      tree_id INTEGER NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
       first_name VARCHAR(100) NOT NULL,
       middle_name VARCHAR(100),
       last_name VARCHAR(100),
       gender VARCHAR(50),
       birth_date DATE,
+      birth_date_text VARCHAR(100),
       birth_place VARCHAR(255),
       death_date DATE,
+      death_date_text VARCHAR(100),
       death_place VARCHAR(255),
       occupation VARCHAR(255),
       biography TEXT,
       photo_url VARCHAR(500),
       is_living BOOLEAN DEFAULT true,
+      email VARCHAR(255),
+      privacy VARCHAR(20),
       x REAL NOT NULL DEFAULT 0,
       y REAL NOT NULL DEFAULT 0,
       created_at TIMESTAMP DEFAULT NOW(),
@@ -53,12 +78,15 @@ async function runMigrations(db: ReturnType<typeof drizzle>) {
 
     CREATE TABLE relationships (
       id SERIAL PRIMARY KEY,
+      tree_id INTEGER NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
       from_member_id INTEGER NOT NULL REFERENCES family_members(id) ON DELETE CASCADE,
       to_member_id INTEGER NOT NULL REFERENCES family_members(id) ON DELETE CASCADE,
       type VARCHAR(50) NOT NULL,
       sub_type VARCHAR(50),
       start_date DATE,
+      start_date_text VARCHAR(100),
       end_date DATE,
+      end_date_text VARCHAR(100),
       status VARCHAR(50) DEFAULT 'active',
       notes TEXT,
       created_at TIMESTAMP DEFAULT NOW(),
@@ -71,8 +99,10 @@ async function runMigrations(db: ReturnType<typeof drizzle>) {
 
     CREATE TABLE family_events (
       id SERIAL PRIMARY KEY,
+      tree_id INTEGER NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
       type VARCHAR(50) NOT NULL,
       date DATE,
+      date_text VARCHAR(100),
       place VARCHAR(255),
       description TEXT,
       member_ids INTEGER[] NOT NULL,
@@ -82,6 +112,144 @@ async function runMigrations(db: ReturnType<typeof drizzle>) {
     
     CREATE INDEX family_events_date_idx ON family_events (date);
     CREATE INDEX family_events_type_idx ON family_events (type);
+
+    CREATE TABLE sources (
+      id SERIAL PRIMARY KEY,
+      tree_id INTEGER NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
+      title VARCHAR(255) NOT NULL,
+      author VARCHAR(255),
+      publication TEXT,
+      repository VARCHAR(255),
+      url VARCHAR(500),
+      notes TEXT,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+
+    CREATE TABLE citations (
+      id SERIAL PRIMARY KEY,
+      source_id INTEGER NOT NULL REFERENCES sources(id) ON DELETE CASCADE,
+      member_id INTEGER REFERENCES family_members(id) ON DELETE CASCADE,
+      relationship_id INTEGER REFERENCES relationships(id) ON DELETE CASCADE,
+      event_id INTEGER REFERENCES family_events(id) ON DELETE CASCADE,
+      field VARCHAR(50),
+      page VARCHAR(255),
+      quality INTEGER,
+      transcription TEXT,
+      accessed_at DATE,
+      notes TEXT,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+
+    CREATE INDEX citations_source_idx ON citations (source_id);
+    CREATE INDEX citations_member_idx ON citations (member_id);
+    CREATE INDEX citations_relationship_idx ON citations (relationship_id);
+    CREATE INDEX citations_event_idx ON citations (event_id);
+
+    CREATE TABLE media (
+      id SERIAL PRIMARY KEY,
+      tree_id INTEGER NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
+      file_name VARCHAR(255) NOT NULL,
+      original_name VARCHAR(255) NOT NULL,
+      mime_type VARCHAR(100) NOT NULL,
+      size INTEGER NOT NULL,
+      width INTEGER,
+      height INTEGER,
+      thumbnail_file_name VARCHAR(255),
+      caption TEXT,
+      date DATE,
+      date_text VARCHAR(100),
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+
+    CREATE TABLE member_media (
+      member_id INTEGER NOT NULL REFERENCES family_members(id) ON DELETE CASCADE,
+      media_id INTEGER NOT NULL REFERENCES media(id) ON DELETE CASCADE,
+      is_primary BOOLEAN NOT NULL DEFAULT FALSE,
+      created_at TIMESTAMP DEFAULT NOW(),
+      PRIMARY KEY (member_id, media_id)
+    );
+
+    CREATE TABLE event_media (
+      event_id INTEGER NOT NULL REFERENCES family_events(id) ON DELETE CASCADE,
+      media_id INTEGER NOT NULL REFERENCES media(id) ON DELETE CASCADE,
+      created_at TIMESTAMP DEFAULT NOW(),
+      PRIMARY KEY (event_id, media_id)
+    );
+
+    CREATE INDEX member_media_media_idx ON member_media (media_id);
+    CREATE INDEX event_media_media_idx ON event_media (media_id);
+
+    CREATE TABLE change_log (
+      id SERIAL PRIMARY KEY,
+      tree_id INTEGER NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
+      description TEXT NOT NULL,
+      before JSONB NOT NULL,
+      after JSONB NOT NULL,
+      undone BOOLEAN NOT NULL DEFAULT false,
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+
+    CREATE TABLE audit_log (
+      id SERIAL PRIMARY KEY,
+      tree_id INTEGER NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
+      entity_type VARCHAR(20) NOT NULL,
+      entity_id INTEGER,
+      action VARCHAR(20) NOT NULL,
+      member_ids INTEGER[] NOT NULL,
+      changes JSONB NOT NULL,
+      actor TEXT,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX audit_log_entity_idx ON audit_log (entity_type, entity_id);
+
+    CREATE TABLE users (
+      id SERIAL PRIMARY KEY,
+      username VARCHAR(50) NOT NULL,
+      password_hash TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+
+    CREATE UNIQUE INDEX users_username_idx ON users (lower(username));
+
+    CREATE TABLE tree_members (
+      tree_id INTEGER NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      role VARCHAR(20) NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW(),
+      PRIMARY KEY (tree_id, user_id)
+    );
+
+    CREATE TABLE change_proposals (
+      id SERIAL PRIMARY KEY,
+      tree_id INTEGER NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
+      proposed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      entity_type VARCHAR(20) NOT NULL,
+      action VARCHAR(20) NOT NULL,
+      entity_id INTEGER,
+      data JSONB,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending',
+      reviewed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      reviewed_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+
+    CREATE TABLE share_links (
+      id SERIAL PRIMARY KEY,
+      tree_id INTEGER NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
+      token VARCHAR(64) NOT NULL,
+      label VARCHAR(100),
+      password_hash TEXT,
+      expires_at TIMESTAMP,
+      created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+
+    CREATE UNIQUE INDEX share_links_token_idx ON share_links (token);
+    CREATE INDEX share_links_tree_idx ON share_links (tree_id);
   `);
 }
 
@@ -106,24 +274,49 @@ export async function resetDatabase() {
   try {
     const db = drizzle(queryClient);
     await db.execute(sql`
+      DROP TABLE IF EXISTS share_links CASCADE;
+      DROP TABLE IF EXISTS change_proposals CASCADE;
+      DROP TABLE IF EXISTS tree_members CASCADE;
+      DROP TABLE IF EXISTS users CASCADE;
+      DROP TABLE IF EXISTS audit_log CASCADE;
+      DROP TABLE IF EXISTS change_log CASCADE;
+      DROP TABLE IF EXISTS event_media CASCADE;
+      DROP TABLE IF EXISTS member_media CASCADE;
+      DROP TABLE IF EXISTS media CASCADE;
+      DROP TABLE IF EXISTS citations CASCADE;
+      DROP TABLE IF EXISTS sources CASCADE;
       DROP TABLE IF EXISTS family_events CASCADE;
       DROP TABLE IF EXISTS relationships CASCADE;
       DROP TABLE IF EXISTS family_members CASCADE;
+      DROP TABLE IF EXISTS trees CASCADE;
       
+      CREATE TABLE trees (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(100) NOT NULL,
+        description TEXT,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+
       CREATE TABLE family_members (
         id SERIAL PRIMARY KEY,
+        tree_id INTEGER NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
         first_name VARCHAR(100) NOT NULL,
         middle_name VARCHAR(100),
         last_name VARCHAR(100),
         gender VARCHAR(50),
         birth_date DATE,
+        birth_date_text VARCHAR(100),
         birth_place VARCHAR(255),
         death_date DATE,
+        death_date_text VARCHAR(100),
         death_place VARCHAR(255),
         occupation VARCHAR(255),
         biography TEXT,
         photo_url VARCHAR(500),
         is_living BOOLEAN DEFAULT true,
+        email VARCHAR(255),
+        privacy VARCHAR(20),
         x REAL NOT NULL DEFAULT 0,
         y REAL NOT NULL DEFAULT 0,
         created_at TIMESTAMP DEFAULT NOW(),
@@ -132,12 +325,15 @@ export async function resetDatabase() {
 
       CREATE TABLE relationships (
         id SERIAL PRIMARY KEY,
+        tree_id INTEGER NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
         from_member_id INTEGER NOT NULL REFERENCES family_members(id) ON DELETE CASCADE,
         to_member_id INTEGER NOT NULL REFERENCES family_members(id) ON DELETE CASCADE,
         type VARCHAR(50) NOT NULL,
         sub_type VARCHAR(50),
         start_date DATE,
+        start_date_text VARCHAR(100),
         end_date DATE,
+        end_date_text VARCHAR(100),
         status VARCHAR(50) DEFAULT 'active',
         notes TEXT,
         created_at TIMESTAMP DEFAULT NOW(),
@@ -147,14 +343,144 @@ export async function resetDatabase() {
 
       CREATE TABLE family_events (
         id SERIAL PRIMARY KEY,
+        tree_id INTEGER NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
         type VARCHAR(50) NOT NULL,
         date DATE,
+        date_text VARCHAR(100),
         place VARCHAR(255),
         description TEXT,
         member_ids INTEGER[] NOT NULL,
         created_at TIMESTAMP DEFAULT NOW(),
         updated_at TIMESTAMP DEFAULT NOW()
       );
+
+      CREATE TABLE sources (
+        id SERIAL PRIMARY KEY,
+        tree_id INTEGER NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
+        title VARCHAR(255) NOT NULL,
+        author VARCHAR(255),
+        publication TEXT,
+        repository VARCHAR(255),
+        url VARCHAR(500),
+        notes TEXT,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+
+      CREATE TABLE citations (
+        id SERIAL PRIMARY KEY,
+        source_id INTEGER NOT NULL REFERENCES sources(id) ON DELETE CASCADE,
+        member_id INTEGER REFERENCES family_members(id) ON DELETE CASCADE,
+        relationship_id INTEGER REFERENCES relationships(id) ON DELETE CASCADE,
+        event_id INTEGER REFERENCES family_events(id) ON DELETE CASCADE,
+        field VARCHAR(50),
+        page VARCHAR(255),
+        quality INTEGER,
+        transcription TEXT,
+        accessed_at DATE,
+        notes TEXT,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+
+      CREATE TABLE media (
+        id SERIAL PRIMARY KEY,
+        tree_id INTEGER NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
+        file_name VARCHAR(255) NOT NULL,
+        original_name VARCHAR(255) NOT NULL,
+        mime_type VARCHAR(100) NOT NULL,
+        size INTEGER NOT NULL,
+        width INTEGER,
+        height INTEGER,
+        thumbnail_file_name VARCHAR(255),
+        caption TEXT,
+        date DATE,
+        date_text VARCHAR(100),
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+
+      CREATE TABLE member_media (
+        member_id INTEGER NOT NULL REFERENCES family_members(id) ON DELETE CASCADE,
+        media_id INTEGER NOT NULL REFERENCES media(id) ON DELETE CASCADE,
+        is_primary BOOLEAN NOT NULL DEFAULT FALSE,
+        created_at TIMESTAMP DEFAULT NOW(),
+        PRIMARY KEY (member_id, media_id)
+      );
+
+      CREATE TABLE event_media (
+        event_id INTEGER NOT NULL REFERENCES family_events(id) ON DELETE CASCADE,
+        media_id INTEGER NOT NULL REFERENCES media(id) ON DELETE CASCADE,
+        created_at TIMESTAMP DEFAULT NOW(),
+        PRIMARY KEY (event_id, media_id)
+      );
+
+      CREATE TABLE change_log (
+        id SERIAL PRIMARY KEY,
+        tree_id INTEGER NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
+        description TEXT NOT NULL,
+        before JSONB NOT NULL,
+        after JSONB NOT NULL,
+        undone BOOLEAN NOT NULL DEFAULT false,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+
+      CREATE TABLE audit_log (
+        id SERIAL PRIMARY KEY,
+        tree_id INTEGER NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
+        entity_type VARCHAR(20) NOT NULL,
+        entity_id INTEGER,
+        action VARCHAR(20) NOT NULL,
+        member_ids INTEGER[] NOT NULL,
+        changes JSONB NOT NULL,
+        actor TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE users (
+        id SERIAL PRIMARY KEY,
+        username VARCHAR(50) NOT NULL,
+        password_hash TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+
+      CREATE UNIQUE INDEX users_username_idx ON users (lower(username));
+
+      CREATE TABLE tree_members (
+        tree_id INTEGER NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        role VARCHAR(20) NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        PRIMARY KEY (tree_id, user_id)
+      );
+
+      CREATE TABLE change_proposals (
+        id SERIAL PRIMARY KEY,
+        tree_id INTEGER NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
+        proposed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        entity_type VARCHAR(20) NOT NULL,
+        action VARCHAR(20) NOT NULL,
+        entity_id INTEGER,
+        data JSONB,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        reviewed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        reviewed_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+
+      CREATE TABLE share_links (
+        id SERIAL PRIMARY KEY,
+        tree_id INTEGER NOT NULL REFERENCES trees(id) ON DELETE CASCADE,
+        token VARCHAR(64) NOT NULL,
+        label VARCHAR(100),
+        password_hash TEXT,
+        expires_at TIMESTAMP,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+
+      CREATE UNIQUE INDEX share_links_token_idx ON share_links (token);
+      CREATE INDEX share_links_tree_idx ON share_links (tree_id);
     `);
   } finally {
     await queryClient.end();
@@ -1,8 +1,9 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { PostgresStorage } from '../storage';
+import { PostgresStorage, RelationshipRuleError } from '../storage';
 import { resetDatabase } from './setup';
+import { runAs } from '../audit';
 import { sql } from 'drizzle-orm';
-import type { InsertFamilyMember, InsertRelationship, InsertFamilyEvent } from '@shared/schema';
+import type { InsertFamilyMember, InsertRelationship, InsertFamilyEvent, User } from '@shared/schema';
 import postgres from 'postgres';
 import { drizzle } from 'drizzle-orm/postgres-js';
 
@@ -22,10 +23,14 @@ const queryClient = postgres(process.env.DATABASE_URL || '', {
 const testDb = drizzle(queryClient);
 
 describe('PostgresStorage', () => {
-  const storage = new PostgresStorage(testDb);
+  const unscoped = new PostgresStorage(testDb);
+  let storage: PostgresStorage;
+  let owner: User;
 
   beforeEach(async () => {
     await resetDatabase();
+    owner = await unscoped.createUser({ username: 'owner', passwordHash: 'hash.salt' });
+    storage = unscoped.forTree((await unscoped.createTree({ name: 'Test Tree' }, owner.id)).id);
   });
 
   describe('Family Members', () => {
@@ -67,6 +72,24 @@ describe('PostgresStorage', () => {
         .rejects.toThrow('Family member not found');
     });
 
+    it('should update many positions together or not at all', async () => {
+      const jane = await storage.createFamilyMember({ firstName: 'Jane', gender: 'female', x: 0, y: 0 });
+      const john = await storage.createFamilyMember({ firstName: 'John', gender: 'male', x: 0, y: 0 });
+
+      const updated = await storage.updateFamilyMemberPositions([
+        { memberId: jane.id, x: 10, y: 20 },
+        { memberId: john.id, x: 30, y: 40 },
+      ]);
+      expect(updated.map(m => [m.x, m.y])).toEqual([[10, 20], [30, 40]]);
+
+      await expect(storage.updateFamilyMemberPositions([
+        { memberId: jane.id, x: 500, y: 500 },
+        { memberId: 999, x: 0, y: 0 },
+      ])).rejects.toThrow('Family member not found');
+      const tree = await storage.getFamilyTree();
+      expect(tree.members.find(m => m.id === jane.id)).toMatchObject({ x: 10, y: 20 });
+    });
+
     describe('Delete Family Member', () => {
       it('should delete a family member and their relationships', async () => {
         // Create a family structure
@@ -193,6 +216,34 @@ describe('PostgresStorage', () => {
           .rejects.toThrow('Family member not found');
       });
     });
+
+    describe('Inexact Dates', () => {
+      it('should store the GEDCOM form with a sortable date', async () => {
+        const member = await storage.createFamilyMember({
+          firstName: 'Ann', birthDateText: 'between 1848 and 1852', isLiving: false, x: 0, y: 0
+        });
+
+        expect(member.birthDateText).toBe('BET 1848 AND 1852');
+        expect(member.birthDate?.toISOString().split('T')[0]).toBe('1848-01-01');
+      });
+
+      it('should drop the text for exact days and when the date is set directly', async () => {
+        const member = await storage.createFamilyMember({
+          firstName: 'Ann', birthDateText: 'ABT 1850', isLiving: true, x: 0, y: 0
+        });
+
+        const exact = await storage.updateFamilyMember(member.id, { birthDateText: '12 Mar 1851' });
+        expect(exact.birthDateText).toBeNull();
+        expect(exact.birthDate?.toISOString().split('T')[0]).toBe('1851-03-12');
+
+        await storage.updateFamilyMember(member.id, { birthDateText: 'MAR 1851' });
+        const direct = await storage.updateFamilyMember(member.id, { birthDate: new Date('1852-01-02') });
+        expect(direct.birthDateText).toBeNull();
+
+        const cleared = await storage.updateFamilyMember(member.id, { birthDateText: '' });
+        expect(cleared.birthDate).toBeNull();
+      });
+    });
   });
 
   describe('Relationships', () => {
@@ -264,6 +315,83 @@ describe('PostgresStorage', () => {
       expect(updatedRelationship.status).toBe('divorced');
       expect(updatedRelationship.endDate?.toISOString().split('T')[0]).toBe('2020-01-01');
     });
+
+    describe('Rules', () => {
+      const createMembers = (...names: string[]) => Promise.all(
+        names.map((firstName, i) => storage.createFamilyMember({ firstName, isLiving: true, x: i * 300, y: 0 }))
+      );
+      const parentChild = (fromMemberId: number, toMemberId: number): InsertRelationship => ({
+        fromMemberId, toMemberId, type: 'parent-child', subType: 'biological', status: 'active'
+      });
+
+      it('should reject a member related to themselves', async () => {
+        const [ann] = await createMembers('Ann');
+
+        await expect(storage.createRelationship(parentChild(ann.id, ann.id)))
+          .rejects.toMatchObject({ status: 422, violation: { code: 'self-link' } });
+      });
+
+      it('should reject a spouse link that already exists in reverse', async () => {
+        const [ann, ben] = await createMembers('Ann', 'Ben');
+        const marriage = await storage.createRelationship({
+          fromMemberId: ann.id, toMemberId: ben.id, type: 'spouse', status: 'active'
+        });
+
+        const error = await storage.createRelationship({
+          fromMemberId: ben.id, toMemberId: ann.id, type: 'spouse', status: 'active'
+        }).catch(e => e);
+
+        expect(error).toBeInstanceOf(RelationshipRuleError);
+        expect(error.status).toBe(409);
+        expect(error.violation).toMatchObject({ code: 'duplicate', conflictingRelationshipId: marriage.id });
+      });
+
+      it('should reject links that make a member their own ancestor', async () => {
+        const [ann, ben, cal] = await createMembers('Ann', 'Ben', 'Cal');
+        await storage.createRelationship(parentChild(ann.id, ben.id));
+        await storage.createRelationship(parentChild(ben.id, cal.id));
+
+        await expect(storage.createRelationship(parentChild(cal.id, ann.id)))
+          .rejects.toMatchObject({ status: 422, violation: { code: 'ancestry-cycle', field: 'toMemberId' } });
+        expect((await storage.getFamilyTree()).relationships).toHaveLength(2);
+      });
+
+      it('should allow at most two biological parents', async () => {
+        const [mum, dad, other, child] = await createMembers('Mum', 'Dad', 'Other', 'Child');
+        await storage.createRelationship(parentChild(mum.id, child.id));
+        await storage.createRelationship(parentChild(dad.id, child.id));
+
+        await expect(storage.createRelationship(parentChild(other.id, child.id)))
+          .rejects.toMatchObject({ status: 422, violation: { code: 'too-many-parents' } });
+        await expect(storage.createRelationship({ ...parentChild(other.id, child.id), subType: 'step' }))
+          .resolves.toMatchObject({ subType: 'step' });
+      });
+
+      it('should count parent links without a subType as biological', async () => {
+        const [mum, dad, other, child] = await createMembers('Mum', 'Dad', 'Other', 'Child');
+        const { subType, ...plain } = parentChild(mum.id, child.id);
+        await storage.createRelationship(plain);
+        await storage.createRelationship({ ...plain, fromMemberId: dad.id });
+
+        await expect(storage.createRelationship({ ...plain, fromMemberId: other.id }))
+          .rejects.toMatchObject({ status: 422, violation: { code: 'too-many-parents' } });
+        await expect(storage.createRelationship(parentChild(other.id, child.id)))
+          .rejects.toMatchObject({ violation: { code: 'too-many-parents' } });
+      });
+
+      it('should apply the rules to updates without counting the relationship itself', async () => {
+        const [ann, ben, cal] = await createMembers('Ann', 'Ben', 'Cal');
+        const first = await storage.createRelationship(parentChild(ann.id, ben.id));
+        const second = await storage.createRelationship(parentChild(ben.id, cal.id));
+
+        await expect(storage.updateRelationship(first.id, { subType: 'adopted' }))
+          .resolves.toMatchObject({ subType: 'adopted' });
+        await expect(storage.updateRelationship(first.id, { fromMemberId: cal.id }))
+          .rejects.toMatchObject({ violation: { code: 'ancestry-cycle' } });
+        await expect(storage.updateRelationship(second.id, { toMemberId: ben.id }))
+          .rejects.toMatchObject({ violation: { code: 'self-link' } });
+      });
+    });
   });
 
   describe('Family Events', () => {
@@ -347,6 +475,727 @@ describe('PostgresStorage', () => {
       expect(Array.isArray(events)).toBe(true);
       expect(events).toHaveLength(0);
     });
+
+    it('should update an event\'s members, place and date', async () => {
+      const husband = await storage.createFamilyMember({ firstName: 'John', isLiving: false, x: 0, y: 0 });
+      const wife = await storage.createFamilyMember({ firstName: 'Mary', isLiving: false, x: 300, y: 0 });
+      const event = await storage.createEvent({ type: 'marriage', memberIds: [husband.id] });
+
+      const updated = await storage.updateEvent(event.id, {
+        memberIds: [husband.id, wife.id],
+        place: 'York',
+        dateText: 'ABT 1890',
+      });
+
+      expect(updated).toMatchObject({ type: 'marriage', memberIds: [husband.id, wife.id], place: 'York', dateText: 'ABT 1890' });
+      expect(updated.date).toEqual(new Date('1890-01-01'));
+      expect(await storage.getEvents([wife.id])).toHaveLength(1);
+    });
+
+    it('should throw error when updating non-existent event', async () => {
+      await expect(storage.updateEvent(99999, { place: 'Nowhere' })).rejects.toThrow('Event not found');
+    });
+  });
+
+  describe('Citations', () => {
+    it('should cite a member field and list it by member', async () => {
+      const member = await storage.createFamilyMember({ firstName: 'Ann', isLiving: false, x: 0, y: 0 });
+      const source = await storage.createSource({ title: '1901 Census', repository: 'National Archives' });
+
+      const citation = await storage.createCitation({
+        sourceId: source.id,
+        memberId: member.id,
+        field: 'birthDate',
+        page: 'folio 12',
+        quality: 3,
+        accessedAt: new Date('2024-02-01'),
+      });
+
+      expect(citation).toMatchObject({ sourceId: source.id, memberId: member.id, field: 'birthDate', quality: 3 });
+      expect(citation.accessedAt?.toISOString().split('T')[0]).toBe('2024-02-01');
+      expect(await storage.getCitations({ memberId: member.id })).toHaveLength(1);
+      expect(await storage.getCitations({ eventId: 999 })).toHaveLength(0);
+    });
+
+    it('should remove citations along with the cited member or source', async () => {
+      const member = await storage.createFamilyMember({ firstName: 'Ann', isLiving: false, x: 0, y: 0 });
+      const event = await storage.createEvent({ type: 'move', memberIds: [member.id] });
+      const first = await storage.createSource({ title: 'Parish register' });
+      const second = await storage.createSource({ title: 'Family bible' });
+      await storage.createCitation({ sourceId: first.id, eventId: event.id });
+      await storage.createCitation({ sourceId: second.id, memberId: member.id });
+
+      await storage.deleteSource(first.id);
+      expect(await storage.getCitations()).toHaveLength(1);
+
+      await storage.deleteFamilyMember(member.id);
+      expect(await storage.getCitations()).toHaveLength(0);
+      expect(await storage.getSources()).toHaveLength(1);
+    });
+
+    it('should move citations to the kept member on merge', async () => {
+      const keep = await storage.createFamilyMember({ firstName: 'John', isLiving: false, x: 0, y: 0 });
+      const duplicate = await storage.createFamilyMember({ firstName: 'Johnny', isLiving: false, x: 300, y: 0 });
+      const source = await storage.createSource({ title: 'Baptism record' });
+      await storage.createCitation({ sourceId: source.id, memberId: duplicate.id, field: 'birthPlace' });
+
+      await storage.mergeFamilyMembers(keep.id, duplicate.id, {});
+
+      expect(await storage.getCitations({ memberId: keep.id })).toMatchObject([{ field: 'birthPlace' }]);
+    });
+
+    it('should throw error when updating non-existent citation or source', async () => {
+      await expect(storage.updateCitation(99999, { page: '1' })).rejects.toThrow('Citation not found');
+      await expect(storage.updateSource(99999, { title: 'x' })).rejects.toThrow('Source not found');
+    });
+  });
+
+  describe('Media', () => {
+    const photo = (name: string) => ({
+      fileName: `${name}.jpg`,
+      originalName: `${name}.jpg`,
+      mimeType: 'image/jpeg',
+      size: 1024,
+      width: 800,
+      height: 600,
+      thumbnailFileName: `${name}.webp`,
+    });
+
+    it('should make a member\'s first photo primary and switch it on request', async () => {
+      const member = await storage.createFamilyMember({ firstName: 'Ann', isLiving: false, x: 0, y: 0 });
+      const first = await storage.createMedia({ ...photo('first'), caption: 'Wedding' }, { memberId: member.id });
+      const second = await storage.createMedia(photo('second'), { memberId: member.id });
+      const letter = await storage.createMedia({
+        ...photo('letter'), mimeType: 'application/pdf', width: null, height: null, thumbnailFileName: null
+      });
+
+      expect(first).toMatchObject({ caption: 'Wedding', memberIds: [member.id], primaryForMemberIds: [member.id] });
+      expect(second.primaryForMemberIds).toEqual([]);
+      expect(await storage.getPrimaryMedia()).toEqual({ [member.id]: first.id });
+
+      await storage.linkMedia(second.id, { memberId: member.id, isPrimary: true });
+      await storage.linkMedia(letter.id, { memberId: member.id });
+      expect(await storage.getPrimaryMedia()).toEqual({ [member.id]: second.id });
+      expect(await storage.getMedia({ memberId: member.id })).toHaveLength(3);
+    });
+
+    it('should link media to events and drop links with the member or event', async () => {
+      const member = await storage.createFamilyMember({ firstName: 'Ann', isLiving: false, x: 0, y: 0 });
+      const event = await storage.createEvent({ type: 'marriage', memberIds: [member.id] });
+      const item = await storage.createMedia({ ...photo('wedding'), dateText: 'ABT 1920' }, { eventId: event.id });
+      await storage.linkMedia(item.id, { memberId: member.id });
+
+      expect(item.dateText).toBe('ABT 1920');
+      expect(await storage.getMedia({ eventId: event.id })).toMatchObject([{ id: item.id }]);
+
+      await storage.deleteEvent(event.id);
+      await storage.deleteFamilyMember(member.id);
+      expect(await storage.getMediaItem(item.id)).toMatchObject({ memberIds: [], eventIds: [] });
+    });
+
+    it('should carry photos over to the kept member on merge', async () => {
+      const keep = await storage.createFamilyMember({ firstName: 'John', isLiving: false, x: 0, y: 0 });
+      const duplicate = await storage.createFamilyMember({ firstName: 'Johnny', isLiving: false, x: 300, y: 0 });
+      const own = await storage.createMedia(photo('own'), { memberId: keep.id });
+      const other = await storage.createMedia(photo('other'), { memberId: duplicate.id });
+
+      await storage.mergeFamilyMembers(keep.id, duplicate.id, {});
+
+      expect(await storage.getPrimaryMedia()).toEqual({ [keep.id]: own.id });
+      expect(await storage.getMediaItem(other.id)).toMatchObject({ memberIds: [keep.id], primaryForMemberIds: [] });
+    });
+
+    it('should throw when media or link targets do not exist', async () => {
+      const item = await storage.createMedia(photo('lost'));
+
+      await expect(storage.createMedia(photo('x'), { memberId: 99999 })).rejects.toThrow('Family member not found');
+      await expect(storage.linkMedia(item.id, { eventId: 99999 })).rejects.toThrow('Event not found');
+      await expect(storage.unlinkMedia(item.id, { memberId: 99999 })).rejects.toThrow('Media link not found');
+      await expect(storage.updateMedia(99999, { caption: 'x' })).rejects.toThrow('Media not found');
+      expect(await storage.deleteMedia(item.id)).toMatchObject({ fileName: 'lost.jpg' });
+      expect(await storage.getMedia()).toHaveLength(0);
+    });
+  });
+
+  describe('Merge', () => {
+    it('should move relationships and events onto the kept member', async () => {
+      const keep = await storage.createFamilyMember({ firstName: 'John', isLiving: false, x: 0, y: 0 });
+      const duplicate = await storage.createFamilyMember({
+        firstName: 'Johnny', birthPlace: 'Leeds', isLiving: false, x: 300, y: 0
+      });
+      const wife = await storage.createFamilyMember({ firstName: 'Mary', isLiving: false, x: 600, y: 0 });
+      const child = await storage.createFamilyMember({ firstName: 'Tom', isLiving: true, x: 0, y: 300 });
+
+      await storage.createRelationship({ fromMemberId: keep.id, toMemberId: wife.id, type: 'spouse', status: 'active' });
+      await storage.createRelationship({ fromMemberId: wife.id, toMemberId: duplicate.id, type: 'spouse', status: 'divorced' });
+      await storage.createRelationship({
+        fromMemberId: duplicate.id, toMemberId: child.id, type: 'parent-child', subType: 'biological', status: 'active'
+      });
+      await storage.createRelationship({ fromMemberId: keep.id, toMemberId: duplicate.id, type: 'spouse', status: 'active' });
+      await storage.createEvent({ type: 'marriage', memberIds: [duplicate.id, wife.id, keep.id] });
+
+      const merged = await storage.mergeFamilyMembers(keep.id, duplicate.id, { birthPlace: 'Leeds' });
+
+      expect(merged).toMatchObject({ id: keep.id, firstName: 'John', birthPlace: 'Leeds' });
+      const tree = await storage.getFamilyTree();
+      expect(tree.members.map(m => m.id)).not.toContain(duplicate.id);
+      expect(tree.relationships).toHaveLength(2);
+      expect(tree.relationships).toContainEqual(expect.objectContaining({
+        fromMemberId: keep.id, toMemberId: wife.id, type: 'spouse', status: 'active'
+      }));
+      expect(tree.relationships).toContainEqual(expect.objectContaining({
+        fromMemberId: keep.id, toMemberId: child.id, type: 'parent-child'
+      }));
+      expect(tree.events[0].memberIds).toEqual([keep.id, wife.id]);
+    });
+
+    it('should leave both members untouched when one does not exist', async () => {
+      const keep = await storage.createFamilyMember({ firstName: 'John', isLiving: true, x: 0, y: 0 });
+
+      await expect(storage.mergeFamilyMembers(keep.id, 99999, { firstName: 'Jack' }))
+        .rejects.toThrow('Family member not found');
+      expect((await storage.getFamilyTree()).members[0].firstName).toBe('John');
+    });
+  });
+
+  describe('Undo History', () => {
+    const byId = <T extends { id: number }>(rows: T[]) => [...rows].sort((a, b) => a.id - b.id);
+
+    it('should bring back a deleted member with their relationships, events and citations', async () => {
+      const ann = await storage.createFamilyMember({
+        firstName: 'Ann', lastName: 'Lee', birthDate: new Date('1950-03-04'), isLiving: false, x: 10, y: 20
+      });
+      const bob = await storage.createFamilyMember({ firstName: 'Bob', isLiving: false, x: 300, y: 20 });
+      const marriage = await storage.createRelationship({
+        fromMemberId: ann.id, toMemberId: bob.id, type: 'spouse', status: 'active', startDate: new Date('1970-06-01')
+      });
+      const wedding = await storage.createEvent({ type: 'marriage', memberIds: [ann.id, bob.id] });
+      const source = await storage.createSource({ title: 'Parish register' });
+      await storage.createCitation({ sourceId: source.id, memberId: ann.id, field: 'birthDate' });
+      await storage.createCitation({ sourceId: source.id, eventId: wedding.id });
+      const before = await storage.getFamilyTree();
+
+      await storage.deleteFamilyMember(ann.id);
+      expect((await storage.getChangeHistory()).undo?.description).toBe('Delete Ann Lee');
+
+      expect(await storage.undoChange()).toBe('Delete Ann Lee');
+      const restored = await storage.getFamilyTree();
+      expect(byId(restored.members)).toEqual(byId(before.members));
+      expect(restored.relationships).toEqual([expect.objectContaining({ id: marriage.id, startDate: marriage.startDate })]);
+      expect(restored.events).toEqual(before.events);
+      expect(await storage.getCitations()).toHaveLength(2);
+
+      expect(await storage.redoChange()).toBe('Delete Ann Lee');
+      const redone = await storage.getFamilyTree();
+      expect(redone.members.map(m => m.id)).toEqual([bob.id]);
+      expect(redone.relationships).toHaveLength(0);
+      expect(redone.events).toHaveLength(0);
+      expect(await storage.getCitations()).toHaveLength(0);
+    });
+
+    it('should undo creates, edits and moves in reverse order', async () => {
+      const ann = await storage.createFamilyMember({ firstName: 'Ann', occupation: 'Baker', isLiving: true, x: 0, y: 0 });
+      await storage.updateFamilyMember(ann.id, { occupation: 'Miller' });
+      await storage.updateFamilyMemberPositions([{ memberId: ann.id, x: 400, y: 200 }]);
+
+      await storage.undoChange();
+      expect((await storage.getFamilyTree()).members[0]).toMatchObject({ occupation: 'Miller', x: 0, y: 0 });
+      await storage.undoChange();
+      expect((await storage.getFamilyTree()).members[0]).toMatchObject({ occupation: 'Baker' });
+      await storage.undoChange();
+      expect((await storage.getFamilyTree()).members).toHaveLength(0);
+
+      await storage.redoChange();
+      expect((await storage.getFamilyTree()).members[0]).toMatchObject({ id: ann.id, occupation: 'Baker' });
+      expect((await storage.getChangeHistory()).redo?.description).toBe('Edit Ann');
+    });
+
+    it('should split a merged member back out', async () => {
+      const keep = await storage.createFamilyMember({ firstName: 'John', isLiving: false, x: 0, y: 0 });
+      const duplicate = await storage.createFamilyMember({ firstName: 'Johnny', isLiving: false, x: 300, y: 0 });
+      const child = await storage.createFamilyMember({ firstName: 'Tom', isLiving: true, x: 0, y: 300 });
+      await storage.createRelationship({
+        fromMemberId: duplicate.id, toMemberId: child.id, type: 'parent-child', subType: 'biological', status: 'active'
+      });
+      const before = await storage.getFamilyTree();
+
+      await storage.mergeFamilyMembers(keep.id, duplicate.id, { firstName: 'Jack' });
+      expect(await storage.undoChange()).toBe('Merge Johnny into Jack');
+
+      const after = await storage.getFamilyTree();
+      expect(byId(after.members)).toEqual(byId(before.members));
+      expect(after.relationships).toEqual(before.relationships);
+    });
+
+    it('should drop the redo history when a new edit is made', async () => {
+      const ann = await storage.createFamilyMember({ firstName: 'Ann', isLiving: true, x: 0, y: 0 });
+      await storage.createEvent({ type: 'move', memberIds: [ann.id] });
+      await storage.undoChange();
+      expect((await storage.getChangeHistory()).redo?.description).toBe('Add move event');
+
+      await storage.updateFamilyMember(ann.id, { lastName: 'Lee' });
+
+      expect(await storage.getChangeHistory()).toMatchObject({ undo: { description: 'Edit Ann Lee' }, redo: null });
+      await expect(storage.redoChange()).rejects.toThrow('Nothing to redo');
+    });
+
+    it('should refuse to undo when there is nothing to undo', async () => {
+      expect(await storage.getChangeHistory()).toEqual({ undo: null, redo: null });
+      await expect(storage.undoChange()).rejects.toThrow('Nothing to undo');
+    });
+  });
+
+  describe('Audit Log', () => {
+    it('should record who changed which fields of a member', async () => {
+      const ann = await runAs('alice', () => storage.createFamilyMember({
+        firstName: 'Ann', birthDate: new Date('1950-03-04'), isLiving: false, x: 0, y: 0
+      }));
+      await runAs('bob', () => storage.updateFamilyMember(ann.id, { birthDate: new Date('1951-03-04') }));
+
+      const [update, create] = await storage.getAuditLog({ entityType: 'member', entityId: ann.id });
+      expect(update).toMatchObject({
+        action: 'update',
+        actor: 'bob',
+        memberIds: [ann.id],
+        changes: { birthDate: { before: '1950-03-04', after: '1951-03-04' } },
+      });
+      expect(Object.keys(update.changes)).toEqual(['birthDate']);
+      expect(create).toMatchObject({ action: 'create', actor: 'alice', changes: { firstName: { before: null, after: 'Ann' } } });
+    });
+
+    it("should include a member's relationships, events and citations in their history", async () => {
+      const ann = await storage.createFamilyMember({ firstName: 'Ann', isLiving: false, x: 0, y: 0 });
+      const bob = await storage.createFamilyMember({ firstName: 'Bob', isLiving: false, x: 300, y: 0 });
+      const marriage = await storage.createRelationship({
+        fromMemberId: ann.id, toMemberId: bob.id, type: 'spouse', status: 'active'
+      });
+      const source = await storage.createSource({ title: 'Parish register' });
+      await storage.createCitation({ sourceId: source.id, relationshipId: marriage.id });
+
+      await storage.deleteFamilyMember(bob.id);
+
+      const history = await storage.getAuditLog({ memberId: ann.id });
+      expect(history.map(e => `${e.action} ${e.entityType}`)).toEqual([
+        'delete citation', 'delete relationship', 'create citation', 'create relationship', 'create member',
+      ]);
+      expect(await storage.getAuditLog({ entityType: 'source' })).toHaveLength(1);
+      expect(await storage.getAuditLog({ memberId: bob.id, action: 'delete' })).toHaveLength(3);
+    });
+
+    it('should record undo as the reverse change and skip edits that change nothing', async () => {
+      const ann = await storage.createFamilyMember({ firstName: 'Ann', isLiving: true, x: 0, y: 0 });
+      await storage.updateFamilyMember(ann.id, { firstName: 'Ann' });
+      await storage.deleteFamilyMember(ann.id);
+      await storage.undoChange();
+
+      expect((await storage.getAuditLog({ memberId: ann.id })).map(e => e.action))
+        .toEqual(['create', 'delete', 'create']);
+    });
+
+    it('should record an import as one entry and honour the limit', async () => {
+      await storage.importFamilyTree({
+        members: [
+          { key: 'I1', data: { firstName: 'Ann', isLiving: false, x: 0, y: 0 } },
+          { key: 'I2', data: { firstName: 'Bob', isLiving: false, x: 0, y: 0 } },
+        ],
+        relationships: [],
+        events: [],
+      });
+
+      const entries = await storage.getAuditLog({ action: 'import' });
+      expect(entries).toEqual([expect.objectContaining({
+        entityType: 'tree', entityId: null, action: 'import',
+        changes: expect.objectContaining({ members: { before: null, after: 2 } }),
+      })]);
+      await storage.createFamilyMember({ firstName: 'Cal', isLiving: true, x: 0, y: 0 });
+      expect(await storage.getAuditLog({ limit: 1 })).toMatchObject([{ entityType: 'member', action: 'create' }]);
+    });
+  });
+
+  describe('Trees', () => {
+    it('should keep members, relationships and events in their own tree', async () => {
+      const ann = await storage.createFamilyMember({ firstName: 'Ann', isLiving: true, x: 0, y: 0 });
+      const other = unscoped.forTree((await unscoped.createTree({ name: 'Other' }, owner.id)).id);
+      const bob = await other.createFamilyMember({ firstName: 'Bob', isLiving: true, x: 0, y: 0 });
+
+      expect((await storage.getFamilyTree()).members.map(m => m.firstName)).toEqual(['Ann']);
+      expect((await other.getFamilyTree()).members.map(m => m.firstName)).toEqual(['Bob']);
+      await expect(other.updateFamilyMember(ann.id, { firstName: 'Anna' })).rejects.toThrow('Family member not found');
+      await expect(other.deleteFamilyMember(ann.id)).rejects.toThrow('Family member not found');
+      await expect(storage.createRelationship({
+        fromMemberId: ann.id, toMemberId: bob.id, type: 'spouse', status: 'active'
+      })).rejects.toThrow('Family member not found');
+      await expect(storage.createEvent({ type: 'move', memberIds: [ann.id, bob.id] }))
+        .rejects.toThrow('Family member not found');
+    });
+
+    it('should not move a citation onto a source from another tree', async () => {
+      const ann = await storage.createFamilyMember({ firstName: 'Ann', isLiving: true, x: 0, y: 0 });
+      const census = await storage.createSource({ title: '1901 Census' });
+      const citation = await storage.createCitation({ sourceId: census.id, memberId: ann.id });
+      const other = unscoped.forTree((await unscoped.createTree({ name: 'Other' }, owner.id)).id);
+      const register = await other.createSource({ title: 'Parish register' });
+
+      await expect(storage.updateCitation(citation.id, { sourceId: register.id })).rejects.toThrow('Source not found');
+      expect(await storage.getCitations({ memberId: ann.id })).toMatchObject([{ id: citation.id, sourceId: census.id }]);
+    });
+
+    it('should keep undo history per tree', async () => {
+      await storage.createFamilyMember({ firstName: 'Ann', isLiving: true, x: 0, y: 0 });
+      const other = unscoped.forTree((await unscoped.createTree({ name: 'Other' }, owner.id)).id);
+
+      await expect(other.undoChange()).rejects.toThrow('Nothing to undo');
+      expect(await storage.undoChange()).toBe('Add Ann');
+    });
+
+    it('should restore a backup without touching other trees', async () => {
+      await storage.createFamilyMember({ firstName: 'Ann', isLiving: true, x: 0, y: 0 });
+      await storage.createSource({ title: 'Census' });
+      const other = unscoped.forTree((await unscoped.createTree({ name: 'Other' }, owner.id)).id);
+      await other.createFamilyMember({ firstName: 'Bob', isLiving: true, x: 0, y: 0 });
+
+      await other.restoreFamilyTree({
+        members: [{ key: '1', data: { firstName: 'Cal', isLiving: true, x: 0, y: 0 } }],
+        relationships: [],
+        events: [],
+        sources: [],
+      });
+
+      expect((await storage.getFamilyTree()).members.map(m => m.firstName)).toEqual(['Ann']);
+      expect((await storage.getSources()).map(s => s.title)).toEqual(['Census']);
+      expect((await other.getFamilyTree()).members.map(m => m.firstName)).toEqual(['Cal']);
+    });
+
+    it('should delete a tree with everything in it and return its media', async () => {
+      const other = await unscoped.createTree({ name: 'Other' }, owner.id);
+      const scoped = unscoped.forTree(other.id);
+      const bob = await scoped.createFamilyMember({ firstName: 'Bob', isLiving: true, x: 0, y: 0 });
+      await scoped.createMedia(
+        { fileName: 'a.jpg', originalName: 'a.jpg', mimeType: 'image/jpeg', size: 1 },
+        { memberId: bob.id }
+      );
+
+      const files = await unscoped.deleteTree(other.id);
+      expect(files.map(f => f.fileName)).toEqual(['a.jpg']);
+      await expect(unscoped.getTree(other.id)).rejects.toThrow('Tree not found');
+      await expect(unscoped.deleteTree(other.id)).rejects.toThrow('Tree not found');
+      expect((await unscoped.getTrees(owner.id)).map(t => t.name)).toEqual(['Test Tree']);
+    });
+
+    it('should start a default tree only when the user has none', async () => {
+      const [existing] = await unscoped.getTrees(owner.id);
+      expect(await unscoped.getDefaultTree(owner.id)).toEqual({ ...existing, role: 'owner' });
+
+      const bob = await unscoped.createUser({ username: 'bob', passwordHash: 'hash.salt' });
+      const started = await unscoped.getDefaultTree(bob.id);
+      expect(started).toMatchObject({ name: 'Family Tree', role: 'owner' });
+      expect(started.id).not.toBe(existing.id);
+    });
+
+    it('should refuse tree-scoped work without a tree', async () => {
+      await expect(unscoped.getFamilyTree()).rejects.toThrow('No tree selected');
+    });
+  });
+
+  describe('Sharing', () => {
+    it('should list only the trees shared with a user, with their role', async () => {
+      const bob = await unscoped.createUser({ username: 'bob', passwordHash: 'hash.salt' });
+      await unscoped.createTree({ name: 'Private' }, owner.id);
+      expect(await unscoped.getTrees(bob.id)).toEqual([]);
+
+      await storage.shareTree('BOB', 'viewer');
+      expect(await unscoped.getTrees(bob.id)).toMatchObject([{ name: 'Test Tree', role: 'viewer' }]);
+      expect(await storage.getTreeMembers()).toMatchObject([
+        { username: 'owner', role: 'owner' },
+        { username: 'bob', role: 'viewer' }
+      ]);
+    });
+
+    it('should change roles and remove people', async () => {
+      const bob = await unscoped.createUser({ username: 'bob', passwordHash: 'hash.salt' });
+      await storage.shareTree('bob', 'viewer');
+
+      expect(await storage.shareTree('bob', 'editor')).toMatchObject({ userId: bob.id, role: 'editor' });
+      const [treeId] = (await unscoped.getTrees(bob.id)).map(t => t.id);
+      expect(await unscoped.getTreeRole(treeId, bob.id)).toBe('editor');
+
+      await storage.removeTreeMember(bob.id);
+      expect(await unscoped.getTreeRole(treeId, bob.id)).toBeNull();
+      await expect(storage.removeTreeMember(bob.id)).rejects.toThrow('Tree member not found');
+      await expect(storage.shareTree('nobody', 'viewer')).rejects.toThrow('User not found');
+    });
+
+    it('should record who shared the tree and every role change', async () => {
+      const bob = await unscoped.createUser({ username: 'bob', passwordHash: 'hash.salt' });
+      await runAs('owner', () => storage.shareTree('bob', 'viewer'));
+      await runAs('owner', () => storage.shareTree('bob', 'editor'));
+      await runAs('owner', () => storage.removeTreeMember(bob.id));
+
+      const history = await storage.getAuditLog({ entityType: 'tree-member', entityId: bob.id });
+      expect(history.map(e => [e.action, e.actor, e.changes.role])).toEqual([
+        ['delete', 'owner', { before: 'editor', after: null }],
+        ['update', 'owner', { before: 'viewer', after: 'editor' }],
+        ['create', 'owner', { before: null, after: 'viewer' }],
+      ]);
+    });
+
+    it('should always leave an owner', async () => {
+      await expect(storage.setTreeMemberRole(owner.id, 'editor')).rejects.toThrow('A tree needs at least one owner');
+      await expect(storage.removeTreeMember(owner.id)).rejects.toThrow('A tree needs at least one owner');
+
+      const bob = await unscoped.createUser({ username: 'bob', passwordHash: 'hash.salt' });
+      await storage.shareTree('bob', 'owner');
+      await storage.removeTreeMember(owner.id);
+      expect(await storage.getTreeMembers()).toMatchObject([{ userId: bob.id, role: 'owner' }]);
+    });
+  });
+
+  describe('Share links', () => {
+    it('should find a link by its token until it is revoked', async () => {
+      const link = await storage.createShareLink({ label: 'Grandma', passwordHash: 'hash.salt' }, owner.id);
+      expect(link).toMatchObject({ label: 'Grandma', hasPassword: true, expiresAt: null, createdBy: owner.id });
+      expect(link).not.toHaveProperty('passwordHash');
+      expect(await storage.getShareLinks()).toEqual([link]);
+      expect(await unscoped.getShareLinkByToken(link.token)).toMatchObject({ id: link.id, passwordHash: 'hash.salt' });
+
+      await storage.revokeShareLink(link.id);
+      expect(await unscoped.getShareLinkByToken(link.token)).toBeUndefined();
+      await expect(storage.revokeShareLink(link.id)).rejects.toThrow('Share link not found');
+    });
+
+    it('should record who made and revoked a link without its token', async () => {
+      const link = await runAs('owner', () => storage.createShareLink({ label: 'Grandma', passwordHash: 'hash.salt' }, owner.id));
+      await runAs('owner', () => storage.revokeShareLink(link.id));
+
+      const history = await storage.getAuditLog({ entityType: 'share-link', entityId: link.id });
+      expect(history.map(e => [e.action, e.actor])).toEqual([['delete', 'owner'], ['create', 'owner']]);
+      expect(history[1].changes).toMatchObject({ label: { after: 'Grandma' }, hasPassword: { after: true } });
+      expect(JSON.stringify(history)).not.toContain(link.token);
+      expect(JSON.stringify(history)).not.toContain('hash.salt');
+    });
+
+    it('should stop finding a link once it expires', async () => {
+      const expired = await storage.createShareLink({ expiresAt: new Date(Date.now() - 60_000) }, owner.id);
+      const current = await storage.createShareLink({ expiresAt: new Date(Date.now() + 60_000) }, owner.id);
+      expect(expired.token).not.toBe(current.token);
+      expect(await unscoped.getShareLinkByToken(expired.token)).toBeUndefined();
+      expect(await unscoped.getShareLinkByToken(current.token)).toMatchObject({ id: current.id, passwordHash: null });
+    });
+  });
+
+  describe('Proposals', () => {
+    it('should apply a proposal only once it is approved', async () => {
+      const ann = await storage.createFamilyMember({ firstName: 'Ann', isLiving: true, x: 0, y: 0 });
+      const proposal = await storage.createProposal(
+        { entityType: 'member', action: 'update', entityId: ann.id, data: { birthDate: '1950-02-03' } },
+        owner.id
+      );
+      expect(proposal).toMatchObject({ status: 'pending', proposedByUsername: 'owner' });
+      expect((await storage.getFamilyTree()).members[0].birthDate).toBeNull();
+
+      expect(await storage.reviewProposal(proposal.id, owner.id, true))
+        .toMatchObject({ status: 'approved', reviewedBy: owner.id });
+      expect((await storage.getFamilyTree()).members[0].birthDate).toEqual(new Date('1950-02-03'));
+      await expect(storage.reviewProposal(proposal.id, owner.id, true)).rejects.toThrow('Proposal not found');
+    });
+
+    it('should leave the tree alone when a proposal is rejected', async () => {
+      const proposal = await storage.createProposal(
+        { entityType: 'member', action: 'create', data: { firstName: 'Cal', isLiving: true, x: 0, y: 0 } },
+        owner.id
+      );
+
+      await storage.reviewProposal(proposal.id, owner.id, false);
+      expect((await storage.getFamilyTree()).members).toEqual([]);
+      expect(await storage.getProposals('pending')).toEqual([]);
+      expect(await storage.getProposals('rejected')).toMatchObject([{ id: proposal.id }]);
+      expect(await storage.getAuditLog({ entityType: 'proposal' })).toMatchObject([{
+        entityId: proposal.id,
+        action: 'update',
+        changes: { status: { before: 'pending', after: 'rejected' }, reviewedBy: { before: null, after: owner.id } },
+      }]);
+    });
+
+    it('should keep a proposal pending when it can no longer be applied', async () => {
+      const ann = await storage.createFamilyMember({ firstName: 'Ann', isLiving: true, x: 0, y: 0 });
+      const proposal = await storage.createProposal(
+        { entityType: 'member', action: 'delete', entityId: ann.id },
+        owner.id
+      );
+      await storage.deleteFamilyMember(ann.id);
+
+      await expect(storage.reviewProposal(proposal.id, owner.id, true)).rejects.toThrow('Family member not found');
+      expect(await storage.getProposals('pending')).toMatchObject([{ id: proposal.id }]);
+    });
+
+    it('should apply a proposal once when two reviewers approve it together', async () => {
+      const proposal = await storage.createProposal(
+        { entityType: 'member', action: 'create', data: { firstName: 'Cal', isLiving: true, x: 0, y: 0 } },
+        owner.id
+      );
+
+      const results = await Promise.allSettled([
+        storage.reviewProposal(proposal.id, owner.id, true),
+        storage.reviewProposal(proposal.id, owner.id, true),
+      ]);
+      expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect((await storage.getFamilyTree()).members.map(m => m.firstName)).toEqual(['Cal']);
+    });
+
+    it('should turn away proposals with invalid data', async () => {
+      await expect(storage.createProposal(
+        { entityType: 'member', action: 'create', data: { lastName: 'Nofirst' } },
+        owner.id
+      )).rejects.toThrow();
+      expect(await storage.getProposals()).toEqual([]);
+    });
+  });
+
+  describe('Users', () => {
+    it('should create a user and find them by username in any case', async () => {
+      const user = await storage.createUser({ username: 'Alice', passwordHash: 'hash.salt' });
+
+      expect(user).toEqual({ id: expect.any(Number), username: 'Alice', createdAt: expect.any(Date) });
+      expect(await storage.getUserByUsername('alice')).toMatchObject({ id: user.id, passwordHash: 'hash.salt' });
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUser(99999)).toBeUndefined();
+    });
+
+    it('should refuse a username that is already taken', async () => {
+      await storage.createUser({ username: 'alice', passwordHash: 'hash.salt' });
+
+      await expect(storage.createUser({ username: 'ALICE', passwordHash: 'other.salt' }))
+        .rejects.toThrow('Username already taken');
+    });
+
+    it('should let only one of two simultaneous sign-ups differing in case through', async () => {
+      const results = await Promise.allSettled([
+        storage.createUser({ username: 'Bob', passwordHash: 'hash.salt' }),
+        storage.createUser({ username: 'bob', passwordHash: 'other.salt' }),
+      ]);
+
+      expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+      expect(results.find(r => r.status === 'rejected')).toMatchObject({
+        reason: expect.objectContaining({ message: 'Username already taken' }),
+      });
+    });
+  });
+
+  describe('Import', () => {
+    it('should import keyed members, relationships and events together', async () => {
+      const tree = await storage.importFamilyTree({
+        members: [
+          { key: 'a', data: { firstName: 'Ann', isLiving: true, deathDate: null, x: 0, y: 0 } },
+          { key: 'b', data: { firstName: 'Ben', isLiving: true, deathDate: null, x: 300, y: 0 } },
+        ],
+        relationships: [
+          { fromKey: 'a', toKey: 'b', data: { type: 'parent-child', subType: 'biological', status: 'active', startDate: null, endDate: null } },
+        ],
+        events: [
+          { memberKeys: ['a', 'b'], data: { type: 'move', date: new Date('1950-03-01'), place: 'Ohio' } },
+        ],
+      });
+
+      const [ann, ben] = tree.members;
+      expect(tree.relationships[0]).toMatchObject({ fromMemberId: ann.id, toMemberId: ben.id });
+      expect(tree.events[0].memberIds).toEqual([ann.id, ben.id]);
+      expect((await storage.getFamilyTree()).members).toHaveLength(2);
+    });
+
+    it('should roll back the whole import on failure', async () => {
+      await expect(storage.importFamilyTree({
+        members: [{ key: 'a', data: { firstName: 'Ann', isLiving: true, deathDate: null, x: 0, y: 0 } }],
+        relationships: [
+          { fromKey: 'a', toKey: 'missing', data: { type: 'spouse', status: 'active', startDate: null, endDate: null } },
+        ],
+        events: [],
+      })).rejects.toThrow('Unknown member key missing');
+
+      expect((await storage.getFamilyTree()).members).toHaveLength(0);
+    });
+
+    it('should replace the existing tree on restore', async () => {
+      await storage.createFamilyMember({ firstName: 'Old', isLiving: true, x: 0, y: 0 });
+
+      const { tree } = await storage.restoreFamilyTree({
+        members: [
+          { key: '7', data: { firstName: 'Ann', isLiving: true, deathDate: null, x: 10, y: 20 } },
+          { key: '9', data: { firstName: 'Ben', isLiving: true, deathDate: null, x: 300, y: 20 } },
+        ],
+        relationships: [
+          { fromKey: '7', toKey: '9', data: { type: 'spouse', status: 'active', startDate: null, endDate: null } },
+        ],
+        events: [
+          { memberKeys: ['9', '7'], data: { type: 'marriage', date: new Date('1950-03-01') } },
+        ],
+      });
+
+      const current = await storage.getFamilyTree();
+      expect(current.members.map(m => m.firstName)).toEqual(['Ann', 'Ben']);
+      const [ann, ben] = tree.members;
+      expect(current.events[0].memberIds).toEqual([ben.id, ann.id]);
+    });
+
+    it('should link restored citations to the new row ids', async () => {
+      await storage.createSource({ title: 'Old source' });
+
+      const { tree } = await storage.restoreFamilyTree({
+        members: [
+          { key: '7', data: { firstName: 'Ann', isLiving: true, deathDate: null, x: 0, y: 0 } },
+          { key: '9', data: { firstName: 'Ben', isLiving: true, deathDate: null, x: 300, y: 0 } },
+        ],
+        relationships: [
+          { key: '4', fromKey: '7', toKey: '9', data: { type: 'spouse', status: 'active', startDate: null, endDate: null } },
+        ],
+        events: [],
+        sources: [{ key: '2', data: { title: 'Marriage register' } }],
+        citations: [
+          { sourceKey: '2', relationshipKey: '4', data: { page: 'entry 31' } },
+          { sourceKey: '2', memberKey: '9', data: { field: 'firstName' } },
+        ],
+      });
+
+      const [source] = await storage.getSources();
+      expect(source.title).toBe('Marriage register');
+      expect(await storage.getCitations({ relationshipId: tree.relationships[0].id }))
+        .toMatchObject([{ sourceId: source.id, page: 'entry 31' }]);
+      expect(await storage.getCitations({ memberId: tree.members[1].id })).toHaveLength(1);
+    });
+
+    it('should keep the existing tree when a restore fails', async () => {
+      await storage.createFamilyMember({ firstName: 'Old', isLiving: true, x: 0, y: 0 });
+
+      await expect(storage.restoreFamilyTree({
+        members: [],
+        relationships: [],
+        events: [{ memberKeys: ['1'], data: { type: 'other' } }],
+      })).rejects.toThrow('Unknown member key 1');
+
+      expect((await storage.getFamilyTree()).members.map(m => m.firstName)).toEqual(['Old']);
+    });
+
+    it('should drop the tree\'s media on restore and return it', async () => {
+      const old = await storage.createFamilyMember({ firstName: 'Old', isLiving: true, x: 0, y: 0 });
+      const photo = await storage.createMedia(
+        { fileName: 'a.jpg', originalName: 'a.jpg', mimeType: 'image/jpeg', size: 1 },
+        { memberId: old.id }
+      );
+
+      const { tree, media } = await storage.restoreFamilyTree({
+        members: [{ key: '1', data: { firstName: 'Ann', isLiving: true, x: 0, y: 0 } }],
+        relationships: [],
+        events: [],
+      });
+
+      expect(media.map(m => m.fileName)).toEqual(['a.jpg']);
+      expect(await storage.getMedia()).toEqual([]);
+      expect(await storage.getMedia({ memberId: tree.members[0].id })).toEqual([]);
+      const entries = await storage.getAuditLog();
+      expect(entries.map(e => [e.entityType, e.action, e.entityId])).toEqual(expect.arrayContaining([
+        ['media', 'delete', photo.id],
+        ['tree', 'restore', null],
+      ]));
+    });
   });
 
   describe('Complex Family Scenarios', () => {
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { validateFamilyTree } from '@shared/validation';
+import type { FamilyTreeData } from '@shared/schema';
+import { member, link, treeOf } from './fixtures';
+
+const codes = (data: FamilyTreeData) => validateFamilyTree(data).map(issue => issue.code);
+
+describe('validateFamilyTree', () => {
+  it('should find nothing wrong with a consistent tree', () => {
+    const data = treeOf(
+      [
+        member(1, 'Ann', { birthDate: '1900-01-01', deathDate: '1970-01-01' }),
+        member(2, 'Ben', { birthDate: '1898-05-01' }),
+        member(3, 'Cal', { birthDate: '1925-03-01', isLiving: true }),
+      ],
+      [
+        link('spouse', 1, 2, { id: 1, startDate: '1922-06-01' }),
+        link('parent-child', 1, 3, { id: 2 }),
+        link('parent-child', 2, 3, { id: 3 }),
+      ]
+    );
+
+    expect(validateFamilyTree(data)).toEqual([]);
+  });
+
+  it('should flag impossible dates on a member', () => {
+    const data = treeOf([
+      member(1, 'Ann', { birthDate: '1900-01-01', deathDate: '1890-01-01' }),
+      member(2, 'Ben', { isLiving: true, deathDate: '1990-01-01' }),
+    ]);
+
+    expect(validateFamilyTree(data)).toMatchObject([
+      { code: 'death-before-birth', severity: 'error', memberIds: [1] },
+      { code: 'living-with-death-date', severity: 'error', memberIds: [2] },
+    ]);
+  });
+
+  it('should flag children born before or long after their parents', () => {
+    const data = treeOf(
+      [
+        member(1, 'Ann', { birthDate: '1950-01-01', deathDate: '1960-01-01' }),
+        member(2, 'Cal', { birthDate: '1940-01-01' }),
+        member(3, 'Dee', { birthDate: '1965-01-01' }),
+      ],
+      [link('parent-child', 1, 2, { id: 7 }), link('parent-child', 1, 3, { id: 8 })]
+    );
+
+    expect(validateFamilyTree(data)).toMatchObject([
+      { code: 'child-born-before-parent', severity: 'error', memberIds: [1, 2], relationshipIds: [7] },
+      { code: 'child-born-after-parent-death', severity: 'warning', memberIds: [1, 3], relationshipIds: [8] },
+    ]);
+  });
+
+  it('should flag marriages outside a spouse\'s lifetime', () => {
+    const data = treeOf(
+      [
+        member(1, 'Ann', { birthDate: '1900-01-01', deathDate: '1920-01-01' }),
+        member(2, 'Ben', { birthDate: '1930-01-01' }),
+      ],
+      [link('spouse', 1, 2, { id: 5, startDate: '1925-01-01' })]
+    );
+
+    expect(codes(data)).toEqual(['married-after-death', 'married-before-birth']);
+  });
+
+  it('should only flag inexact dates that cannot overlap', () => {
+    const data = treeOf([
+      member(1, 'Ann', { birthDate: '1850-06-01', deathDate: '1850-01-01', deathDateText: '1850' }),
+      member(2, 'Ben', { birthDate: '1850-06-01', deathDate: '1849-01-01', deathDateText: 'ABT 1849' }),
+      member(3, 'Cal', { birthDate: '1850-06-01', deathDate: '1849-01-01', deathDateText: 'BEF 1849' }),
+    ]);
+
+    expect(validateFamilyTree(data)).toMatchObject([
+      { code: 'death-before-birth', memberIds: [3] },
+    ]);
+  });
+
+  it('should report each parent-child loop once', () => {
+    const data = treeOf(
+      [member(1, 'Ann'), member(2, 'Ben'), member(3, 'Cal'), member(4, 'Dee')],
+      [
+        link('parent-child', 1, 2, { id: 1 }),
+        link('parent-child', 2, 3, { id: 2 }),
+        link('parent-child', 3, 1, { id: 3 }),
+        link('parent-child', 3, 4, { id: 4 }),
+      ]
+    );
+
+    const issues = validateFamilyTree(data);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      code: 'parent-child-cycle',
+      memberIds: [1, 2, 3],
+      relationshipIds: [1, 2, 3],
+      message: 'Ann → Ben → Cal → Ann form a loop of parent-child links',
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { AuditChanges } from "@shared/schema";
+
+// The person behind the request being handled, for the audit log
+const actorContext = new AsyncLocalStorage<string>();
+
+// Everything storage writes while `fn` runs is put down to `actor`
+export function runAs<T>(actor: string, fn: () => T): T {
+  return actorContext.run(actor, fn);
+}
+
+export function currentActor(): string | null {
+  return actorContext.getStore() ?? null;
+}
+
+// Columns that change on every write or identify the row, not part of an edit
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
+
+const normalise = (value: unknown) => (value instanceof Date ? value.toISOString() : value ?? null);
+
+/**
+ * The fields that differ between two versions of a row, each with its old
+ * and new value. A missing row is null, so a create lists every field with
+ * a null "before" and a delete every field with a null "after".
+ */
+export function diffRecords(before: object | null, after: object | null): AuditChanges {
+  const from = (before ?? {}) as Record<string, unknown>;
+  const to = (after ?? {}) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+  for (const key of Array.from(new Set([...Object.keys(from), ...Object.keys(to)]))) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    const old = normalise(from[key]);
+    const value = normalise(to[key]);
+    if (JSON.stringify(old) !== JSON.stringify(value)) {
+      changes[key] = { before: old, after: value };
+    }
+  }
+  return changes;
+}
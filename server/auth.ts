@@ -0,0 +1,145 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { storage } from "./storage";
+import { credentialsSchema, type User as AccountUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends AccountUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+
+// Stored as "<hash>.<salt>", both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Sessions, passport and the register/login/logout/user routes. Routes that
+ * need a signed-in user go after `requireAuth`.
+ */
+export function setupAuth(app: Express) {
+  const MemoryStore = createMemoryStore(session);
+  const secret = process.env.SESSION_SECRET;
+  if (!secret && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  app.use(session({
+    // Without a configured secret, sessions only last until the server restarts
+    secret: secret || randomBytes(32).toString("hex"),
+    resave: false,
+    saveUninitialized: false,
+    store: new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production" ? "auto" : false,
+      maxAge: SESSION_MAX_AGE,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const account = await storage.getUserByUsername(username.trim());
+      if (!account || !(await verifyPassword(password, account.passwordHash))) {
+        return done(null, false);
+      }
+      const { passwordHash: _, ...user } = account;
+      done(null, user);
+    } catch (error) {
+      done(error);
+    }
+  }));
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      // A deleted account simply ends the session
+      done(null, (await storage.getUser(id)) ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    let credentials;
+    try {
+      credentials = credentialsSchema.parse(req.body);
+    } catch (error) {
+      return res.status(400).json({
+        message: "Invalid username or password",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+
+    try {
+      const user = await storage.createUser({
+        username: credentials.username,
+        passwordHash: await hashPassword(credentials.password),
+      });
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(user);
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Username already taken') {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create account" });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: Express.User | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Wrong username or password" });
+      }
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => res.sendStatus(204));
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not signed in" });
+    }
+    res.json(req.user);
+  });
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) return next();
+  res.status(401).json({ message: "Sign in to continue" });
+}
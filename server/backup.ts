@@ -0,0 +1,65 @@
+import {
+  BACKUP_SCHEMA_VERSION,
+  type BackupData,
+  type Citation,
+  type FamilyTreeBackup,
+  type FamilyTreeData,
+  type Source,
+} from "@shared/schema";
+import type { FamilyTreeImport } from "./storage";
+
+/**
+ * Builds a versioned backup document from one tree. Rows keep their
+ * database IDs but not their tree, so a backup restores into any tree;
+ * positions are listed separately from the member details.
+ */
+export function createBackup(
+  tree: FamilyTreeData,
+  sources: Source[] = [],
+  citations: Citation[] = []
+): BackupData {
+  return {
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    members: tree.members.map(({ x, y, treeId, createdAt, updatedAt, ...member }) => member),
+    relationships: tree.relationships.map(({ treeId, createdAt, updatedAt, ...rel }) => rel),
+    events: tree.events.map(({ treeId, createdAt, updatedAt, ...event }) => event),
+    positions: tree.members.map(m => ({ memberId: m.id, x: m.x, y: m.y })),
+    sources: sources.map(({ treeId, createdAt, updatedAt, ...source }) => source),
+    citations: citations.map(({ createdAt, updatedAt, ...citation }) => citation),
+  };
+}
+
+/**
+ * Turns a validated backup into rows for `PostgresStorage.restoreFamilyTree`,
+ * keyed by the backed-up IDs so every link is remapped to the new serial IDs.
+ */
+export function backupToImport(backup: FamilyTreeBackup): FamilyTreeImport {
+  const positions = new Map(backup.positions.map(p => [p.memberId, p]));
+
+  return {
+    members: backup.members.map(({ id, ...member }) => ({
+      key: String(id),
+      data: { ...member, x: positions.get(id)?.x ?? 0, y: positions.get(id)?.y ?? 0 },
+    })),
+    relationships: backup.relationships.map(({ id, fromMemberId, toMemberId, ...rel }) => ({
+      key: String(id),
+      fromKey: String(fromMemberId),
+      toKey: String(toMemberId),
+      data: rel,
+    })),
+    events: backup.events.map(({ id, memberIds, ...event }) => ({
+      key: String(id),
+      memberKeys: memberIds.map(String),
+      data: event,
+    })),
+    sources: backup.sources.map(({ id, ...source }) => ({ key: String(id), data: source })),
+    citations: backup.citations.map(({ id, sourceId, memberId, relationshipId, eventId, ...citation }) => ({
+      sourceKey: String(sourceId),
+      memberKey: memberId == null ? undefined : String(memberId),
+      relationshipKey: relationshipId == null ? undefined : String(relationshipId),
+      eventKey: eventId == null ? undefined : String(eventId),
+      data: citation,
+    })),
+  };
+}
@@ -0,0 +1,134 @@
+import type { DuplicateCandidate, FamilyMember, FamilyTreeData } from "@shared/schema";
+
+// Pairs scoring below this are too different to be worth a review
+export const DUPLICATE_THRESHOLD = 0.6;
+
+const SOUNDEX_CODES: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3',
+  l: '4',
+  m: '5', n: '5',
+  r: '6',
+};
+
+/**
+ * American Soundex: the first letter followed by three digits for the
+ * consonant sounds that follow, so "Robert" and "Rupert" are both R163.
+ */
+export function soundex(name: string): string {
+  const letters = name.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return '';
+
+  let code = letters[0].toUpperCase();
+  let previous = SOUNDEX_CODES[letters[0]] ?? '';
+  for (const letter of letters.slice(1)) {
+    const digit = SOUNDEX_CODES[letter];
+    if (digit && digit !== previous) {
+      code += digit;
+      if (code.length === 4) break;
+    }
+    // h and w do not separate letters with the same code; vowels do
+    if (letter !== 'h' && letter !== 'w') previous = digit ?? '';
+  }
+  return code.padEnd(4, '0');
+}
+
+const normalise = (value: string | null | undefined) => (value ?? '').trim().toLowerCase();
+
+function yearOf(value: unknown): number | null {
+  if (!value) return null;
+  const date = new Date(value as string | Date);
+  return isNaN(date.getTime()) ? null : date.getUTCFullYear();
+}
+
+function dayOf(value: unknown): string | null {
+  if (!value) return null;
+  const date = new Date(value as string | Date);
+  return isNaN(date.getTime()) ? null : date.toISOString().split('T')[0];
+}
+
+function compareNames(label: string, a: string | null, b: string | null, exact: number, phonetic: number) {
+  const left = normalise(a);
+  const right = normalise(b);
+  if (!left || !right) return null;
+  if (left === right) return { score: exact, reason: `Same ${label}` };
+  if (soundex(left) === soundex(right)) return { score: phonetic, reason: `${label[0].toUpperCase()}${label.slice(1)}s sound alike` };
+  return { score: 0, reason: null };
+}
+
+function compareDates(label: string, a: unknown, b: unknown, exact: number, sameYear: number) {
+  const left = yearOf(a);
+  const right = yearOf(b);
+  if (left === null || right === null) return { score: 0, reason: null };
+  if (dayOf(a) === dayOf(b)) return { score: exact, reason: `Same ${label} date` };
+  if (left === right) return { score: sameYear, reason: `Same ${label} year` };
+  const gap = Math.abs(left - right);
+  if (gap <= 2) return { score: 0.05, reason: `${label[0].toUpperCase()}${label.slice(1)} years within ${gap} of each other` };
+  if (gap > 5) return { score: -0.4, reason: `${label[0].toUpperCase()}${label.slice(1)} years differ by ${gap}` };
+  return { score: 0, reason: null };
+}
+
+/**
+ * Scores how likely two members are the same person, from 0 to 1, with the
+ * reasons behind it. Returns null when the names do not match at all or the
+ * recorded genders conflict.
+ */
+export function scoreDuplicatePair(a: FamilyMember, b: FamilyMember): Omit<DuplicateCandidate, 'memberIds'> | null {
+  const genders = ['male', 'female'];
+  if (genders.includes(a.gender ?? '') && genders.includes(b.gender ?? '') && a.gender !== b.gender) {
+    return null;
+  }
+
+  const first = compareNames('first name', a.firstName, b.firstName, 0.35, 0.25);
+  const last = compareNames('last name', a.lastName, b.lastName, 0.3, 0.2);
+  if (!first?.reason && !last?.reason) return null;
+  if (first && !first.reason) return null;
+
+  const parts = [
+    first,
+    last,
+    compareDates('birth', a.birthDate, b.birthDate, 0.25, 0.15),
+    compareDates('death', a.deathDate, b.deathDate, 0.15, 0.1),
+  ];
+  for (const [label, left, right] of [
+    ['birth place', a.birthPlace, b.birthPlace],
+    ['death place', a.deathPlace, b.deathPlace],
+  ] as const) {
+    if (normalise(left) && normalise(left) === normalise(right)) {
+      parts.push({ score: 0.1, reason: `Same ${label}` });
+    }
+  }
+
+  const score = parts.reduce((total, part) => total + (part?.score ?? 0), 0);
+  return {
+    score: Math.round(Math.min(1, Math.max(0, score)) * 100) / 100,
+    reasons: parts.flatMap(part => (part?.reason ? [part.reason] : [])),
+  };
+}
+
+/**
+ * Lists pairs of members that are probably the same person, best match
+ * first. Members already linked to each other are never suggested.
+ */
+export function findDuplicates(tree: FamilyTreeData, threshold = DUPLICATE_THRESHOLD): DuplicateCandidate[] {
+  const linked = new Set(tree.relationships.flatMap(r => [
+    `${r.fromMemberId}:${r.toMemberId}`,
+    `${r.toMemberId}:${r.fromMemberId}`,
+  ]));
+
+  const candidates: DuplicateCandidate[] = [];
+  for (let i = 0; i < tree.members.length; i++) {
+    for (let j = i + 1; j < tree.members.length; j++) {
+      const a = tree.members[i];
+      const b = tree.members[j];
+      if (linked.has(`${a.id}:${b.id}`)) continue;
+
+      const match = scoreDuplicatePair(a, b);
+      if (match && match.score >= threshold) {
+        candidates.push({ memberIds: [a.id, b.id], ...match });
+      }
+    }
+  }
+  return candidates.sort((x, y) => y.score - x.score);
+}
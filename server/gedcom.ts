@@ -0,0 +1,908 @@
+import {
+  familyEventTypes,
+  MEMBER_PRIVACY,
+  insertFamilyMemberSchema,
+  insertRelationshipSchema,
+  insertFamilyEventSchema,
+  type FamilyMember,
+  type InsertFamilyMember,
+  type InsertRelationship,
+  type Relationship,
+  type InsertFamilyEvent,
+  type FamilyTreeData,
+  type GedcomImportReport,
+  type GedcomSkippedTag,
+} from "@shared/schema";
+import { parseGenealogicalDate, sortDateOf, isExactDay, toGedcomDate } from "@shared/dates";
+import type { FamilyTreeImport } from "./storage";
+import { computeLayout, CARD_WIDTH, X_SPACING } from "./layout";
+
+export interface GedcomNode {
+  level: number;
+  xref?: string;
+  tag: string;
+  value: string;
+  line: number;
+  children: GedcomNode[];
+}
+
+interface GedcomEventDetails {
+  date: Date | null;
+  dateText: string | null;
+  place?: string;
+  type?: string;
+  note?: string;
+  sharedWith: string[];
+}
+
+type ChildLink = Partial<Pick<InsertRelationship,
+  'subType' | 'notes' | 'status' | 'startDate' | 'startDateText' | 'endDate' | 'endDateText'>>;
+
+export interface GedcomImportResult {
+  data: FamilyTreeImport;
+  report: GedcomImportReport;
+}
+
+// Pedigree linkage values mapped onto relationship subTypes
+const PEDIGREE_SUBTYPES: Record<string, InsertRelationship['subType']> = {
+  birth: 'biological',
+  adopted: 'adopted',
+  foster: 'foster',
+  step: 'step',
+};
+
+// Individual events that become family_events rows
+const INDIVIDUAL_EVENTS: Record<string, { type: InsertFamilyEvent['type']; label: string }> = {
+  GRAD: { type: 'graduation', label: 'Graduation' },
+  ADOP: { type: 'adoption', label: 'Adoption' },
+  RESI: { type: 'move', label: 'Residence' },
+  EMIG: { type: 'move', label: 'Emigration' },
+  IMMI: { type: 'move', label: 'Immigration' },
+  BAPM: { type: 'other', label: 'Baptism' },
+  CHR: { type: 'other', label: 'Christening' },
+  CONF: { type: 'other', label: 'Confirmation' },
+  FCOM: { type: 'other', label: 'First communion' },
+  BARM: { type: 'other', label: 'Bar mitzvah' },
+  BASM: { type: 'other', label: 'Bat mitzvah' },
+  BLES: { type: 'other', label: 'Blessing' },
+  ORDN: { type: 'other', label: 'Ordination' },
+  NATU: { type: 'other', label: 'Naturalization' },
+  CENS: { type: 'other', label: 'Census' },
+  PROB: { type: 'other', label: 'Probate' },
+  WILL: { type: 'other', label: 'Will' },
+  RETI: { type: 'other', label: 'Retirement' },
+  BURI: { type: 'other', label: 'Burial' },
+  CREM: { type: 'other', label: 'Cremation' },
+  EVEN: { type: 'other', label: 'Event' },
+};
+
+// Family events other than MARR/DIV, which are stored on the spouse relationship
+const FAMILY_EVENTS: Record<string, { type: InsertFamilyEvent['type']; label: string }> = {
+  ENGA: { type: 'other', label: 'Engagement' },
+  MARB: { type: 'other', label: 'Marriage banns' },
+  MARC: { type: 'other', label: 'Marriage contract' },
+  MARL: { type: 'other', label: 'Marriage license' },
+  MARS: { type: 'other', label: 'Marriage settlement' },
+  ANUL: { type: 'other', label: 'Annulment' },
+  DIVF: { type: 'other', label: 'Divorce filed' },
+  CENS: { type: 'other', label: 'Census' },
+  EVEN: { type: 'other', label: 'Event' },
+};
+
+// Sub-tags read from event structures; _SHAR lists other participants
+const EVENT_DETAIL_TAGS = new Set(['DATE', 'PLAC', 'TYPE', 'NOTE', '_SHAR']);
+
+// Top-level records with nothing to import and nothing worth reporting
+const IGNORED_RECORDS = new Set(['HEAD', 'TRLR', 'SUBM', 'SUBN']);
+
+/**
+ * Parses GEDCOM text into a tree of level-0 records. CONC/CONT continuation
+ * lines are folded into the value of the line they continue.
+ */
+export function parseGedcomLines(text: string): GedcomNode[] {
+  const records: GedcomNode[] = [];
+  const stack: GedcomNode[] = [];
+  const lines = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+
+  lines.forEach((raw, index) => {
+    const match = raw.trim().match(/^(\d+)\s+(?:(@[^@]+@)\s+)?(\S+)(?:\s(.*))?$/);
+    if (!match) return;
+
+    const node: GedcomNode = {
+      level: parseInt(match[1]),
+      xref: match[2],
+      tag: match[3].toUpperCase(),
+      value: match[4] ?? '',
+      line: index + 1,
+      children: [],
+    };
+
+    while (stack.length && stack[stack.length - 1].level >= node.level) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+
+    if (parent && (node.tag === 'CONC' || node.tag === 'CONT')) {
+      parent.value += (node.tag === 'CONT' ? '\n' : '') + node.value;
+      return;
+    }
+
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      records.push(node);
+    }
+    stack.push(node);
+  });
+
+  return records;
+}
+
+/**
+ * Converts a GEDCOM date value into its sort date. Qualified, ranged and
+ * partial dates are flagged as approximate and keep their GEDCOM form in
+ * `text`, which is what the *DateText columns store.
+ */
+export function parseGedcomDate(value: string): { date: Date | null; approximate: boolean; text: string | null } {
+  const parsed = parseGenealogicalDate(value);
+  if (!parsed) return { date: null, approximate: Boolean(value.trim()), text: null };
+
+  const exact = isExactDay(parsed);
+  return {
+    date: new Date(sortDateOf(parsed)),
+    approximate: !exact,
+    text: exact ? null : toGedcomDate(parsed),
+  };
+}
+
+function child(node: GedcomNode, tag: string): GedcomNode | undefined {
+  return node.children.find(c => c.tag === tag);
+}
+
+function childrenOf(node: GedcomNode, tag: string): GedcomNode[] {
+  return node.children.filter(c => c.tag === tag);
+}
+
+function clip(value: string | undefined, length: number): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed.slice(0, length) : undefined;
+}
+
+// Given names are split on the first word unless _MIDN marks GIVN as the
+// first name alone, as exportGedcom writes it
+function splitName(node: GedcomNode): { firstName: string; middleName?: string; lastName?: string } {
+  const surname = child(node, 'SURN')?.value ?? node.value.match(/\/([^/]*)\//)?.[1];
+  const givenNode = child(node, 'GIVN');
+  const middle = child(node, '_MIDN');
+  if (givenNode && middle) {
+    return {
+      firstName: clip(givenNode.value, 100) ?? 'Unknown',
+      middleName: clip(middle.value, 100),
+      lastName: clip(surname, 100),
+    };
+  }
+  const given = givenNode?.value ?? node.value.replace(/\/[^/]*\/?/, ' ');
+  const [first, ...rest] = given.trim().split(/\s+/).filter(Boolean);
+
+  return {
+    firstName: clip(first, 100) ?? 'Unknown',
+    middleName: clip(rest.join(' '), 100),
+    lastName: clip(surname, 100),
+  };
+}
+
+class GedcomImporter {
+  private notes = new Map<string, string>();
+  private usedNotes = new Set<string>();
+  private skipped: GedcomSkippedTag[] = [];
+  private members = new Map<string, InsertFamilyMember>();
+  private relationships = new Map<string, FamilyTreeImport['relationships'][number]>();
+  private events: FamilyTreeImport['events'] = [];
+  // Child xref -> family xref -> link details from FAMC (PEDI, NOTE) or ADOP
+  private childLinks = new Map<string, Map<string, ChildLink>>();
+
+  constructor(private records: GedcomNode[], private origin?: { x: number; y: number }) {
+    records
+      .filter(r => r.tag === 'NOTE' && r.xref)
+      .forEach(r => this.notes.set(r.xref!, r.value));
+  }
+
+  run(): GedcomImportResult {
+    for (const record of this.records) {
+      if (record.tag === 'INDI' && record.xref) {
+        this.readIndividual(record);
+      } else if (record.tag === 'HEAD') {
+        const charset = child(record, 'CHAR')?.value.toUpperCase();
+        if (charset && !['UTF-8', 'UTF8', 'ASCII', 'UNICODE'].includes(charset)) {
+          this.skip(record, 'HEAD', `Character set ${charset} is not supported; text was read as UTF-8`);
+        }
+      } else if (record.tag !== 'FAM' && record.tag !== 'NOTE' && !IGNORED_RECORDS.has(record.tag)) {
+        this.skip(record, record.tag, 'Unsupported record type');
+      }
+    }
+
+    // Families need every individual's pedigree links, so read them second
+    this.records
+      .filter(r => r.tag === 'FAM')
+      .forEach(r => this.readFamily(r));
+
+    // Shared notes are imported through the records that point at them
+    this.records
+      .filter(r => r.tag === 'NOTE' && !(r.xref && this.usedNotes.has(r.xref)))
+      .forEach(r => this.skip(r, r.xref ? `NOTE ${r.xref}` : 'NOTE', 'Note is not attached to any imported record'));
+
+    this.events.forEach(event => {
+      event.memberKeys = event.memberKeys.filter(key => {
+        if (this.members.has(key)) return true;
+        this.skipped.push({ line: 0, tag: '_SHAR', path: key, reason: `Unknown individual ${key} left out of a shared event` });
+        return false;
+      });
+    });
+
+    const relationships = Array.from(this.relationships.values());
+    const positions = this.layout(relationships);
+    const members = Array.from(this.members.entries()).map(([key, data]) => ({
+      key,
+      data: { ...data, ...positions.get(key) },
+    }));
+
+    return {
+      data: { members, relationships, events: this.events },
+      report: {
+        members: members.length,
+        relationships: relationships.length,
+        events: this.events.length,
+        skipped: this.skipped,
+      },
+    };
+  }
+
+  // Lays the imported people out as the canvas would, keyed by xref and
+  // shifted to start at the origin
+  private layout(relationships: FamilyTreeImport['relationships']): Map<string, { x: number; y: number }> {
+    const keys = Array.from(this.members.keys());
+    const ids = new Map(keys.map((key, index) => [key, index + 1]));
+    const layout = computeLayout({
+      members: keys.map(key => ({ ...this.members.get(key)!, id: ids.get(key)! })),
+      relationships: relationships
+        .filter(({ fromKey, toKey }) => ids.has(fromKey) && ids.has(toKey))
+        .map(({ fromKey, toKey, data }) => ({
+          fromMemberId: ids.get(fromKey)!,
+          toMemberId: ids.get(toKey)!,
+          type: data.type,
+          subType: data.subType,
+        })),
+    });
+    const { x, y } = this.origin ?? { x: 0, y: 0 };
+    return new Map(layout.map(p => [keys[p.memberId - 1], { x: x + p.x, y: y + p.y }]));
+  }
+
+  private skip(node: GedcomNode, path: string, reason: string) {
+    this.skipped.push({ line: node.line, tag: node.tag, path, reason });
+  }
+
+  private noteText(node: GedcomNode): string {
+    const pointer = node.value.match(/^@[^@]+@$/);
+    if (!pointer) return node.value;
+    this.usedNotes.add(node.value);
+    return this.notes.get(node.value) ?? '';
+  }
+
+  private readDate(node: GedcomNode | undefined, path: string): { date: Date | null; text: string | null } {
+    if (!node) return { date: null, text: null };
+    const { date, text } = parseGedcomDate(node.value);
+    if (!date) {
+      this.skip(node, path, `Unrecognised date "${node.value}"`);
+    }
+    return { date, text };
+  }
+
+  private reportUnhandled(node: GedcomNode, path: string, handled: Set<string>) {
+    node.children
+      .filter(c => !handled.has(c.tag))
+      .forEach(c => this.skip(c, `${path} > ${c.tag}`, 'Unsupported tag'));
+  }
+
+  private readEvent(node: GedcomNode, path: string): GedcomEventDetails {
+    // ADOP points at the adopting family, which readAdoption handles
+    const handled = node.tag === 'ADOP' ? new Set(Array.from(EVENT_DETAIL_TAGS).concat('FAMC')) : EVENT_DETAIL_TAGS;
+    this.reportUnhandled(node, path, handled);
+    const type = child(node, 'TYPE')?.value;
+    const notes = childrenOf(node, 'NOTE').map(n => this.noteText(n)).filter(Boolean);
+    const { date, text: dateText } = this.readDate(child(node, 'DATE'), `${path} > DATE`);
+    return {
+      date,
+      dateText,
+      place: clip(child(node, 'PLAC')?.value, 255),
+      type,
+      note: notes.length ? notes.join('\n\n') : undefined,
+      sharedWith: childrenOf(node, '_SHAR').map(n => n.value.trim()),
+    };
+  }
+
+  private addEvent(
+    memberKeys: string[],
+    definition: { type: InsertFamilyEvent['type']; label: string },
+    node: GedcomNode,
+    path: string,
+    details: GedcomEventDetails = this.readEvent(node, path),
+  ) {
+    // EVEN records written by exportGedcom name one of our event types in TYPE
+    const namedType = node.tag === 'EVEN'
+      ? familyEventTypes.find(t => t === details.type?.toLowerCase())
+      : undefined;
+    const type = namedType ?? definition.type;
+    const label = namedType ? undefined : details.type || definition.label;
+    const description = [
+      type === 'other' || details.type ? label : undefined,
+      node.value && node.value !== 'Y' ? node.value : undefined,
+      details.note,
+    ].filter(Boolean).join(': ') || undefined;
+
+    const parsed = insertFamilyEventSchema.omit({ memberIds: true }).safeParse({
+      type,
+      date: details.date,
+      dateText: details.dateText,
+      place: details.place,
+      description,
+    });
+    if (!parsed.success) {
+      this.skip(node, path, parsed.error.errors[0]?.message ?? 'Invalid event');
+      return;
+    }
+    const participants = Array.from(new Set(memberKeys.concat(details.sharedWith)));
+    this.events.push({ memberKeys: participants, data: parsed.data });
+  }
+
+  private readIndividual(record: GedcomNode) {
+    const key = record.xref!;
+    const path = `INDI ${key}`;
+    const member: Record<string, unknown> = { firstName: 'Unknown', isLiving: true };
+    const biography: string[] = [];
+    const occupations: string[] = [];
+    let hasName = false;
+    let hasDeath = false;
+
+    for (const node of record.children) {
+      const nodePath = `${path} > ${node.tag}`;
+      switch (node.tag) {
+        case 'NAME':
+          if (hasName) {
+            this.skip(node, nodePath, 'Only the first NAME is imported');
+            break;
+          }
+          hasName = true;
+          Object.assign(member, splitName(node));
+          this.reportUnhandled(node, nodePath, new Set(['GIVN', 'SURN', '_MIDN']));
+          break;
+        case 'SEX':
+          member.gender ??= { M: 'male', F: 'female', U: 'unknown' }[node.value.trim().toUpperCase()] ?? 'other';
+          break;
+        case '_GENDER':
+          member.gender = node.value.trim().toLowerCase();
+          break;
+        case '_PRIV': {
+          const privacy = MEMBER_PRIVACY.find(p => p === node.value.trim().toLowerCase());
+          if (privacy) {
+            member.privacy = privacy;
+          } else {
+            this.skip(node, nodePath, `Unsupported privacy "${node.value}"`);
+          }
+          break;
+        }
+        case 'BIRT': {
+          const details = this.readEvent(node, nodePath);
+          member.birthDate = details.date ?? undefined;
+          member.birthDateText = details.dateText ?? undefined;
+          member.birthPlace = details.place;
+          break;
+        }
+        case 'DEAT': {
+          hasDeath = true;
+          const details = this.readEvent(node, nodePath);
+          member.deathDate = details.date;
+          member.deathDateText = details.dateText;
+          member.deathPlace = details.place;
+          break;
+        }
+        case 'OCCU':
+          if (node.value) occupations.push(node.value);
+          this.reportUnhandled(node, nodePath, new Set());
+          break;
+        case 'NOTE':
+          biography.push(this.noteText(node));
+          break;
+        case 'EMAIL':
+          member.email = clip(node.value, 255);
+          break;
+        case 'OBJE': {
+          const file = child(node, 'FILE')?.value.trim();
+          if (file && /^https?:\/\//i.test(file) && !member.photoUrl) {
+            member.photoUrl = clip(file, 500);
+          } else {
+            this.skip(node, nodePath, 'Only a linked web image can be used as the photo');
+          }
+          break;
+        }
+        case 'FAMC':
+          this.readPedigree(key, node, nodePath);
+          break;
+        case 'FAMS':
+          break;
+        default: {
+          const definition = INDIVIDUAL_EVENTS[node.tag];
+          if (!definition) {
+            this.skip(node, nodePath, 'Unsupported tag');
+            break;
+          }
+          if (node.tag === 'BURI' || node.tag === 'CREM') hasDeath = true;
+          if (node.tag === 'ADOP') this.readAdoption(key, node);
+          this.addEvent([key], definition, node, nodePath);
+        }
+      }
+    }
+
+    if (occupations.length) member.occupation = clip(occupations.join('; '), 255);
+    if (biography.length) member.biography = biography.filter(Boolean).join('\n\n');
+
+    // Without a death record, treat anyone born over 110 years ago as deceased
+    const birthYear = (member.birthDate as Date | undefined)?.getUTCFullYear();
+    const tooOld = birthYear !== undefined && new Date().getUTCFullYear() - birthYear > 110;
+    member.isLiving = !hasDeath && !tooOld;
+
+    let parsed = insertFamilyMemberSchema.safeParse(member);
+    if (!parsed.success && member.email) {
+      this.skip(record, `${path} > EMAIL`, `Invalid email "${member.email}"`);
+      delete member.email;
+      parsed = insertFamilyMemberSchema.safeParse(member);
+    }
+    if (!parsed.success) {
+      this.skip(record, path, parsed.error.errors[0]?.message ?? 'Invalid individual');
+      return;
+    }
+    this.members.set(key, parsed.data);
+  }
+
+  private setChildLink(childKey: string, familyKey: string, link: ChildLink) {
+    if (!this.childLinks.has(childKey)) this.childLinks.set(childKey, new Map());
+    const links = this.childLinks.get(childKey)!;
+    links.set(familyKey, { ...links.get(familyKey), ...link });
+  }
+
+  private readPedigree(childKey: string, node: GedcomNode, path: string) {
+    const pedigree = child(node, 'PEDI');
+    if (pedigree) {
+      const subType = PEDIGREE_SUBTYPES[pedigree.value.trim().toLowerCase()];
+      if (subType) {
+        this.setChildLink(childKey, node.value, { subType });
+      } else {
+        this.skip(pedigree, `${path} > PEDI`, `Unsupported pedigree "${pedigree.value}" imported as biological`);
+      }
+    }
+    const notes = childrenOf(node, 'NOTE').map(n => this.noteText(n)).filter(Boolean);
+    if (notes.length) {
+      this.setChildLink(childKey, node.value, { notes: notes.join('\n\n') });
+    }
+    // Start date, status and end date written by exportGedcom
+    const start = child(node, '_DATE');
+    if (start) {
+      const { date, text } = this.readDate(start, `${path} > _DATE`);
+      this.setChildLink(childKey, node.value, { startDate: date, startDateText: text });
+    }
+    const status = child(node, '_STAT');
+    if (status) {
+      const { date, text } = this.readDate(child(status, 'DATE'), `${path} > _STAT > DATE`);
+      this.setChildLink(childKey, node.value, {
+        status: status.value.trim().toLowerCase() as ChildLink['status'],
+        endDate: date,
+        endDateText: text,
+      });
+      this.reportUnhandled(status, `${path} > _STAT`, new Set(['DATE']));
+    }
+    this.reportUnhandled(node, path, new Set(['PEDI', 'NOTE', '_DATE', '_STAT']));
+  }
+
+  private readAdoption(childKey: string, node: GedcomNode) {
+    const family = child(node, 'FAMC');
+    if (family) this.setChildLink(childKey, family.value, { subType: 'adopted' });
+  }
+
+  private addRelationship(
+    fromKey: string,
+    toKey: string,
+    fields: Record<string, unknown>,
+    node: GedcomNode,
+    path: string,
+  ) {
+    const parsed = insertRelationshipSchema
+      .omit({ fromMemberId: true, toMemberId: true })
+      .safeParse(fields);
+    if (!parsed.success) {
+      this.skip(node, path, parsed.error.errors[0]?.message ?? 'Invalid relationship');
+      return;
+    }
+    const data = parsed.data;
+    const pairKey = `${fromKey}|${toKey}|${data.type}`;
+    if (!this.relationships.has(pairKey)) {
+      this.relationships.set(pairKey, { fromKey, toKey, data });
+    }
+  }
+
+  private readFamily(record: GedcomNode) {
+    const familyKey = record.xref ?? '';
+    const path = `FAM ${familyKey}`;
+    const parents: string[] = [];
+    const children: GedcomNode[] = [];
+    const spouse: Record<string, unknown> = { type: 'spouse', status: 'active' };
+    const pending: Array<[GedcomNode, string, GedcomEventDetails?]> = [];
+    const notes: string[] = [];
+
+    for (const node of record.children) {
+      const nodePath = `${path} > ${node.tag}`;
+      switch (node.tag) {
+        case 'HUSB':
+        case 'WIFE':
+          if (this.members.has(node.value)) {
+            parents.push(node.value);
+          } else {
+            this.skip(node, nodePath, `Unknown individual ${node.value}`);
+          }
+          break;
+        case 'CHIL':
+          children.push(node);
+          break;
+        case 'MARR': {
+          const details = this.readEvent(node, nodePath);
+          spouse.startDate = details.date;
+          spouse.startDateText = details.dateText;
+          if (details.place || details.note) pending.push([node, nodePath, details]);
+          break;
+        }
+        case 'DIV': {
+          const details = this.readEvent(node, nodePath);
+          spouse.status = 'divorced';
+          spouse.endDate = details.date;
+          spouse.endDateText = details.dateText;
+          if (details.place || details.note) pending.push([node, nodePath, details]);
+          break;
+        }
+        case '_STAT':
+          // Relationship status written by exportGedcom, with the end date nested
+          spouse.status = node.value.trim().toLowerCase();
+          ({ date: spouse.endDate, text: spouse.endDateText } = this.readDate(child(node, 'DATE'), `${nodePath} > DATE`));
+          this.reportUnhandled(node, nodePath, new Set(['DATE']));
+          break;
+        case 'NOTE':
+          notes.push(this.noteText(node));
+          break;
+        default:
+          if (FAMILY_EVENTS[node.tag]) {
+            pending.push([node, nodePath]);
+          } else {
+            this.skip(node, nodePath, 'Unsupported tag');
+          }
+      }
+    }
+
+    if (notes.length) spouse.notes = notes.filter(Boolean).join('\n\n');
+    if (parents.length === 2) {
+      this.addRelationship(parents[0], parents[1], spouse, record, path);
+    }
+
+    // A marriage or divorce with a place or note also becomes an event so the place is kept
+    for (const [node, nodePath, details] of pending) {
+      if (!parents.length) {
+        this.skip(node, nodePath, 'Family event has no spouses to attach to');
+        continue;
+      }
+      const definition = node.tag === 'MARR'
+        ? { type: 'marriage' as const, label: 'Marriage' }
+        : node.tag === 'DIV'
+          ? { type: 'divorce' as const, label: 'Divorce' }
+          : FAMILY_EVENTS[node.tag];
+      this.addEvent(parents, definition, node, nodePath, details);
+    }
+
+    for (const node of children) {
+      const childKey = node.value;
+      if (!this.members.has(childKey)) {
+        this.skip(node, `${path} > CHIL`, `Unknown individual ${childKey}`);
+        continue;
+      }
+      const link = this.childLinks.get(childKey)?.get(familyKey);
+      const fields = { ...link, type: 'parent-child', subType: link?.subType ?? 'biological' };
+      parents.forEach(parentKey => {
+        this.addRelationship(parentKey, childKey, fields, node, `${path} > CHIL`);
+      });
+      this.reportUnhandled(node, `${path} > CHIL`, new Set());
+    }
+  }
+}
+
+/**
+ * Converts a GEDCOM 5.5.1 file into rows ready for
+ * `PostgresStorage.importFamilyTree`, keyed by the file's xref IDs, along
+ * with a report of everything that could not be imported. Imported people
+ * are laid out to the right of any existing members.
+ */
+export function importGedcom(text: string, existingMembers: FamilyMember[] = []): GedcomImportResult {
+  const records = parseGedcomLines(text);
+  if (!records.some(r => r.tag === 'HEAD')) {
+    throw new Error('Not a GEDCOM file: missing HEAD record');
+  }
+  const originX = existingMembers.length
+    ? Math.max(...existingMembers.map(m => m.x)) + CARD_WIDTH + X_SPACING
+    : 0;
+  return new GedcomImporter(records, { x: originX, y: 0 }).run();
+}
+
+// Lines may not exceed 255 characters, so long values are split with CONC
+const MAX_VALUE_LENGTH = 200;
+
+// Event types with a native individual tag; the rest are written as EVEN + TYPE
+const EVENT_TAGS: Partial<Record<InsertFamilyEvent['type'], string>> = {
+  graduation: 'GRAD',
+  adoption: 'ADOP',
+  move: 'RESI',
+};
+
+// Relationship subTypes written as PEDI values
+const SUBTYPE_PEDIGREES: Record<string, string> = {
+  biological: 'birth',
+  adopted: 'adopted',
+  foster: 'foster',
+  step: 'step',
+};
+
+// Inexact dates are written from their text column as stored
+function formatGedcomDate(value: Date | string | null | undefined, text?: string | null): string | undefined {
+  if (text) return text;
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return undefined;
+  return toGedcomDate({
+    qualifier: 'exact',
+    start: { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() },
+  });
+}
+
+class GedcomWriter {
+  lines: string[] = [];
+
+  line(level: number, tag: string, value?: string | null, xref?: string) {
+    this.lines.push([level, xref, tag, value].filter(part => part !== undefined && part !== null && part !== '').join(' '));
+  }
+
+  // Writes a line only when there is a value to hold
+  field(level: number, tag: string, value?: string | null) {
+    if (value) this.line(level, tag, value);
+  }
+
+  // Writes free text, using CONT for line breaks and CONC for long lines
+  text(level: number, tag: string, value: string) {
+    value.split(/\r\n|\r|\n/).forEach((paragraph, index) => {
+      const chunks = paragraph.match(new RegExp(`[\\s\\S]{1,${MAX_VALUE_LENGTH}}`, 'g')) ?? [''];
+      chunks.forEach((chunk, chunkIndex) => {
+        if (index === 0 && chunkIndex === 0) {
+          this.line(level, tag, chunk);
+        } else {
+          this.line(level + 1, chunkIndex === 0 ? 'CONT' : 'CONC', chunk);
+        }
+      });
+    });
+  }
+
+  event(level: number, tag: string, date?: string, place?: string | null, value?: string) {
+    this.line(level, tag, value);
+    this.field(level + 1, 'DATE', date);
+    this.field(level + 1, 'PLAC', place);
+  }
+}
+
+type ExportFamily = {
+  xref: string;
+  parents: number[];
+  spouse?: Relationship;
+  children: Array<{ id: number; subType?: string | null; link: Relationship }>;
+  events: FamilyTreeData['events'];
+};
+
+// Parent links written on a child's FAMC beyond the pedigree
+const CHILD_LINK_FIELDS = ['notes', 'status', 'startDate', 'startDateText', 'endDate', 'endDateText'] as const;
+
+/**
+ * Serializes the whole tree as a GEDCOM 5.5.1 file. Spouse relationships
+ * become FAM records holding the couple's shared children; a child whose
+ * parents are not a couple gets a single-parent FAM per parent so nothing is
+ * invented on re-import. Data with no 5.5.1 equivalent uses the _GENDER,
+ * _PRIV, _MIDN, _DATE, _STAT and _SHAR extension tags, which importGedcom
+ * reads back.
+ */
+export function exportGedcom(tree: FamilyTreeData): string {
+  const memberIds = new Set(tree.members.map(m => m.id));
+  const indi = (id: number) => `@I${id}@`;
+  const families: ExportFamily[] = [];
+  const coupleFamilies = new Map<string, ExportFamily>();
+  const singleFamilies = new Map<number, ExportFamily>();
+  const coupleKey = (a: number, b: number) => `${Math.min(a, b)}|${Math.max(a, b)}`;
+  const newFamily = (parents: number[], spouse?: ExportFamily['spouse']): ExportFamily => {
+    const family = { xref: `@F${families.length + 1}@`, parents, spouse, children: [], events: [] };
+    families.push(family);
+    return family;
+  };
+
+  tree.relationships
+    .filter(r => r.type === 'spouse' && memberIds.has(r.fromMemberId) && memberIds.has(r.toMemberId))
+    .forEach(r => {
+      const key = coupleKey(r.fromMemberId, r.toMemberId);
+      if (!coupleFamilies.has(key)) {
+        coupleFamilies.set(key, newFamily([r.fromMemberId, r.toMemberId], r));
+      }
+    });
+
+  // Group each child's parent links into the couple families they belong to
+  const parentLinks = new Map<number, FamilyTreeData['relationships']>();
+  tree.relationships
+    .filter(r => r.type !== 'spouse' && memberIds.has(r.fromMemberId) && memberIds.has(r.toMemberId))
+    .forEach(r => {
+      if (!parentLinks.has(r.toMemberId)) parentLinks.set(r.toMemberId, []);
+      parentLinks.get(r.toMemberId)!.push(r);
+    });
+
+  const subTypeOf = (r: Relationship) =>
+    r.type === 'adopted' ? 'adopted' : r.type === 'step-parent' ? 'step' : r.subType;
+  // Two parents share a FAM only when their links to the child read the same
+  const sameLink = (a: Relationship, b: Relationship) =>
+    subTypeOf(a) === subTypeOf(b) && CHILD_LINK_FIELDS.every(field => String(a[field] ?? '') === String(b[field] ?? ''));
+
+  parentLinks.forEach((links, childId) => {
+    const remaining = [...links];
+    for (let i = 0; i < remaining.length; i++) {
+      for (let j = i + 1; j < remaining.length; j++) {
+        const family = coupleFamilies.get(coupleKey(remaining[i].fromMemberId, remaining[j].fromMemberId));
+        if (family && sameLink(remaining[i], remaining[j])) {
+          family.children.push({ id: childId, subType: subTypeOf(remaining[i]), link: remaining[i] });
+          remaining.splice(j, 1);
+          remaining.splice(i, 1);
+          i = -1;
+          break;
+        }
+      }
+    }
+    remaining.forEach(link => {
+      const parentId = link.fromMemberId;
+      if (!singleFamilies.has(parentId)) singleFamilies.set(parentId, newFamily([parentId]));
+      singleFamilies.get(parentId)!.children.push({ id: childId, subType: subTypeOf(link), link });
+    });
+  });
+
+  // A marriage or divorce event for a couple is folded into their MARR/DIV
+  const individualEvents = new Map<number, FamilyTreeData['events']>();
+  tree.events.forEach(event => {
+    const members = event.memberIds.filter(id => memberIds.has(id));
+    if (!members.length) return;
+    const family = members.length === 2 ? coupleFamilies.get(coupleKey(members[0], members[1])) : undefined;
+    const spouse = family?.spouse;
+    const eventDate = formatGedcomDate(event.date, event.dateText);
+    const foldable = spouse && (event.place || event.description) && (
+      (event.type === 'marriage' && eventDate === formatGedcomDate(spouse.startDate, spouse.startDateText)) ||
+      (event.type === 'divorce' && spouse.status === 'divorced' && eventDate === formatGedcomDate(spouse.endDate, spouse.endDateText))
+    );
+    if (foldable && !family!.events.some(e => e.type === event.type)) {
+      family!.events.push(event);
+      return;
+    }
+    if (!individualEvents.has(members[0])) individualEvents.set(members[0], []);
+    individualEvents.get(members[0])!.push({ ...event, memberIds: members });
+  });
+
+  const out = new GedcomWriter();
+  out.line(0, 'HEAD');
+  out.line(1, 'SOUR', 'FAMILY_TREE_VISUALIZER');
+  out.line(2, 'NAME', 'Family Tree Visualizer');
+  out.field(1, 'DATE', formatGedcomDate(new Date()));
+  out.line(1, 'SUBM', '@SUBM1@');
+  out.line(1, 'GEDC');
+  out.line(2, 'VERS', '5.5.1');
+  out.line(2, 'FORM', 'LINEAGE-LINKED');
+  out.line(1, 'CHAR', 'UTF-8');
+  out.line(0, 'SUBM', undefined, '@SUBM1@');
+  out.line(1, 'NAME', 'Family Tree Visualizer');
+
+  tree.members.forEach(member => {
+    out.line(0, 'INDI', undefined, indi(member.id));
+    const given = [member.firstName, member.middleName].filter(Boolean).join(' ');
+    out.line(1, 'NAME', `${given} /${member.lastName ?? ''}/`);
+    // With _MIDN present GIVN holds the first name alone, so "Mary Ann" stays whole
+    if (member.middleName || /\s/.test(member.firstName)) {
+      out.field(2, 'GIVN', member.firstName);
+      out.line(2, '_MIDN', member.middleName);
+    } else {
+      out.field(2, 'GIVN', given);
+    }
+    out.field(2, 'SURN', member.lastName);
+    out.line(1, 'SEX', member.gender === 'male' ? 'M' : member.gender === 'female' ? 'F' : 'U');
+    if (member.gender && !['male', 'female', 'unknown'].includes(member.gender)) {
+      out.line(1, '_GENDER', member.gender);
+    }
+    out.field(1, '_PRIV', member.privacy);
+    if (member.birthDate || member.birthPlace) {
+      out.event(1, 'BIRT', formatGedcomDate(member.birthDate, member.birthDateText), member.birthPlace);
+    }
+    if (member.deathDate || member.deathPlace) {
+      out.event(1, 'DEAT', formatGedcomDate(member.deathDate, member.deathDateText), member.deathPlace);
+    } else if (member.isLiving === false) {
+      out.line(1, 'DEAT', 'Y');
+    }
+    out.field(1, 'OCCU', member.occupation);
+    out.field(1, 'EMAIL', member.email);
+    if (member.photoUrl) {
+      out.line(1, 'OBJE');
+      out.line(2, 'FILE', member.photoUrl);
+      out.line(3, 'FORM', member.photoUrl.match(/\.(\w{3,4})(?:[?#].*)?$/)?.[1]?.toLowerCase() ?? 'jpg');
+    }
+    if (member.biography) out.text(1, 'NOTE', member.biography);
+
+    (individualEvents.get(member.id) ?? []).forEach(event => {
+      const tag = EVENT_TAGS[event.type as InsertFamilyEvent['type']];
+      out.event(1, tag ?? 'EVEN', formatGedcomDate(event.date, event.dateText), event.place);
+      if (!tag) out.line(2, 'TYPE', event.type.charAt(0).toUpperCase() + event.type.slice(1));
+      if (event.description) out.text(2, 'NOTE', event.description);
+      event.memberIds.slice(1).forEach(id => out.line(2, '_SHAR', indi(id)));
+    });
+
+    families
+      .filter(f => f.children.some(c => c.id === member.id))
+      .forEach(family => {
+        const { subType, link } = family.children.find(c => c.id === member.id)!;
+        out.line(1, 'FAMC', family.xref);
+        if (subType && SUBTYPE_PEDIGREES[subType]) {
+          out.line(2, 'PEDI', SUBTYPE_PEDIGREES[subType]);
+        }
+        out.field(2, '_DATE', formatGedcomDate(link.startDate, link.startDateText));
+        if ((link.status && link.status !== 'active') || link.endDate) {
+          out.line(2, '_STAT', link.status ?? 'active');
+          out.field(3, 'DATE', formatGedcomDate(link.endDate, link.endDateText));
+        }
+        if (link.notes) out.text(2, 'NOTE', link.notes);
+      });
+    families
+      .filter(f => f.parents.includes(member.id))
+      .forEach(family => out.line(1, 'FAMS', family.xref));
+  });
+
+  const genderOf = (id: number) => tree.members.find(m => m.id === id)?.gender;
+  families.forEach(family => {
+    out.line(0, 'FAM', undefined, family.xref);
+    // Keep the relationship's direction by writing its from-member first
+    const [first, second] = family.parents;
+    const firstTag = second !== undefined
+      ? (genderOf(first) === 'female' && genderOf(second) !== 'female' ? 'WIFE' : 'HUSB')
+      : (genderOf(first) === 'female' ? 'WIFE' : 'HUSB');
+    out.line(1, firstTag, indi(first));
+    if (second !== undefined) out.line(1, firstTag === 'HUSB' ? 'WIFE' : 'HUSB', indi(second));
+
+    const spouse = family.spouse;
+    if (spouse) {
+      const marriage = family.events.find(e => e.type === 'marriage');
+      if (spouse.startDate || marriage) {
+        out.event(1, 'MARR', formatGedcomDate(spouse.startDate, spouse.startDateText), marriage?.place, spouse.startDate || marriage?.place ? undefined : 'Y');
+        if (marriage?.description) out.text(2, 'NOTE', marriage.description);
+      }
+      if (spouse.status === 'divorced') {
+        const divorce = family.events.find(e => e.type === 'divorce');
+        out.event(1, 'DIV', formatGedcomDate(spouse.endDate, spouse.endDateText), divorce?.place, spouse.endDate || divorce?.place ? undefined : 'Y');
+        if (divorce?.description) out.text(2, 'NOTE', divorce.description);
+      } else if ((spouse.status && spouse.status !== 'active') || spouse.endDate) {
+        out.line(1, '_STAT', spouse.status ?? 'active');
+        out.field(2, 'DATE', formatGedcomDate(spouse.endDate, spouse.endDateText));
+      }
+      if (spouse.notes) out.text(1, 'NOTE', spouse.notes);
+    }
+
+    family.children.forEach(c => out.line(1, 'CHIL', indi(c.id)));
+  });
+
+  out.line(0, 'TRLR');
+  return out.lines.join('\n') + '\n';
+}
@@ -3,7 +3,8 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
-app.use(express.json());
+// Large enough for a restored backup of the whole tree
+app.use(express.json({ limit: "20mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
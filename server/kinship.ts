@@ -0,0 +1,349 @@
+import type { FamilyMember, FamilyTreeData, Kinship, Relationship } from "@shared/schema";
+
+// Parent links that make someone a lineal relative rather than a step or foster one
+const LINEAL_SUBTYPES = [null, undefined, 'biological', 'adopted', 'legal'];
+
+const ORDINALS = [
+  'first', 'second', 'third', 'fourth', 'fifth',
+  'sixth', 'seventh', 'eighth', 'ninth', 'tenth'
+];
+
+// Spouses and close blood relatives take "-in-law"; everyone else is "by marriage"
+const IN_LAW_LABEL = /^(half-)?(father|mother|parent|son|daughter|child|brother|sister|sibling)$/;
+
+interface KinGraph {
+  members: Map<number, FamilyMember>;
+  parents: Map<number, number[]>;
+  children: Map<number, number[]>;
+  stepParents: Map<number, Array<{ id: number; foster: boolean }>>;
+  stepChildren: Map<number, Array<{ id: number; foster: boolean }>>;
+  spouses: Map<number, Array<{ id: number; former: boolean }>>;
+  relationships: Relationship[];
+}
+
+interface BloodLink {
+  up: number;
+  down: number;
+  half: boolean;
+  path: number[];
+  commonAncestorIds: number[];
+}
+
+type Gender = string | null | undefined;
+
+function push<T>(map: Map<number, T[]>, key: number, value: T) {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+}
+
+function buildGraph(tree: FamilyTreeData): KinGraph {
+  const graph: KinGraph = {
+    members: new Map(tree.members.map(m => [m.id, m])),
+    parents: new Map(),
+    children: new Map(),
+    stepParents: new Map(),
+    stepChildren: new Map(),
+    spouses: new Map(),
+    relationships: [],
+  };
+
+  for (const rel of tree.relationships) {
+    const { fromMemberId: from, toMemberId: to } = rel;
+    if (from === to || !graph.members.has(from) || !graph.members.has(to)) continue;
+    graph.relationships.push(rel);
+
+    if (rel.type === 'spouse') {
+      const former = rel.status === 'divorced' || rel.status === 'separated';
+      push(graph.spouses, from, { id: to, former });
+      push(graph.spouses, to, { id: from, former });
+    } else if (rel.type === 'adopted' || (rel.type === 'parent-child' && LINEAL_SUBTYPES.includes(rel.subType))) {
+      push(graph.parents, to, from);
+      push(graph.children, from, to);
+    } else if (rel.type === 'step-parent' || rel.type === 'parent-child') {
+      const foster = rel.subType === 'foster';
+      push(graph.stepParents, to, { id: from, foster });
+      push(graph.stepChildren, from, { id: to, foster });
+    }
+  }
+
+  return graph;
+}
+
+// Breadth-first walk up the lineal parents; `next` points back toward the start
+function ancestorsOf(graph: KinGraph, id: number) {
+  const found = new Map<number, { depth: number; next: number | null }>([[id, { depth: 0, next: null }]]);
+  const queue = [id];
+  while (queue.length) {
+    const current = queue.shift()!;
+    const depth = found.get(current)!.depth;
+    for (const parent of graph.parents.get(current) ?? []) {
+      if (!found.has(parent)) {
+        found.set(parent, { depth: depth + 1, next: current });
+        queue.push(parent);
+      }
+    }
+  }
+  return found;
+}
+
+function chainDown(ancestors: ReturnType<typeof ancestorsOf>, from: number): number[] {
+  const chain = [from];
+  let next = ancestors.get(from)!.next;
+  while (next !== null) {
+    chain.push(next);
+    next = ancestors.get(next)!.next;
+  }
+  return chain;
+}
+
+function bloodLink(graph: KinGraph, a: number, b: number): BloodLink | null {
+  const fromA = ancestorsOf(graph, a);
+  const fromB = ancestorsOf(graph, b);
+
+  let best: { id: number; up: number; down: number } | null = null;
+  for (const [id, { depth }] of Array.from(fromA)) {
+    const other = fromB.get(id);
+    if (!other) continue;
+    if (!best || depth + other.depth < best.up + best.down) {
+      best = { id, up: depth, down: other.depth };
+    }
+  }
+  if (!best) return null;
+
+  const { up, down } = best;
+  const commonAncestorIds = Array.from(fromA.keys()).filter(id =>
+    fromA.get(id)!.depth === up && fromB.get(id)?.depth === down
+  );
+
+  const towardA = chainDown(fromA, best.id);
+  const towardB = chainDown(fromB, best.id);
+
+  // Half relatives descend from one shared ancestor where a full one would share a couple
+  let half = false;
+  if (up > 0 && down > 0) {
+    const parentsA = graph.parents.get(towardA[1]) ?? [];
+    const parentsB = graph.parents.get(towardB[1]) ?? [];
+    const shared = parentsA.filter(id => parentsB.includes(id));
+    half = shared.length === 1 && (parentsA.length > 1 || parentsB.length > 1);
+  }
+
+  return {
+    up,
+    down,
+    half,
+    path: towardA.reverse().concat(towardB.slice(1)),
+    commonAncestorIds,
+  };
+}
+
+function gendered(gender: Gender, male: string, female: string, neutral: string) {
+  return gender === 'male' ? male : gender === 'female' ? female : neutral;
+}
+
+const greats = (count: number) => 'great-'.repeat(Math.max(0, count));
+
+function ordinal(n: number) {
+  return ORDINALS[n - 1] ?? `${n}th`;
+}
+
+function times(n: number) {
+  return n === 1 ? 'once' : n === 2 ? 'twice' : `${n} times`;
+}
+
+/**
+ * Names how someone `down` generations below a shared ancestor relates to
+ * someone `up` generations below it, e.g. up 3 and down 1 is a great-aunt.
+ */
+export function nameBloodRelationship(up: number, down: number, half: boolean, gender: Gender): string {
+  if (up === 0 && down === 0) return 'self';
+  if (up === 0) {
+    const child = gendered(gender, 'son', 'daughter', 'child');
+    return down === 1 ? child : `${greats(down - 2)}grand${child}`;
+  }
+  if (down === 0) {
+    const parent = gendered(gender, 'father', 'mother', 'parent');
+    return up === 1 ? parent : `${greats(up - 2)}grand${parent}`;
+  }
+
+  const prefix = half ? 'half-' : '';
+  if (up === 1 && down === 1) {
+    return prefix + gendered(gender, 'brother', 'sister', 'sibling');
+  }
+  if (up === 1) {
+    return prefix + greats(down - 2) + gendered(gender, 'nephew', 'niece', 'niece/nephew');
+  }
+  if (down === 1) {
+    return prefix + greats(up - 2) + gendered(gender, 'uncle', 'aunt', 'aunt/uncle');
+  }
+
+  const removed = Math.abs(up - down);
+  const cousin = `${half ? 'half ' : ''}${ordinal(Math.min(up, down) - 1)} cousin`;
+  return removed ? `${cousin} ${times(removed)} removed` : cousin;
+}
+
+function inLaw(label: string) {
+  return IN_LAW_LABEL.test(label) ? `${label}-in-law` : `${label} by marriage`;
+}
+
+function stepLabel(gender: Gender, kind: 'parent' | 'child' | 'sibling', foster: boolean) {
+  const word = {
+    parent: gendered(gender, 'father', 'mother', 'parent'),
+    child: gendered(gender, 'son', 'daughter', 'child'),
+    sibling: gendered(gender, 'brother', 'sister', 'sibling'),
+  }[kind];
+  return foster ? `foster ${word}` : `step${word}`;
+}
+
+// Finds the label and path for the closest non-blood connection, if any
+function marriageLink(graph: KinGraph, a: number, b: number): Pick<Kinship, 'label' | 'path'> | null {
+  const gender = graph.members.get(b)!.gender;
+  const spouses = graph.spouses.get(a) ?? [];
+  const parents = graph.parents.get(a) ?? [];
+
+  const spouse = spouses.find(s => s.id === b);
+  if (spouse) {
+    const label = gendered(gender, 'husband', 'wife', 'spouse');
+    return { label: spouse.former ? `ex-${label}` : label, path: [a, b] };
+  }
+
+  const stepParent = graph.stepParents.get(a)?.find(p => p.id === b);
+  if (stepParent) {
+    return { label: stepLabel(gender, 'parent', stepParent.foster), path: [a, b] };
+  }
+  const stepChild = graph.stepChildren.get(a)?.find(c => c.id === b);
+  if (stepChild) {
+    return { label: stepLabel(gender, 'child', stepChild.foster), path: [a, b] };
+  }
+
+  for (const parent of parents) {
+    if (graph.spouses.get(parent)?.some(s => s.id === b)) {
+      return { label: stepLabel(gender, 'parent', false), path: [a, parent, b] };
+    }
+  }
+  for (const { id } of spouses) {
+    if (graph.children.get(id)?.includes(b)) {
+      return { label: stepLabel(gender, 'child', false), path: [a, id, b] };
+    }
+  }
+  for (const parent of parents) {
+    for (const { id: stepParent } of graph.spouses.get(parent) ?? []) {
+      if (parents.includes(stepParent)) continue;
+      if (graph.children.get(stepParent)?.includes(b)) {
+        return { label: stepLabel(gender, 'sibling', false), path: [a, parent, stepParent, b] };
+      }
+    }
+  }
+
+  let best: Pick<Kinship, 'label' | 'path'> | null = null;
+  const consider = (label: string, path: number[]) => {
+    if (!best || path.length < best.path.length) best = { label: inLaw(label), path };
+  };
+  // A relative of a's spouse
+  for (const { id } of spouses) {
+    const link = bloodLink(graph, id, b);
+    if (link) consider(nameBloodRelationship(link.up, link.down, link.half, gender), [a, ...link.path]);
+  }
+  // The spouse of one of a's relatives
+  for (const { id } of graph.spouses.get(b) ?? []) {
+    const link = bloodLink(graph, a, id);
+    if (link && link.path.length > 1) {
+      consider(nameBloodRelationship(link.up, link.down, link.half, gender), [...link.path, b]);
+    }
+  }
+  return best;
+}
+
+// Shortest path over every kind of relationship, for connections with no name
+function anyPath(graph: KinGraph, a: number, b: number): number[] | null {
+  const neighbours = new Map<number, number[]>();
+  for (const rel of graph.relationships) {
+    push(neighbours, rel.fromMemberId, rel.toMemberId);
+    push(neighbours, rel.toMemberId, rel.fromMemberId);
+  }
+
+  const previous = new Map<number, number | null>([[a, null]]);
+  const queue = [a];
+  while (queue.length) {
+    const current = queue.shift()!;
+    if (current === b) break;
+    for (const next of neighbours.get(current) ?? []) {
+      if (!previous.has(next)) {
+        previous.set(next, current);
+        queue.push(next);
+      }
+    }
+  }
+  if (!previous.has(b)) return null;
+
+  const path = [b];
+  let step = previous.get(b)!;
+  while (step !== null) {
+    path.unshift(step);
+    step = previous.get(step)!;
+  }
+  return path;
+}
+
+function edgesAlong(graph: KinGraph, path: number[]): number[] {
+  const ids: number[] = [];
+  for (let i = 1; i < path.length; i++) {
+    const edge = graph.relationships.find(r =>
+      (r.fromMemberId === path[i - 1] && r.toMemberId === path[i]) ||
+      (r.fromMemberId === path[i] && r.toMemberId === path[i - 1])
+    );
+    if (edge) ids.push(edge.id);
+  }
+  return ids;
+}
+
+function fullName(member: FamilyMember) {
+  return [member.firstName, member.lastName].filter(Boolean).join(' ');
+}
+
+/**
+ * Works out how member `b` is related to member `a`: blood relatives through
+ * their closest common ancestors, then spouses, step and foster family and
+ * in-laws, and finally any chain of relationships at all. Both members must
+ * exist in the tree.
+ */
+export function findKinship(tree: FamilyTreeData, a: number, b: number): Kinship {
+  const graph = buildGraph(tree);
+  const from = graph.members.get(a);
+  const to = graph.members.get(b);
+  if (!from || !to) {
+    throw new Error('Family member not found');
+  }
+
+  let label: string | null = null;
+  let path: number[] = [];
+  let commonAncestorIds: number[] = [];
+
+  const blood = bloodLink(graph, a, b);
+  const marriage = blood ? null : marriageLink(graph, a, b);
+  if (blood) {
+    label = nameBloodRelationship(blood.up, blood.down, blood.half, to.gender);
+    path = blood.path;
+    commonAncestorIds = blood.commonAncestorIds;
+  } else if (marriage) {
+    ({ label, path } = marriage);
+  } else {
+    const chain = anyPath(graph, a, b);
+    if (chain) {
+      label = 'relative by marriage';
+      path = chain;
+    }
+  }
+
+  return {
+    fromMemberId: a,
+    toMemberId: b,
+    label,
+    description: label
+      ? `${fullName(to)} is ${fullName(from)}'s ${label}`
+      : `${fullName(to)} and ${fullName(from)} are not related in this tree`,
+    commonAncestorIds,
+    path,
+    relationshipIds: edgesAlong(graph, path),
+  };
+}
@@ -0,0 +1,231 @@
+import type { FamilyMember, MemberPosition, Relationship } from "@shared/schema";
+import { compareStoredDates } from "@shared/dates";
+
+// Card size on the canvas and the space kept around cards
+export const CARD_WIDTH = 256;
+export const CARD_HEIGHT = 128;
+export const X_SPACING = 40;
+export const Y_SPACING = 80;
+// Unrelated families sit further apart than siblings
+const FAMILY_SPACING = X_SPACING * 3;
+
+// Birth links win over adoptive ones, and both over step and foster links,
+// when choosing which parent a child is drawn under
+const PARENT_LINK_ORDER: Array<string | null> = [null, 'biological', 'adopted', 'legal', 'step', 'foster'];
+
+type Card = { memberId: number; x: number; depth: number };
+
+// The parts of a tree the layout reads, so imports can be laid out before they are saved
+type LayoutMember = Pick<FamilyMember, 'id'> & {
+  birthDate?: FamilyMember['birthDate'] | Date;
+  birthDateText?: FamilyMember['birthDateText'];
+};
+type LayoutLink = Pick<Relationship, 'fromMemberId' | 'toMemberId' | 'type'> & {
+  subType?: Relationship['subType'];
+};
+type LayoutTree = { members: LayoutMember[]; relationships: LayoutLink[] };
+
+/**
+ * A laid out branch, relative to the centre of its top family unit. The
+ * contour records the leftmost and rightmost card edge at each depth so the
+ * next branch can be pushed up against it without overlapping.
+ */
+type Subtree = {
+  cards: Card[];
+  contour: Map<number, { left: number; right: number }>;
+};
+
+function parentRank(rel: LayoutLink): number {
+  if (rel.type === 'adopted') return PARENT_LINK_ORDER.indexOf('adopted');
+  if (rel.type === 'step-parent') return PARENT_LINK_ORDER.indexOf('step');
+  if (rel.type !== 'parent-child') return -1;
+  const rank = PARENT_LINK_ORDER.indexOf(rel.subType ?? null);
+  return rank < 0 ? PARENT_LINK_ORDER.length : rank;
+}
+
+function shifted(tree: Subtree, dx: number, ddepth = 0): Subtree {
+  const contour = new Map<number, { left: number; right: number }>();
+  tree.contour.forEach(({ left, right }, depth) => {
+    contour.set(depth + ddepth, { left: left + dx, right: right + dx });
+  });
+  return {
+    cards: tree.cards.map(card => ({ ...card, x: card.x + dx, depth: card.depth + ddepth })),
+    contour,
+  };
+}
+
+function merge(into: Subtree, tree: Subtree) {
+  into.cards.push(...tree.cards);
+  tree.contour.forEach(({ left, right }, depth) => {
+    const current = into.contour.get(depth);
+    into.contour.set(depth, current
+      ? { left: Math.min(current.left, left), right: Math.max(current.right, right) }
+      : { left, right });
+  });
+}
+
+// How far right `tree` must move to clear everything already in `placed`
+function clearance(placed: Subtree, tree: Subtree, spacing: number): number {
+  let offset = -Infinity;
+  tree.contour.forEach(({ left }, depth) => {
+    const other = placed.contour.get(depth);
+    if (other) offset = Math.max(offset, other.right + spacing - left);
+  });
+  return offset;
+}
+
+/**
+ * Positions every member as a tidy tree of family units: a person with
+ * their spouses and the other parents of their children side by side, and
+ * the children of the unit centred below it, first marriage on the left.
+ * Separate families are packed next to each other, moved down where needed
+ * so people who married across families share a row. Positions start at 0.
+ */
+export function computeLayout(tree: LayoutTree): MemberPosition[] {
+  const members = new Map(tree.members.map(m => [m.id, m]));
+
+  // Each child is drawn under one parent only: the one with the best link
+  const bestParent = new Map<number, { id: number; rank: number }>();
+  const partners = new Map<number, number[]>();
+  const addPartner = (a: number, b: number) => {
+    const list = partners.get(a) ?? [];
+    if (!list.includes(b)) list.push(b);
+    partners.set(a, list);
+  };
+  const parentLinks: LayoutLink[] = [];
+
+  for (const rel of tree.relationships) {
+    const { fromMemberId: from, toMemberId: to } = rel;
+    if (from === to || !members.has(from) || !members.has(to)) continue;
+    if (rel.type === 'spouse') {
+      addPartner(from, to);
+      addPartner(to, from);
+      continue;
+    }
+    const rank = parentRank(rel);
+    if (rank < 0) continue;
+    parentLinks.push(rel);
+    const current = bestParent.get(to);
+    if (!current || rank < current.rank) bestParent.set(to, { id: from, rank });
+  }
+
+  // Unmarried parents of the same child count as partners too
+  const parentsOf = new Map<number, number[]>();
+  for (const rel of parentLinks) {
+    parentsOf.set(rel.toMemberId, [...(parentsOf.get(rel.toMemberId) ?? []), rel.fromMemberId]);
+  }
+  parentsOf.forEach(parents => {
+    for (const a of parents) for (const b of parents) if (a !== b) addPartner(a, b);
+  });
+
+  const childrenOf = new Map<number, number[]>();
+  bestParent.forEach(({ id }, child) => {
+    childrenOf.set(id, [...(childrenOf.get(id) ?? []), child]);
+  });
+
+  const byBirth = (a: LayoutMember, b: LayoutMember) =>
+    compareStoredDates({ date: a.birthDate, text: a.birthDateText }, { date: b.birthDate, text: b.birthDateText }) ||
+    a.id - b.id;
+
+  const placed = new Set<number>();
+
+  const layoutUnit = (anchorId: number, depth: number): Subtree => {
+    // Partners join the unit unless they are drawn under their own parents
+    const unitPartners = (partners.get(anchorId) ?? [])
+      .filter(id => !placed.has(id) && !bestParent.has(id));
+    const unit = unitPartners.length
+      ? [unitPartners[0], anchorId, ...unitPartners.slice(1)]
+      : [anchorId];
+    unit.forEach(id => placed.add(id));
+
+    const unitWidth = unit.length * CARD_WIDTH + (unit.length - 1) * X_SPACING;
+    const subtree: Subtree = {
+      cards: unit.map((memberId, i) => ({
+        memberId,
+        x: -unitWidth / 2 + i * (CARD_WIDTH + X_SPACING),
+        depth,
+      })),
+      contour: new Map([[depth, { left: -unitWidth / 2, right: unitWidth / 2 }]]),
+    };
+
+    // Children sit below the partner they share with the anchor
+    const group = (childId: number) => {
+      const other = (parentsOf.get(childId) ?? []).find(id => id !== anchorId && unit.includes(id));
+      return unit.indexOf(other ?? bestParent.get(childId)!.id);
+    };
+    const children = unit
+      .flatMap(id => childrenOf.get(id) ?? [])
+      .filter(id => !placed.has(id))
+      .map(id => members.get(id)!)
+      .sort((a, b) => group(a.id) - group(b.id) || byBirth(a, b));
+
+    const row: Subtree = { cards: [], contour: new Map() };
+    const centres: number[] = [];
+    for (const child of children) {
+      if (placed.has(child.id)) continue;
+      const branch = layoutUnit(child.id, depth + 1);
+      const centre = centres.length ? clearance(row, branch, X_SPACING) : 0;
+      merge(row, shifted(branch, centre));
+      centres.push(centre);
+    }
+
+    if (centres.length) {
+      merge(subtree, shifted(row, -(centres[0] + centres[centres.length - 1]) / 2));
+    }
+    return subtree;
+  };
+
+  // Families start from people with no parents in the tree, except those
+  // who married into a family and are drawn beside their partner
+  const marriedIn = (id: number) => (partners.get(id) ?? []).some(p => bestParent.has(p));
+  const roots = tree.members
+    .filter(m => !bestParent.has(m.id) && !marriedIn(m.id))
+    .sort((a, b) => a.id - b.id)
+    .map(m => m.id);
+  // Anyone left over, such as people in a parent-child loop, starts a family of their own
+  const leftovers = () => tree.members.map(m => m.id).filter(id => !placed.has(id)).sort((a, b) => a - b);
+
+  const forest: Subtree = { cards: [], contour: new Map() };
+  const depthOf = new Map<number, number>();
+  const addFamily = (anchorId: number) => {
+    let family = layoutUnit(anchorId, 0);
+
+    // Line the family up with anyone already placed that its members married
+    let drop = 0;
+    for (const card of family.cards) {
+      for (const partner of partners.get(card.memberId) ?? []) {
+        const partnerDepth = depthOf.get(partner);
+        if (partnerDepth !== undefined) drop = Math.max(drop, partnerDepth - card.depth);
+      }
+    }
+    family = shifted(family, 0, drop);
+
+    let offset = forest.cards.length ? clearance(forest, family, FAMILY_SPACING) : 0;
+    if (offset === -Infinity) {
+      // No rows in common: start the family right of everything placed so far
+      const right = Math.max(...Array.from(forest.contour.values()).map(c => c.right));
+      const left = Math.min(...Array.from(family.contour.values()).map(c => c.left));
+      offset = right + FAMILY_SPACING - left;
+    }
+    merge(forest, shifted(family, offset));
+    forest.cards.forEach(card => depthOf.set(card.memberId, card.depth));
+  };
+
+  for (const id of roots) {
+    if (!placed.has(id)) addFamily(id);
+  }
+  for (let rest = leftovers(); rest.length; rest = leftovers()) {
+    addFamily(rest[0]);
+  }
+
+  if (!forest.cards.length) return [];
+  const minX = Math.min(...forest.cards.map(card => card.x));
+  const minDepth = Math.min(...forest.cards.map(card => card.depth));
+  return forest.cards
+    .map(card => ({
+      memberId: card.memberId,
+      x: Math.round(card.x - minX),
+      y: (card.depth - minDepth) * (CARD_HEIGHT + Y_SPACING),
+    }))
+    .sort((a, b) => a.memberId - b.memberId);
+}
@@ -0,0 +1,111 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import multer from "multer";
+import sharp from "sharp";
+import type { InsertMedia } from "@shared/schema";
+
+// Uploaded files are kept on local disk, thumbnails in a subdirectory
+export const MEDIA_DIR = path.resolve(process.env.MEDIA_DIR || "uploads");
+const THUMBNAIL_DIR = "thumbnails";
+const THUMBNAIL_SIZE = 256;
+
+export const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+// File extensions are chosen by type, never taken from the uploaded name
+const ALLOWED_TYPES: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "application/pdf": ".pdf",
+};
+
+export class UnsupportedMediaTypeError extends Error {
+  constructor(mimeType: string) {
+    super(`Unsupported file type: ${mimeType}`);
+  }
+}
+
+// Accepts a single "file" field, held in memory until it has been checked
+export const mediaUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+  fileFilter: (req, file, callback) => {
+    if (ALLOWED_TYPES[file.mimetype]) {
+      callback(null, true);
+    } else {
+      callback(new UnsupportedMediaTypeError(file.mimetype));
+    }
+  },
+}).single("file");
+
+export const isImage = (mimeType: string) => mimeType.startsWith("image/");
+
+export function mediaFilePath(fileName: string): string {
+  return path.join(MEDIA_DIR, fileName);
+}
+
+export function thumbnailFilePath(fileName: string): string {
+  return path.join(MEDIA_DIR, THUMBNAIL_DIR, fileName);
+}
+
+export type SavedMediaFile = Required<Pick<InsertMedia,
+  'fileName' | 'originalName' | 'mimeType' | 'size' | 'width' | 'height' | 'thumbnailFileName'
+>>;
+
+/**
+ * Writes an upload to the media directory under a fresh name. Images are
+ * measured and get a square WebP thumbnail; documents get neither.
+ */
+export async function saveMediaFile(file: {
+  buffer: Buffer;
+  originalname: string;
+  mimetype: string;
+}): Promise<SavedMediaFile> {
+  const extension = ALLOWED_TYPES[file.mimetype];
+  if (!extension) {
+    throw new UnsupportedMediaTypeError(file.mimetype);
+  }
+
+  const id = randomUUID();
+  const saved: SavedMediaFile = {
+    fileName: `${id}${extension}`,
+    originalName: file.originalname,
+    mimeType: file.mimetype,
+    size: file.buffer.length,
+    width: null,
+    height: null,
+    thumbnailFileName: null,
+  };
+
+  if (isImage(file.mimetype)) {
+    // Fails on corrupt images before anything is written
+    const image = sharp(file.buffer).rotate();
+    const metadata = await image.metadata();
+    const turned = (metadata.orientation ?? 1) >= 5;
+    saved.width = (turned ? metadata.height : metadata.width) ?? null;
+    saved.height = (turned ? metadata.width : metadata.height) ?? null;
+
+    await fs.mkdir(path.join(MEDIA_DIR, THUMBNAIL_DIR), { recursive: true });
+    saved.thumbnailFileName = `${id}.webp`;
+    await image
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "cover", position: "attention" })
+      .webp()
+      .toFile(thumbnailFilePath(saved.thumbnailFileName));
+  }
+
+  await fs.mkdir(MEDIA_DIR, { recursive: true });
+  await fs.writeFile(mediaFilePath(saved.fileName), file.buffer);
+  return saved;
+}
+
+// Files that are already gone are ignored
+export async function removeMediaFiles(media: {
+  fileName: string;
+  thumbnailFileName: string | null;
+}): Promise<void> {
+  const paths = [mediaFilePath(media.fileName)];
+  if (media.thumbnailFileName) paths.push(thumbnailFilePath(media.thumbnailFileName));
+  await Promise.all(paths.map(p => fs.rm(p, { force: true })));
+}
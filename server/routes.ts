@@ -1,25 +1,101 @@
-import type { Express } from "express";
+import express, { type Express, type Request } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertFamilyMemberSchema, insertRelationshipSchema, insertFamilyEventSchema } from "@shared/schema";
+import { storage, RelationshipRuleError } from "./storage";
+import { importGedcom, exportGedcom } from "./gedcom";
+import { createBackup, backupToImport } from "./backup";
+import { findKinship } from "./kinship";
+import { findDuplicates } from "./duplicates";
+import { computeLayout } from "./layout";
+import { runAs } from "./audit";
+import { setupAuth, requireAuth, hashPassword } from "./auth";
+import { setupTrees, loadTree, selectedTree, requireRole } from "./trees";
+import { setupShareLinks } from "./share-links";
+import {
+  mediaUpload,
+  saveMediaFile,
+  removeMediaFiles,
+  mediaFilePath,
+  thumbnailFilePath,
+  isImage,
+  UnsupportedMediaTypeError,
+  MAX_UPLOAD_BYTES
+} from "./media";
+import { validateFamilyTree, type ValidationReport } from "@shared/validation";
+import { redactFamilyTree, redactPrimaryPhotos, redactMedia, redactCitations, redactAuditLog } from "@shared/privacy";
+import {
+  insertFamilyMemberSchema,
+  memberPositionsSchema,
+  insertRelationshipSchema,
+  insertFamilyEventSchema,
+  insertSourceSchema,
+  insertCitationSchema,
+  updateCitationSchema,
+  familyTreeBackupSchema,
+  mergeFamilyMembersSchema,
+  mediaUploadSchema,
+  updateMediaSchema,
+  mediaLinkSchema,
+  auditQuerySchema,
+  changeProposalSchema,
+  shareTreeSchema,
+  treeRoleSchema,
+  privacyQuerySchema,
+  createShareLinkSchema,
+  PROPOSAL_STATUSES,
+  type MediaItem
+} from "@shared/schema";
+import multer from "multer";
 import { z } from "zod";
 
+// Storage for the tree the request was routed to
+const treeStorage = (req: Request) => storage.forTree(req.tree!.id);
+
+// Viewers always see living people redacted; anyone else can ask with ?redactLiving=true
+const redactsLiving = (req: Request) =>
+  req.tree!.role === 'viewer' || privacyQuerySchema.parse(req.query).redactLiving;
+
+// The media the request may see; files of hidden media are reported as missing
+async function visibleMedia(req: Request, items: MediaItem[]): Promise<MediaItem[]> {
+  if (!redactsLiving(req)) return items;
+  return redactMedia(items, await treeStorage(req).getFamilyTree());
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Get family tree data
-  app.get("/api/family-tree", async (req, res) => {
+  setupAuth(app);
+
+  // Read-only links for people without an account
+  setupShareLinks(app);
+
+  // Everything below needs a signed-in user
+  app.use("/api", requireAuth);
+
+  // The audit log puts each change down to whoever made the request
+  app.use("/api", (req, _res, next) => runAs(req.user!.username, next));
+
+  setupTrees(app);
+
+  // Everything below happens inside one tree: /api/trees/:treeId/... names
+  // it, and the plain /api routes use the one picked for this session.
+  // Anyone the tree is shared with can read it; changes need an editor.
+  const treeRoutes = express.Router({ mergeParams: true });
+  app.use("/api/trees/:treeId", loadTree, treeRoutes);
+  app.use("/api", selectedTree, treeRoutes);
+
+  // Get family tree data, with living people hidden from viewers or on request
+  treeRoutes.get("/family-tree", async (req, res) => {
     try {
-      const familyTree = await storage.getFamilyTree();
-      res.json(familyTree);
+      const familyTree = await treeStorage(req).getFamilyTree();
+      res.json(redactsLiving(req) ? redactFamilyTree(familyTree) : familyTree);
     } catch (error) {
       res.status(500).json({ message: "Failed to get family tree data" });
     }
   });
 
   // Create new family member
-  app.post("/api/family-members", async (req, res) => {
+  treeRoutes.post("/family-members", requireRole("editor"), async (req, res) => {
     try {
       const memberData = insertFamilyMemberSchema.parse(req.body);
-      const newMember = await storage.createFamilyMember(memberData);
+      const newMember = await treeStorage(req).createFamilyMember(memberData);
       res.json(newMember);
     } catch (error) {
       res.status(400).json({ 
@@ -29,8 +105,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Move many members at once; registered before the `:id` routes
+  treeRoutes.patch("/family-members/positions", requireRole("editor"), async (req, res) => {
+    try {
+      const positions = memberPositionsSchema.parse(req.body);
+      const updatedMembers = await treeStorage(req).updateFamilyMemberPositions(
+        positions.map(({ id, x, y }) => ({ memberId: id, x, y }))
+      );
+      res.json(updatedMembers);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Family member not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({
+        message: "Failed to update positions",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+  });
+
   // Update family member position
-  app.patch("/api/family-members/:id/position", async (req, res) => {
+  treeRoutes.patch("/family-members/:id/position", requireRole("editor"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const { x, y } = req.body;
@@ -39,19 +134,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid position data" });
       }
 
-      const updatedMember = await storage.updateFamilyMemberPosition(id, x, y);
+      const updatedMember = await treeStorage(req).updateFamilyMemberPosition(id, x, y);
       res.json(updatedMember);
     } catch (error) {
       res.status(404).json({ message: "Family member not found" });
     }
   });
 
+  // Lay the whole tree out again and save every card position in one go
+  treeRoutes.post("/layout", requireRole("editor"), async (req, res) => {
+    try {
+      const familyTree = await treeStorage(req).getFamilyTree();
+      const positions = computeLayout(familyTree);
+      await treeStorage(req).updateFamilyMemberPositions(positions, "Auto-align tree");
+      res.json(positions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to lay out family tree" });
+    }
+  });
+
   // Update family member details
-  app.patch("/api/family-members/:id", async (req, res) => {
+  treeRoutes.patch("/family-members/:id", requireRole("editor"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const updateData = insertFamilyMemberSchema.partial().parse(req.body);
-      const updatedMember = await storage.updateFamilyMember(id, updateData);
+      const updatedMember = await treeStorage(req).updateFamilyMember(id, updateData);
       res.json(updatedMember);
     } catch (error) {
       res.status(400).json({ 
@@ -62,12 +169,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create relationship
-  app.post("/api/relationships", async (req, res) => {
+  treeRoutes.post("/relationships", requireRole("editor"), async (req, res) => {
     try {
       const relationshipData = insertRelationshipSchema.parse(req.body);
-      const newRelationship = await storage.createRelationship(relationshipData);
+      const newRelationship = await treeStorage(req).createRelationship(relationshipData);
       res.json(newRelationship);
     } catch (error) {
+      if (error instanceof RelationshipRuleError) {
+        return res.status(error.status).json(error.violation);
+      }
       res.status(400).json({ 
         message: "Invalid relationship data",
         error: error instanceof z.ZodError ? error.errors : undefined
@@ -76,13 +186,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update relationship
-  app.patch("/api/relationships/:id", async (req, res) => {
+  treeRoutes.patch("/relationships/:id", requireRole("editor"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const updateData = insertRelationshipSchema.partial().parse(req.body);
-      const updatedRelationship = await storage.updateRelationship(id, updateData);
+      const updatedRelationship = await treeStorage(req).updateRelationship(id, updateData);
       res.json(updatedRelationship);
     } catch (error) {
+      if (error instanceof RelationshipRuleError) {
+        return res.status(error.status).json(error.violation);
+      }
       res.status(400).json({ 
         message: "Failed to update relationship",
         error: error instanceof z.ZodError ? error.errors : undefined
@@ -91,10 +204,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete relationship
-  app.delete("/api/relationships/:id", async (req, res) => {
+  treeRoutes.delete("/relationships/:id", requireRole("editor"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      await storage.deleteRelationship(id);
+      await treeStorage(req).deleteRelationship(id);
       res.json({ message: "Relationship deleted successfully" });
     } catch (error) {
       res.status(404).json({ message: "Relationship not found" });
@@ -102,10 +215,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create family event
-  app.post("/api/events", async (req, res) => {
+  treeRoutes.post("/events", requireRole("editor"), async (req, res) => {
     try {
       const eventData = insertFamilyEventSchema.parse(req.body);
-      const newEvent = await storage.createEvent(eventData);
+      const newEvent = await treeStorage(req).createEvent(eventData);
       res.json(newEvent);
     } catch (error) {
       res.status(400).json({ 
@@ -116,7 +229,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get events for specific members
-  app.get("/api/events", async (req, res) => {
+  treeRoutes.get("/events", async (req, res) => {
     try {
       const memberIds = req.query.memberIds 
         ? (Array.isArray(req.query.memberIds) 
@@ -124,35 +237,700 @@ export async function registerRoutes(app: Express): Promise<Server> {
           : [parseInt(req.query.memberIds as string)])
         : undefined;
       
-      const events = await storage.getEvents(memberIds);
-      res.json(events);
+      const events = await treeStorage(req).getEvents(memberIds);
+      if (!redactsLiving(req)) return res.json(events);
+      const { members } = await treeStorage(req).getFamilyTree();
+      res.json(redactFamilyTree({ members, relationships: [], events }).events);
     } catch (error) {
       res.status(400).json({ message: "Failed to get events" });
     }
   });
 
+  // Update family event
+  treeRoutes.patch("/events/:id", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updateData = insertFamilyEventSchema.partial().parse(req.body);
+      const updatedEvent = await treeStorage(req).updateEvent(id, updateData);
+      res.json(updatedEvent);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Event not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({
+        message: "Failed to update event",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+  });
+
   // Delete event
-  app.delete("/api/events/:id", async (req, res) => {
+  treeRoutes.delete("/events/:id", requireRole("editor"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      await storage.deleteEvent(id);
+      await treeStorage(req).deleteEvent(id);
       res.json({ message: "Event deleted successfully" });
     } catch (error) {
       res.status(404).json({ message: "Event not found" });
     }
   });
 
+  // List sources
+  treeRoutes.get("/sources", async (req, res) => {
+    try {
+      const sources = await treeStorage(req).getSources();
+      res.json(sources);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get sources" });
+    }
+  });
+
+  // Create source
+  treeRoutes.post("/sources", requireRole("editor"), async (req, res) => {
+    try {
+      const sourceData = insertSourceSchema.parse(req.body);
+      const newSource = await treeStorage(req).createSource(sourceData);
+      res.json(newSource);
+    } catch (error) {
+      res.status(400).json({
+        message: "Invalid source data",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+  });
+
+  // Update source
+  treeRoutes.patch("/sources/:id", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updateData = insertSourceSchema.partial().parse(req.body);
+      const updatedSource = await treeStorage(req).updateSource(id, updateData);
+      res.json(updatedSource);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Source not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({
+        message: "Failed to update source",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+  });
+
+  // Delete source (and its citations)
+  treeRoutes.delete("/sources/:id", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await treeStorage(req).deleteSource(id);
+      res.json({ message: "Source deleted successfully" });
+    } catch (error) {
+      res.status(404).json({ message: "Source not found" });
+    }
+  });
+
+  // List citations, optionally for one source, member, relationship or event
+  treeRoutes.get("/citations", async (req, res) => {
+    try {
+      const filter = z.object({
+        sourceId: z.coerce.number().int().optional(),
+        memberId: z.coerce.number().int().optional(),
+        relationshipId: z.coerce.number().int().optional(),
+        eventId: z.coerce.number().int().optional(),
+      }).parse(req.query);
+      const citations = await treeStorage(req).getCitations(filter);
+      res.json(redactsLiving(req) ? redactCitations(citations, await treeStorage(req).getFamilyTree()) : citations);
+    } catch (error) {
+      res.status(400).json({
+        message: "Failed to get citations",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+  });
+
+  // Create citation
+  treeRoutes.post("/citations", requireRole("editor"), async (req, res) => {
+    try {
+      const citationData = insertCitationSchema.parse(req.body);
+      const newCitation = await treeStorage(req).createCitation(citationData);
+      res.json(newCitation);
+    } catch (error) {
+      res.status(400).json({
+        message: "Invalid citation data",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+  });
+
+  // Update citation
+  treeRoutes.patch("/citations/:id", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updateData = updateCitationSchema.parse(req.body);
+      const updatedCitation = await treeStorage(req).updateCitation(id, updateData);
+      res.json(updatedCitation);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Citation not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({
+        message: "Failed to update citation",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+  });
+
+  // Delete citation
+  treeRoutes.delete("/citations/:id", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await treeStorage(req).deleteCitation(id);
+      res.json({ message: "Citation deleted successfully" });
+    } catch (error) {
+      res.status(404).json({ message: "Citation not found" });
+    }
+  });
+
+  // Upload a photo or document as multipart form data, optionally linked
+  // to a member or event
+  treeRoutes.post("/media", requireRole("editor"), (req, res) => {
+    mediaUpload(req, res, async (uploadError: unknown) => {
+      if (uploadError instanceof multer.MulterError && uploadError.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({
+          message: `Files can be at most ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`
+        });
+      }
+      if (uploadError instanceof UnsupportedMediaTypeError) {
+        return res.status(415).json({ message: uploadError.message });
+      }
+      if (uploadError) {
+        return res.status(400).json({ message: "Invalid upload" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      let fields;
+      try {
+        fields = mediaUploadSchema.parse(req.body);
+      } catch (error) {
+        return res.status(400).json({
+          message: "Invalid media data",
+          error: error instanceof z.ZodError ? error.errors : undefined
+        });
+      }
+
+      let saved;
+      try {
+        saved = await saveMediaFile(req.file);
+      } catch (error) {
+        return res.status(400).json({ message: "The file could not be read as an image" });
+      }
+
+      try {
+        const item = await treeStorage(req).createMedia({
+          ...saved,
+          caption: fields.caption?.trim() || null,
+          dateText: fields.dateText,
+        }, { memberId: fields.memberId, eventId: fields.eventId });
+        res.json(item);
+      } catch (error) {
+        await removeMediaFiles(saved);
+        if (error instanceof Error && error.message.endsWith(' not found')) {
+          res.status(404).json({ message: error.message });
+        } else {
+          res.status(500).json({ message: "Failed to save media" });
+        }
+      }
+    });
+  });
+
+  // List media, optionally for one member or event
+  treeRoutes.get("/media", async (req, res) => {
+    try {
+      const filter = z.object({
+        memberId: z.coerce.number().int().optional(),
+        eventId: z.coerce.number().int().optional(),
+      }).parse(req.query);
+      const items = await treeStorage(req).getMedia(filter);
+      res.json(await visibleMedia(req, items));
+    } catch (error) {
+      res.status(400).json({
+        message: "Failed to get media",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+  });
+
+  // Primary photo of each member, as { memberId: mediaId }
+  treeRoutes.get("/media/primary", async (req, res) => {
+    try {
+      const primary = await treeStorage(req).getPrimaryMedia();
+      if (!redactsLiving(req)) return res.json(primary);
+      const { members } = await treeStorage(req).getFamilyTree();
+      res.json(redactPrimaryPhotos(primary, members));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get primary photos" });
+    }
+  });
+
+  // Serve the uploaded file itself
+  treeRoutes.get("/media/:id/file", async (req, res) => {
+    try {
+      const [item] = await visibleMedia(req, [await treeStorage(req).getMediaItem(parseInt(req.params.id))]);
+      if (!item) {
+        return res.status(404).json({ message: "Media not found" });
+      }
+      res.type(item.mimeType);
+      res.setHeader(
+        "Content-Disposition",
+        `${isImage(item.mimeType) ? 'inline' : 'attachment'}; filename="${encodeURIComponent(item.originalName)}"`
+      );
+      res.sendFile(mediaFilePath(item.fileName), (error) => {
+        if (error && !res.headersSent) res.status(404).json({ message: "Media file not found" });
+      });
+    } catch (error) {
+      res.status(404).json({ message: "Media not found" });
+    }
+  });
+
+  // Serve an image's thumbnail
+  treeRoutes.get("/media/:id/thumbnail", async (req, res) => {
+    try {
+      const [item] = await visibleMedia(req, [await treeStorage(req).getMediaItem(parseInt(req.params.id))]);
+      if (!item) {
+        return res.status(404).json({ message: "Media not found" });
+      }
+      if (!item.thumbnailFileName) {
+        return res.status(404).json({ message: "Media has no thumbnail" });
+      }
+      res.sendFile(thumbnailFilePath(item.thumbnailFileName), (error) => {
+        if (error && !res.headersSent) res.status(404).json({ message: "Media file not found" });
+      });
+    } catch (error) {
+      res.status(404).json({ message: "Media not found" });
+    }
+  });
+
+  // Update a caption or date
+  treeRoutes.patch("/media/:id", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updateData = updateMediaSchema.parse(req.body);
+      const item = await treeStorage(req).updateMedia(id, updateData);
+      res.json(item);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Media not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({
+        message: "Failed to update media",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+  });
+
+  // Delete media, its links and its files
+  treeRoutes.delete("/media/:id", requireRole("editor"), async (req, res) => {
+    let deleted;
+    try {
+      deleted = await treeStorage(req).deleteMedia(parseInt(req.params.id));
+    } catch (error) {
+      return res.status(404).json({ message: "Media not found" });
+    }
+    await removeMediaFiles(deleted);
+    res.json({ message: "Media deleted successfully" });
+  });
+
+  // Link media to a member or event, or make it a member's primary photo
+  treeRoutes.post("/media/:id/links", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const link = mediaLinkSchema.parse(req.body);
+      const item = await treeStorage(req).linkMedia(id, link);
+      res.json(item);
+    } catch (error) {
+      if (error instanceof Error && error.message.endsWith(' not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({
+        message: "Invalid media link",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+  });
+
+  // Unlink media from a member or event, given as ?memberId= or ?eventId=
+  treeRoutes.delete("/media/:id/links", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const link = mediaLinkSchema.parse({
+        memberId: req.query.memberId === undefined ? undefined : Number(req.query.memberId),
+        eventId: req.query.eventId === undefined ? undefined : Number(req.query.eventId),
+      });
+      const item = await treeStorage(req).unlinkMedia(id, link);
+      res.json(item);
+    } catch (error) {
+      if (error instanceof Error && error.message.endsWith(' not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({
+        message: "Invalid media link",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+  });
+
   // Delete family member (and related relationships/events)
-  app.delete("/api/family-members/:id", async (req, res) => {
+  treeRoutes.delete("/family-members/:id", requireRole("editor"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      await storage.deleteFamilyMember(id);
+      await treeStorage(req).deleteFamilyMember(id);
       res.json({ message: "Family member and related data deleted successfully" });
     } catch (error) {
       res.status(404).json({ message: "Family member not found" });
     }
   });
 
+  // Import a GEDCOM file sent as the raw request body
+  treeRoutes.post(
+    "/import/gedcom",
+    requireRole("editor"),
+    express.text({ type: () => true, limit: "20mb" }),
+    async (req, res) => {
+      let result;
+      try {
+        if (typeof req.body !== 'string' || !req.body.trim()) {
+          return res.status(400).json({ message: "GEDCOM file content is required" });
+        }
+        const { members } = await treeStorage(req).getFamilyTree();
+        result = importGedcom(req.body, members);
+      } catch (error) {
+        return res.status(400).json({
+          message: error instanceof Error ? error.message : "Invalid GEDCOM file"
+        });
+      }
+
+      try {
+        await treeStorage(req).importFamilyTree(result.data);
+        res.json(result.report);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to import GEDCOM data" });
+      }
+    }
+  );
+
+  // Export the whole tree as a GEDCOM file
+  treeRoutes.get("/export/gedcom", async (req, res) => {
+    try {
+      const familyTree = await treeStorage(req).getFamilyTree();
+      res.setHeader("Content-Type", "text/x-gedcom; charset=utf-8");
+      res.setHeader("Content-Disposition", 'attachment; filename="family-tree.ged"');
+      res.send(exportGedcom(redactsLiving(req) ? redactFamilyTree(familyTree) : familyTree));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export family tree" });
+    }
+  });
+
+  // List pairs of members that are probably the same person; only editors can merge them
+  treeRoutes.get("/duplicates", requireRole("editor"), async (req, res) => {
+    try {
+      const familyTree = await treeStorage(req).getFamilyTree();
+      res.json(findDuplicates(familyTree));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to find duplicates" });
+    }
+  });
+
+  // Merge one member into another, keeping the chosen field values
+  treeRoutes.post("/family-members/merge", requireRole("editor"), async (req, res) => {
+    let merge;
+    try {
+      merge = mergeFamilyMembersSchema.parse(req.body);
+    } catch (error) {
+      return res.status(400).json({
+        message: "Invalid merge request",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+
+    try {
+      const member = await treeStorage(req).mergeFamilyMembers(merge.keepMemberId, merge.mergeMemberId, merge.values);
+      res.json(member);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Family member not found') {
+        res.status(404).json({ message: "Family member not found" });
+      } else {
+        res.status(500).json({ message: "Failed to merge family members" });
+      }
+    }
+  });
+
+  // List impossible or suspicious facts in the tree
+  treeRoutes.get("/validation", async (req, res) => {
+    try {
+      const familyTree = await treeStorage(req).getFamilyTree();
+      const report: ValidationReport = {
+        issues: validateFamilyTree(redactsLiving(req) ? redactFamilyTree(familyTree) : familyTree)
+      };
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to validate family tree" });
+    }
+  });
+
+  // Describe how member b is related to member a
+  treeRoutes.get("/members/:a/relationship-to/:b", async (req, res) => {
+    const a = parseInt(req.params.a);
+    const b = parseInt(req.params.b);
+    if (isNaN(a) || isNaN(b)) {
+      return res.status(400).json({ message: "Invalid member id" });
+    }
+    if (a === b) {
+      return res.status(400).json({ message: "Choose two different members" });
+    }
+
+    try {
+      const familyTree = await treeStorage(req).getFamilyTree();
+      res.json(findKinship(redactsLiving(req) ? redactFamilyTree(familyTree) : familyTree, a, b));
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Family member not found') {
+        res.status(404).json({ message: "Family member not found" });
+      } else {
+        res.status(500).json({ message: "Failed to calculate relationship" });
+      }
+    }
+  });
+
+  // Download the whole tree as a versioned JSON backup; viewers get the redacted tree
+  treeRoutes.get("/backup", async (req, res) => {
+    try {
+      const [familyTree, sources, citations] = await Promise.all([
+        treeStorage(req).getFamilyTree(),
+        treeStorage(req).getSources(),
+        treeStorage(req).getCitations(),
+      ]);
+      const backup = redactsLiving(req)
+        ? createBackup(redactFamilyTree(familyTree), sources, redactCitations(citations, familyTree))
+        : createBackup(familyTree, sources, citations);
+      const day = backup.exportedAt.split('T')[0];
+      res.setHeader("Content-Disposition", `attachment; filename="family-tree-backup-${day}.json"`);
+      res.json(backup);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create backup" });
+    }
+  });
+
+  // Replace the whole tree with the contents of a backup; its media and their files go too
+  treeRoutes.post("/restore", requireRole("editor"), async (req, res) => {
+    let backup;
+    try {
+      backup = familyTreeBackupSchema.parse(req.body);
+    } catch (error) {
+      return res.status(400).json({
+        message: "Invalid backup file",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+
+    let restored;
+    try {
+      restored = await treeStorage(req).restoreFamilyTree(backupToImport(backup));
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to restore backup" });
+    }
+    await Promise.all(restored.media.map(removeMediaFiles));
+    res.json(restored.tree);
+  });
+
+  // What undo and redo would do next; the descriptions name people, and only editors can undo
+  treeRoutes.get("/changes", requireRole("editor"), async (req, res) => {
+    try {
+      res.json(await treeStorage(req).getChangeHistory());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch change history" });
+    }
+  });
+
+  treeRoutes.post("/changes/undo", requireRole("editor"), async (req, res) => {
+    try {
+      const description = await treeStorage(req).undoChange();
+      res.json({ description });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Nothing to undo') {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to undo change" });
+    }
+  });
+
+  treeRoutes.post("/changes/redo", requireRole("editor"), async (req, res) => {
+    try {
+      const description = await treeStorage(req).redoChange();
+      res.json({ description });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Nothing to redo') {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to redo change" });
+    }
+  });
+
+  // Who changed what, newest first
+  treeRoutes.get("/audit", async (req, res) => {
+    try {
+      const filter = auditQuerySchema.parse(req.query);
+      const entries = await treeStorage(req).getAuditLog(filter);
+      if (!redactsLiving(req)) return res.json(entries);
+      const { members } = await treeStorage(req).getFamilyTree();
+      res.json(redactAuditLog(entries, members));
+    } catch (error) {
+      res.status(400).json({
+        message: "Failed to get audit log",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+  });
+
+  // Changes contributors have proposed, newest first; ?status=pending for the review queue.
+  // Proposals carry the data as entered, so viewers cannot read them.
+  treeRoutes.get("/proposals", requireRole("contributor"), async (req, res) => {
+    try {
+      const { status } = z.object({ status: z.enum(PROPOSAL_STATUSES).optional() }).parse(req.query);
+      res.json(await treeStorage(req).getProposals(status));
+    } catch (error) {
+      res.status(400).json({
+        message: "Failed to get proposals",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+  });
+
+  // Takes the same body the direct route would, to be applied once reviewed
+  treeRoutes.post("/proposals", requireRole("contributor"), async (req, res) => {
+    try {
+      const proposal = changeProposalSchema.parse(req.body);
+      res.json(await treeStorage(req).createProposal(proposal, req.user!.id));
+    } catch (error) {
+      res.status(400).json({
+        message: "Invalid proposal",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+  });
+
+  treeRoutes.post("/proposals/:id/:decision(approve|reject)", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const approve = req.params.decision === 'approve';
+      res.json(await treeStorage(req).reviewProposal(id, req.user!.id, approve));
+    } catch (error) {
+      if (error instanceof RelationshipRuleError) {
+        return res.status(error.status).json(error.violation);
+      }
+      if (error instanceof Error && error.message.endsWith(' not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({
+        message: "Failed to apply proposal",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+  });
+
+  // Who the tree is shared with
+  treeRoutes.get("/sharing", async (req, res) => {
+    try {
+      res.json(await treeStorage(req).getTreeMembers());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get tree members" });
+    }
+  });
+
+  treeRoutes.post("/sharing", requireRole("owner"), async (req, res) => {
+    try {
+      const { username, role } = shareTreeSchema.parse(req.body);
+      res.json(await treeStorage(req).shareTree(username, role));
+    } catch (error) {
+      if (error instanceof Error && error.message === 'User not found') {
+        return res.status(404).json({ message: "No account has that username" });
+      }
+      if (error instanceof Error && error.message === 'A tree needs at least one owner') {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(400).json({
+        message: "Failed to share tree",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+  });
+
+  treeRoutes.patch("/sharing/:userId", requireRole("owner"), async (req, res) => {
+    try {
+      const { role } = treeRoleSchema.parse(req.body);
+      res.json(await treeStorage(req).setTreeMemberRole(parseInt(req.params.userId), role));
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Tree member not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'A tree needs at least one owner') {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(400).json({
+        message: "Failed to change role",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+  });
+
+  treeRoutes.delete("/sharing/:userId", requireRole("owner"), async (req, res) => {
+    try {
+      await treeStorage(req).removeTreeMember(parseInt(req.params.userId));
+      res.json({ message: "Tree member removed successfully" });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Tree member not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'A tree needs at least one owner') {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to remove tree member" });
+    }
+  });
+
+  // Read-only links to the tree for people without an account
+  treeRoutes.get("/share-links", requireRole("owner"), async (req, res) => {
+    try {
+      res.json(await treeStorage(req).getShareLinks());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get share links" });
+    }
+  });
+
+  treeRoutes.post("/share-links", requireRole("owner"), async (req, res) => {
+    try {
+      const { password, ...linkData } = createShareLinkSchema.parse(req.body);
+      const passwordHash = password ? await hashPassword(password) : null;
+      res.json(await treeStorage(req).createShareLink({ ...linkData, passwordHash }, req.user!.id));
+    } catch (error) {
+      res.status(400).json({
+        message: "Invalid share link data",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+  });
+
+  treeRoutes.delete("/share-links/:id", requireRole("owner"), async (req, res) => {
+    try {
+      await treeStorage(req).revokeShareLink(parseInt(req.params.id));
+      res.json({ message: "Share link revoked successfully" });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Share link not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to revoke share link" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -1,6 +1,6 @@
 import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
-import { familyMembers, relationships, familyEvents } from '@shared/schema';
+import { trees, treeMembers, users, familyMembers, relationships, familyEvents } from '@shared/schema';
 import { config } from 'dotenv';
 
 // Load environment variables
@@ -12,9 +12,21 @@ async function seed() {
   const db = drizzle(queryClient);
 
   try {
+    console.log('Creating tree...');
+    const [tree] = await db.insert(trees).values({ name: 'Johnson Family' }).returning();
+
+    // Trees only show up for the accounts they are shared with
+    const accounts = await db.select({ id: users.id }).from(users);
+    if (accounts.length) {
+      await db.insert(treeMembers).values(accounts.map(a => ({ treeId: tree.id, userId: a.id, role: 'owner' })));
+    } else {
+      console.log('No accounts yet: the sample tree will not be visible to anyone');
+    }
+
     console.log('Inserting family members...');
     // Insert grandparents generation
     const [grandpa] = await db.insert(familyMembers).values({
+      treeId: tree.id,
       firstName: 'Robert',
       lastName: 'Johnson',
       gender: 'male',
@@ -28,6 +40,7 @@ async function seed() {
     }).returning();
 
     const [grandma] = await db.insert(familyMembers).values({
+      treeId: tree.id,
       firstName: 'Mary',
       lastName: 'Johnson',
       gender: 'female',
@@ -42,6 +55,7 @@ async function seed() {
 
     // Insert parents generation
     const [father] = await db.insert(familyMembers).values({
+      treeId: tree.id,
       firstName: 'James',
       lastName: 'Johnson',
       gender: 'male',
@@ -55,6 +69,7 @@ async function seed() {
     }).returning();
 
     const [mother] = await db.insert(familyMembers).values({
+      treeId: tree.id,
       firstName: 'Sarah',
       middleName: 'Elizabeth',
       lastName: 'Wilson',
@@ -69,6 +84,7 @@ async function seed() {
     }).returning();
 
     const [uncle] = await db.insert(familyMembers).values({
+      treeId: tree.id,
       firstName: 'Michael',
       lastName: 'Johnson',
       gender: 'male',
@@ -83,6 +99,7 @@ async function seed() {
 
     // Insert children generation
     const [child1] = await db.insert(familyMembers).values({
+      treeId: tree.id,
       firstName: 'Emily',
       lastName: 'Johnson',
       gender: 'female',
@@ -96,6 +113,7 @@ async function seed() {
     }).returning();
 
     const [child2] = await db.insert(familyMembers).values({
+      treeId: tree.id,
       firstName: 'William',
       lastName: 'Johnson',
       gender: 'male',
@@ -113,6 +131,7 @@ async function seed() {
     // Create relationships
     // Grandparents marriage
     await db.insert(relationships).values({
+      treeId: tree.id,
       fromMemberId: grandpa.id,
       toMemberId: grandma.id,
       type: 'spouse',
@@ -122,6 +141,7 @@ async function seed() {
 
     // Parents marriage
     await db.insert(relationships).values({
+      treeId: tree.id,
       fromMemberId: father.id,
       toMemberId: mother.id,
       type: 'spouse',
@@ -131,12 +151,14 @@ async function seed() {
 
     // Parent-child relationships (grandparents -> father)
     await db.insert(relationships).values({
+      treeId: tree.id,
       fromMemberId: grandpa.id,
       toMemberId: father.id,
       type: 'parent-child',
       subType: 'biological'
     });
     await db.insert(relationships).values({
+      treeId: tree.id,
       fromMemberId: grandma.id,
       toMemberId: father.id,
       type: 'parent-child',
@@ -145,12 +167,14 @@ async function seed() {
 
     // Parent-child relationships (grandparents -> uncle)
     await db.insert(relationships).values({
+      treeId: tree.id,
       fromMemberId: grandpa.id,
       toMemberId: uncle.id,
       type: 'parent-child',
       subType: 'biological'
     });
     await db.insert(relationships).values({
+      treeId: tree.id,
       fromMemberId: grandma.id,
       toMemberId: uncle.id,
       type: 'parent-child',
@@ -159,24 +183,28 @@ async function seed() {
 
     // Parent-child relationships (parents -> children)
     await db.insert(relationships).values({
+      treeId: tree.id,
       fromMemberId: father.id,
       toMemberId: child1.id,
       type: 'parent-child',
       subType: 'biological'
     });
     await db.insert(relationships).values({
+      treeId: tree.id,
       fromMemberId: mother.id,
       toMemberId: child1.id,
       type: 'parent-child',
       subType: 'biological'
     });
     await db.insert(relationships).values({
+      treeId: tree.id,
       fromMemberId: father.id,
       toMemberId: child2.id,
       type: 'parent-child',
       subType: 'biological'
     });
     await db.insert(relationships).values({
+      treeId: tree.id,
       fromMemberId: mother.id,
       toMemberId: child2.id,
       type: 'parent-child',
@@ -189,6 +217,7 @@ async function seed() {
     // Create family events
     // Marriages
     await db.insert(familyEvents).values({
+      treeId: tree.id,
       type: 'marriage',
       date: '1964-06-15',
       place: 'St. Patrick\'s Cathedral, New York',
@@ -197,6 +226,7 @@ async function seed() {
     });
 
     await db.insert(familyEvents).values({
+      treeId: tree.id,
       type: 'marriage',
       date: '1989-08-20',
       place: 'Boston Harbor Hotel',
@@ -206,6 +236,7 @@ async function seed() {
 
     // Births
     await db.insert(familyEvents).values({
+      treeId: tree.id,
       type: 'birth',
       date: '1965-03-10',
       place: 'Massachusetts General Hospital',
@@ -214,6 +245,7 @@ async function seed() {
     });
 
     await db.insert(familyEvents).values({
+      treeId: tree.id,
       type: 'birth',
       date: '1970-07-15',
       place: 'Cedars-Sinai Medical Center',
@@ -222,6 +254,7 @@ async function seed() {
     });
 
     await db.insert(familyEvents).values({
+      treeId: tree.id,
       type: 'birth',
       date: '1990-04-12',
       place: 'Massachusetts General Hospital',
@@ -230,6 +263,7 @@ async function seed() {
     });
 
     await db.insert(familyEvents).values({
+      treeId: tree.id,
       type: 'birth',
       date: '1992-09-30',
       place: 'Massachusetts General Hospital',
@@ -239,6 +273,7 @@ async function seed() {
 
     // Other significant events
     await db.insert(familyEvents).values({
+      treeId: tree.id,
       type: 'graduation',
       date: '2012-05-15',
       place: 'Harvard University',
@@ -247,6 +282,7 @@ async function seed() {
     });
 
     await db.insert(familyEvents).values({
+      treeId: tree.id,
       type: 'other',
       date: '2015-06-20',
       place: 'Museum of Modern Art, New York',
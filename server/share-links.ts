@@ -0,0 +1,148 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { verifyPassword } from "./auth";
+import { thumbnailFilePath } from "./media";
+import { redactFamilyTree, redactPrimaryPhotos } from "@shared/privacy";
+import { unlockShareLinkSchema, type ShareLinkRecord, type SharedTree } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // The share link named in a /api/share/:token URL; see loadShareLink
+      shareLink?: ShareLinkRecord;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Password-protected links this visitor has already unlocked
+    shareLinkIds?: number[];
+  }
+}
+
+const isUnlocked = (req: Request, link: ShareLinkRecord) =>
+  link.passwordHash === null || (req.session.shareLinkIds ?? []).includes(link.id);
+
+// Expired and revoked links look the same to their visitors
+async function loadShareLink(req: Request, res: Response, next: NextFunction) {
+  let link;
+  try {
+    link = await storage.getShareLinkByToken(req.params.token);
+  } catch (error) {
+    return res.status(500).json({ message: "Failed to open share link" });
+  }
+  if (!link) {
+    return res.status(404).json({ message: "This link has expired or been revoked" });
+  }
+  req.shareLink = link;
+  next();
+}
+
+function requireUnlocked(req: Request, res: Response, next: NextFunction) {
+  if (!isUnlocked(req, req.shareLink!)) {
+    return res.status(401).json({ message: "Enter the password to open this tree" });
+  }
+  next();
+}
+
+// Everything a link shows, with living people redacted
+async function sharedTreeData(link: ShareLinkRecord) {
+  const linkStorage = storage.forTree(link.treeId);
+  const familyTree = await linkStorage.getFamilyTree();
+  const primary = await linkStorage.getPrimaryMedia();
+  return {
+    familyTree: redactFamilyTree(familyTree),
+    primary: redactPrimaryPhotos(primary, familyTree.members),
+  };
+}
+
+/**
+ * Read-only access to one tree for people without an account. Registered
+ * before the sign-in check. Only GET requests and the password form get
+ * through; any other request under /api/share is refused.
+ */
+export function setupShareLinks(app: Express) {
+  app.use("/api/share", (req, res, next) => {
+    const unlocking = req.method === "POST" && /^\/[^/]+\/unlock$/.test(req.path);
+    if (req.method === "GET" || req.method === "HEAD" || unlocking) return next();
+    res.status(403).json({ message: "Share links are read-only" });
+  });
+
+  // What the link opens, and whether it still needs its password
+  app.get("/api/share/:token", loadShareLink, async (req, res) => {
+    try {
+      const link = req.shareLink!;
+      const tree = await storage.getTree(link.treeId);
+      const shared: SharedTree = {
+        name: tree.name,
+        description: tree.description,
+        hasPassword: link.passwordHash !== null,
+        unlocked: isUnlocked(req, link),
+        expiresAt: link.expiresAt,
+      };
+      res.json(shared);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to open share link" });
+    }
+  });
+
+  app.post("/api/share/:token/unlock", loadShareLink, async (req, res) => {
+    try {
+      const { password } = unlockShareLinkSchema.parse(req.body);
+      const link = req.shareLink!;
+      if (link.passwordHash !== null && !(await verifyPassword(password, link.passwordHash))) {
+        return res.status(401).json({ message: "Wrong password" });
+      }
+      const unlocked = req.session.shareLinkIds ?? [];
+      if (!unlocked.includes(link.id)) {
+        req.session.shareLinkIds = [...unlocked, link.id];
+      }
+      res.json({ message: "Share link unlocked" });
+    } catch (error) {
+      res.status(400).json({
+        message: "Invalid password",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+  });
+
+  app.get("/api/share/:token/family-tree", loadShareLink, requireUnlocked, async (req, res) => {
+    try {
+      const { familyTree } = await sharedTreeData(req.shareLink!);
+      res.json(familyTree);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get family tree data" });
+    }
+  });
+
+  app.get("/api/share/:token/media/primary", loadShareLink, requireUnlocked, async (req, res) => {
+    try {
+      const { primary } = await sharedTreeData(req.shareLink!);
+      res.json(primary);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get primary photos" });
+    }
+  });
+
+  // Only the thumbnails shown on the shared canvas, so other media stays private
+  app.get("/api/share/:token/media/:id/thumbnail", loadShareLink, requireUnlocked, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { primary } = await sharedTreeData(req.shareLink!);
+      if (!Object.values(primary).includes(id)) {
+        return res.status(404).json({ message: "Media not found" });
+      }
+      const item = await storage.forTree(req.shareLink!.treeId).getMediaItem(id);
+      if (!item.thumbnailFileName) {
+        return res.status(404).json({ message: "Media has no thumbnail" });
+      }
+      res.sendFile(thumbnailFilePath(item.thumbnailFileName), (error) => {
+        if (error && !res.headersSent) res.status(404).json({ message: "Media file not found" });
+      });
+    } catch (error) {
+      res.status(404).json({ message: "Media not found" });
+    }
+  });
+}
@@ -0,0 +1,152 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { removeMediaFiles } from "./media";
+import { insertTreeSchema, hasTreeRole, type TreeRole, type TreeWithRole } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // The tree this request reads and writes, with the user's role in it; see loadTree and selectedTree
+      tree?: TreeWithRole;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    treeId?: number;
+  }
+}
+
+// The tree with the user's role in it, or null when it is not shared with them
+async function treeForUser(treeId: number, req: Request): Promise<TreeWithRole | null> {
+  if (Number.isNaN(treeId)) return null;
+  const role = await storage.getTreeRole(treeId, req.user!.id);
+  return role && { ...await storage.getTree(treeId), role };
+}
+
+// The tree picked for this session, falling back to the user's oldest one
+async function currentTree(req: Request): Promise<TreeWithRole> {
+  if (req.session.treeId !== undefined) {
+    // Null when deleted or unshared since it was picked
+    const tree = await treeForUser(req.session.treeId, req);
+    if (tree) return tree;
+  }
+  return storage.getDefaultTree(req.user!.id);
+}
+
+const ROLE_NEEDED: Record<TreeRole, string> = {
+  viewer: "Only people this tree is shared with can do that",
+  contributor: "Only the tree's contributors, editors and owners can do that",
+  editor: "Only the tree's editors and owners can do that; contributors can propose changes instead",
+  owner: "Only the tree's owners can do that",
+};
+
+// After loadTree or selectedTree: turns away users whose role in the tree is below `role`
+export function requireRole(role: TreeRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasTreeRole(req.tree?.role, role)) {
+      return res.status(403).json({ message: ROLE_NEEDED[role] });
+    }
+    next();
+  };
+}
+
+/**
+ * Listing, creating, renaming and deleting trees, and picking the one the
+ * plain /api routes work on for this session. Users only see the trees
+ * shared with them; renaming and deleting need an owner.
+ */
+export function setupTrees(app: Express) {
+  app.get("/api/trees", async (req, res) => {
+    try {
+      const trees = await storage.getTrees(req.user!.id);
+      // There is always a tree to work in
+      res.json(trees.length ? trees : [await storage.getDefaultTree(req.user!.id)]);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get trees" });
+    }
+  });
+
+  app.post("/api/trees", async (req, res) => {
+    try {
+      const treeData = insertTreeSchema.parse(req.body);
+      res.json({ ...await storage.createTree(treeData, req.user!.id), role: 'owner' });
+    } catch (error) {
+      res.status(400).json({
+        message: "Invalid tree data",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+  });
+
+  // Registered before the `:treeId` routes
+  app.get("/api/trees/current", async (req, res) => {
+    try {
+      res.json(await currentTree(req));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get tree" });
+    }
+  });
+
+  app.patch("/api/trees/:treeId", loadTree, requireRole("owner"), async (req, res) => {
+    try {
+      const updateData = insertTreeSchema.partial().parse(req.body);
+      const tree = await storage.updateTree(req.tree!.id, updateData);
+      res.json({ ...tree, role: req.tree!.role });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Tree not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({
+        message: "Failed to update tree",
+        error: error instanceof z.ZodError ? error.errors : undefined
+      });
+    }
+  });
+
+  // Delete a tree with everything in it, including its media files
+  app.delete("/api/trees/:treeId", loadTree, requireRole("owner"), async (req, res) => {
+    let files;
+    try {
+      files = await storage.deleteTree(req.tree!.id);
+    } catch (error) {
+      return res.status(404).json({ message: "Tree not found" });
+    }
+    await Promise.all(files.map(removeMediaFiles));
+    res.json({ message: "Tree deleted successfully" });
+  });
+
+  // Make this the tree the plain /api routes work on
+  app.post("/api/trees/:treeId/select", loadTree, (req, res) => {
+    req.session.treeId = req.tree!.id;
+    res.json(req.tree);
+  });
+}
+
+// For /api/trees/:treeId/... routes: the tree named in the URL. Trees not
+// shared with the user are reported missing rather than forbidden.
+export async function loadTree(req: Request, res: Response, next: NextFunction) {
+  let tree;
+  try {
+    tree = await treeForUser(parseInt(req.params.treeId), req);
+  } catch (error) {
+    tree = null;
+  }
+  if (!tree) {
+    return res.status(404).json({ message: "Tree not found" });
+  }
+  req.tree = tree;
+  next();
+}
+
+// For the plain /api routes: the tree picked for this session
+export async function selectedTree(req: Request, res: Response, next: NextFunction) {
+  try {
+    req.tree = await currentTree(req);
+  } catch (error) {
+    return res.status(500).json({ message: "Failed to get tree" });
+  }
+  next();
+}
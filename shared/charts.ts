@@ -0,0 +1,173 @@
+import type { FamilyMember, FamilyTreeData, Relationship } from "./schema";
+import { compareStoredDates } from "./dates";
+
+/**
+ * Chart layouts built from parent-child relationships. Only lineal links
+ * count; step and foster parents are left out of pedigrees.
+ */
+
+// Birth links come before adoptive ones when a child has more than two parents
+const PARENT_SUBTYPE_ORDER: Array<string | null> = [null, 'biological', 'adopted', 'legal'];
+
+export type PedigreeEntry = {
+  // Ahnentafel number: the root is 1, a person n's father 2n and mother 2n + 1
+  number: number;
+  // 0 for the root, 1 for parents, 2 for grandparents and so on
+  generation: number;
+  member: FamilyMember;
+};
+
+export type Pedigree = {
+  entries: PedigreeEntry[];
+  generations: number;
+};
+
+// Rank of a lineal parent-child link, or -1 for step and foster links
+function linealRank(rel: Relationship): number {
+  if (rel.type === 'adopted') return PARENT_SUBTYPE_ORDER.indexOf('adopted');
+  return rel.type === 'parent-child' ? PARENT_SUBTYPE_ORDER.indexOf(rel.subType ?? null) : -1;
+}
+
+// Lineal relatives of each member on one side of the link, best links first
+function linealIndex(tree: FamilyTreeData, side: 'parents' | 'children'): Map<number, Array<{ id: number; rank: number }>> {
+  const index = new Map<number, Array<{ id: number; rank: number }>>();
+  for (const rel of tree.relationships) {
+    const rank = linealRank(rel);
+    if (rank < 0 || rel.fromMemberId === rel.toMemberId) continue;
+    const [key, id] = side === 'parents'
+      ? [rel.toMemberId, rel.fromMemberId]
+      : [rel.fromMemberId, rel.toMemberId];
+    const list = index.get(key) ?? [];
+    if (!list.some(p => p.id === id)) list.push({ id, rank });
+    index.set(key, list);
+  }
+  for (const list of Array.from(index.values())) {
+    list.sort((a, b) => a.rank - b.rank);
+  }
+  return index;
+}
+
+const parentsByChild = (tree: FamilyTreeData) => linealIndex(tree, 'parents');
+
+/**
+ * The father and mother of a member, in that order; either may be null.
+ * Without genders to go by, the parents keep the order they were linked in.
+ */
+export function fatherAndMother(
+  tree: FamilyTreeData,
+  memberId: number,
+  parents = parentsByChild(tree)
+): [FamilyMember | null, FamilyMember | null] {
+  const members = new Map(tree.members.map(m => [m.id, m]));
+  const [first, second] = (parents.get(memberId) ?? [])
+    .map(p => members.get(p.id))
+    .filter((m): m is FamilyMember => m !== undefined)
+    .slice(0, 2);
+  if (!first) return [null, null];
+  if (first.gender === 'female' || second?.gender === 'male') return [second ?? null, first];
+  return [first, second ?? null];
+}
+
+/**
+ * Ancestors of a member numbered by the Ahnentafel system, up to the given
+ * number of generations including the member. Someone who appears twice
+ * through cousin marriages gets an entry for each number.
+ */
+export function buildPedigree(tree: FamilyTreeData, rootId: number, generations: number): Pedigree {
+  const root = tree.members.find(m => m.id === rootId);
+  if (!root) return { entries: [], generations };
+
+  const parents = parentsByChild(tree);
+  const entries: PedigreeEntry[] = [{ number: 1, generation: 0, member: root }];
+  for (let i = 0; i < entries.length; i++) {
+    const { number, generation, member } = entries[i];
+    if (generation + 1 >= generations) continue;
+    const [father, mother] = fatherAndMother(tree, member.id, parents);
+    if (father) entries.push({ number: number * 2, generation: generation + 1, member: father });
+    if (mother) entries.push({ number: number * 2 + 1, generation: generation + 1, member: mother });
+  }
+
+  entries.sort((a, b) => a.number - b.number);
+  return { entries, generations };
+}
+
+// Generation of an Ahnentafel number: 1 is 0, 2-3 are 1, 4-7 are 2 and so on
+export function ahnentafelGeneration(number: number): number {
+  return Math.floor(Math.log2(number));
+}
+
+export type DescendantNode = {
+  // Member ids from the root down, so someone reached along two lines
+  // keeps a separate branch for each
+  key: string;
+  member: FamilyMember;
+  // 0 for the root, 1 for children and so on
+  generation: number;
+  // Spouses, then any other parents of this member's children
+  spouses: FamilyMember[];
+  children: DescendantNode[];
+  // Generations below this member and the distinct people in them
+  branchGenerations: number;
+  descendantCount: number;
+};
+
+/**
+ * Everyone descended from a member through lineal links, each with their
+ * partners. Children are ordered by birth date, undated children last.
+ */
+export function buildDescendants(tree: FamilyTreeData, rootId: number): DescendantNode | null {
+  const root = tree.members.find(m => m.id === rootId);
+  if (!root) return null;
+
+  const members = new Map(tree.members.map(m => [m.id, m]));
+  const children = linealIndex(tree, 'children');
+  const parents = parentsByChild(tree);
+  const spouses = new Map<number, number[]>();
+  for (const rel of tree.relationships) {
+    if (rel.type !== 'spouse' || rel.fromMemberId === rel.toMemberId) continue;
+    spouses.set(rel.fromMemberId, [...(spouses.get(rel.fromMemberId) ?? []), rel.toMemberId]);
+    spouses.set(rel.toMemberId, [...(spouses.get(rel.toMemberId) ?? []), rel.fromMemberId]);
+  }
+
+  const byBirth = (a: FamilyMember, b: FamilyMember) =>
+    compareStoredDates({ date: a.birthDate, text: a.birthDateText }, { date: b.birthDate, text: b.birthDateText }) ||
+    a.id - b.id;
+
+  const build = (member: FamilyMember, path: number[]): { node: DescendantNode; ids: Set<number> } => {
+    const childMembers = (children.get(member.id) ?? [])
+      .map(c => members.get(c.id))
+      .filter((m): m is FamilyMember => m !== undefined && !path.includes(m.id))
+      .sort(byBirth);
+
+    const partnerIds = [...(spouses.get(member.id) ?? [])];
+    for (const child of childMembers) {
+      for (const parent of parents.get(child.id) ?? []) {
+        if (parent.id !== member.id) partnerIds.push(parent.id);
+      }
+    }
+
+    const ids = new Set<number>();
+    const built = childMembers.map(child => build(child, [...path, child.id]));
+    for (const { node, ids: below } of built) {
+      ids.add(node.member.id);
+      below.forEach(id => ids.add(id));
+    }
+
+    return {
+      node: {
+        key: path.join('/'),
+        member,
+        generation: path.length - 1,
+        spouses: Array.from(new Set(partnerIds))
+          .map(id => members.get(id))
+          .filter((m): m is FamilyMember => m !== undefined && m.id !== member.id),
+        children: built.map(b => b.node),
+        branchGenerations: Math.max(0, ...built.map(b => b.node.branchGenerations + 1)),
+        descendantCount: ids.size,
+      },
+      ids,
+    };
+  };
+
+  return build(root, [root.id]).node;
+}
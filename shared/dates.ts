@@ -0,0 +1,221 @@
+/**
+ * Genealogical dates: records often only say "about 1850" or "between 1848
+ * and 1852". Each date column has a companion text column holding the date in
+ * GEDCOM form ("ABT 1850", "BET 1848 AND 1852", "MAR 1901"), while the date
+ * column itself keeps a sortable date. The text is null for exact days.
+ */
+
+export const dateQualifiers = [
+  'exact', 'about', 'before', 'after', 'between', 'from', 'to', 'from-to'
+] as const;
+
+export type DateQualifier = typeof dateQualifiers[number];
+
+// A calendar date known to the year, month or day; months run from 1 to 12
+export type DatePart = { year: number; month?: number; day?: number };
+
+export type GenealogicalDate = {
+  qualifier: DateQualifier;
+  start: DatePart;
+  // Only ranges (between, from-to) have an end
+  end?: DatePart;
+};
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const MONTH_NAMES = [
+  'JANUARY', 'FEBRUARY', 'MARCH', 'APRIL', 'MAY', 'JUNE',
+  'JULY', 'AUGUST', 'SEPTEMBER', 'OCTOBER', 'NOVEMBER', 'DECEMBER',
+];
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const QUALIFIER_WORDS: Record<string, DateQualifier> = {
+  ABT: 'about', ABOUT: 'about', CIRCA: 'about', CA: 'about', C: 'about', CAL: 'about', EST: 'about',
+  BEF: 'before', BEFORE: 'before',
+  AFT: 'after', AFTER: 'after',
+};
+
+const GEDCOM_QUALIFIERS: Partial<Record<DateQualifier, string>> = {
+  about: 'ABT', before: 'BEF', after: 'AFT', from: 'FROM', to: 'TO',
+};
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+function parsePart(text: string): DatePart | null {
+  const iso = text.match(/^(\d{3,4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+  const tokens = iso
+    ? null
+    : text.split(/[\s,./]+/).filter(Boolean);
+
+  let year: number | undefined;
+  let month: number | undefined;
+  let day: number | undefined;
+
+  if (iso) {
+    year = parseInt(iso[1]);
+    month = iso[2] ? parseInt(iso[2]) : undefined;
+    day = iso[3] ? parseInt(iso[3]) : undefined;
+  } else {
+    for (const token of tokens!) {
+      const monthIndex = token.length >= 3 ? MONTH_NAMES.findIndex(name => name.startsWith(token)) : -1;
+      if (/^\d{3,4}$/.test(token) && year === undefined) {
+        year = parseInt(token);
+      } else if (/^\d{1,2}$/.test(token) && day === undefined) {
+        day = parseInt(token);
+      } else if (monthIndex >= 0 && month === undefined) {
+        month = monthIndex + 1;
+      } else {
+        return null;
+      }
+    }
+  }
+
+  if (year === undefined || (day !== undefined && month === undefined)) return null;
+  if (month !== undefined && (month < 1 || month > 12)) return null;
+  if (day !== undefined && (day < 1 || day > daysInMonth(year, month!))) return null;
+  return { year, month, day };
+}
+
+// First or last day a part could stand for, as YYYY-MM-DD
+function partToIso(part: DatePart, edge: 'first' | 'last' = 'first'): string {
+  const month = part.month ?? (edge === 'first' ? 1 : 12);
+  const day = part.day ?? (edge === 'first' ? 1 : daysInMonth(part.year, month));
+  return `${String(part.year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function range(qualifier: DateQualifier, from: string, to: string): GenealogicalDate | null {
+  const start = parsePart(from.trim());
+  const end = parsePart(to.trim());
+  if (!start || !end || partToIso(end, 'last') < partToIso(start)) return null;
+  return { qualifier, start, end };
+}
+
+/**
+ * Reads GEDCOM date values ("ABT 1850", "BET 1848 AND 1852", "FROM 1850 TO
+ * 1860", "12 MAR 1901") and their everyday equivalents ("about 1850",
+ * "c. 1850", "1848-1852", "March 1901", "1901-03-12"). Returns null for
+ * anything it does not understand, including GEDCOM date phrases in brackets.
+ */
+export function parseGenealogicalDate(value: string): GenealogicalDate | null {
+  const text = value.trim().toUpperCase()
+    .replace(/@#D[^@]+@\s*/g, '')
+    .replace(/\s*\(.*\)$/, '')
+    .replace(/^INT\s+/, '');
+  if (!text) return null;
+
+  const between = text.match(/^(?:BET|BETWEEN)\s+(.+?)\s+(?:AND|-)\s+(.+)$/);
+  if (between) return range('between', between[1], between[2]);
+
+  const yearRange = text.match(/^(\d{3,4})\s*[-–]\s*(\d{3,4})$/);
+  if (yearRange) return range('between', yearRange[1], yearRange[2]);
+
+  const period = text.match(/^FROM\s+(.+?)(?:\s+TO\s+(.+))?$/);
+  if (period) {
+    if (period[2]) return range('from-to', period[1], period[2]);
+    const start = parsePart(period[1]);
+    return start && { qualifier: 'from', start };
+  }
+
+  const qualified = text.match(/^(ABOUT|ABT|CIRCA|CAL|EST|CA|C|BEFORE|BEF|AFTER|AFT|TO)(?:\.\s*|\s+)(.+)$/);
+  const qualifier = qualified ? (qualified[1] === 'TO' ? 'to' : QUALIFIER_WORDS[qualified[1]]) : 'exact';
+  const start = parsePart(qualified ? qualified[2].trim() : text);
+  return start && { qualifier, start };
+}
+
+// The date a genealogical date sorts by: the first day it could refer to
+export function sortDateOf(value: GenealogicalDate): string {
+  return partToIso(value.start);
+}
+
+export function isExactDay(value: GenealogicalDate): boolean {
+  return value.qualifier === 'exact' && value.start.day !== undefined;
+}
+
+function gedcomPart(part: DatePart): string {
+  return [part.day, part.month && MONTHS[part.month - 1], part.year].filter(Boolean).join(' ');
+}
+
+// Writes the date the way GEDCOM files and the *DateText columns store it
+export function toGedcomDate(value: GenealogicalDate): string {
+  const start = gedcomPart(value.start);
+  if (value.qualifier === 'between') return `BET ${start} AND ${gedcomPart(value.end!)}`;
+  if (value.qualifier === 'from-to') return `FROM ${start} TO ${gedcomPart(value.end!)}`;
+  const prefix = GEDCOM_QUALIFIERS[value.qualifier];
+  return prefix ? `${prefix} ${start}` : start;
+}
+
+function labelPart(part: DatePart): string {
+  if (part.month === undefined) return String(part.year);
+  const month = MONTH_LABELS[part.month - 1];
+  return part.day === undefined ? `${month} ${part.year}` : `${month} ${part.day}, ${part.year}`;
+}
+
+// Human-readable form, e.g. "about 1850" or "Mar 12, 1901"
+export function formatGenealogicalDate(value: GenealogicalDate): string {
+  const start = labelPart(value.start);
+  switch (value.qualifier) {
+    case 'exact': return start;
+    case 'between': return `between ${start} and ${labelPart(value.end!)}`;
+    case 'from-to': return `from ${start} to ${labelPart(value.end!)}`;
+    default: return `${value.qualifier} ${start}`;
+  }
+}
+
+/**
+ * Reads a stored date column and its text companion back into a
+ * genealogical date. Without text the column is an exact day.
+ */
+export function readStoredDate(
+  date: Date | string | null | undefined,
+  text: string | null | undefined
+): GenealogicalDate | null {
+  const parsed = text ? parseGenealogicalDate(text) : null;
+  if (parsed) return parsed;
+  if (!date) return null;
+  const iso = date instanceof Date ? date.toISOString() : String(date);
+  return parseGenealogicalDate(iso.split('T')[0]);
+}
+
+// Label for a stored date column and its text companion, or null when empty
+export function formatStoredDate(
+  date: Date | string | null | undefined,
+  text: string | null | undefined
+): string | null {
+  const value = readStoredDate(date, text);
+  return value ? formatGenealogicalDate(value) : null;
+}
+
+/**
+ * The first and last day a date could refer to, as YYYY-MM-DD. Open ends
+ * ("before", "after") and fuzzy dates ("about") leave a bound null.
+ */
+export function dateBounds(value: GenealogicalDate): { earliest: string | null; latest: string | null } {
+  const first = partToIso(value.start);
+  const last = partToIso(value.end ?? value.start, 'last');
+  switch (value.qualifier) {
+    case 'about': return { earliest: null, latest: null };
+    case 'before': case 'to': return { earliest: null, latest: last };
+    case 'after': case 'from': return { earliest: first, latest: null };
+    default: return { earliest: first, latest: last };
+  }
+}
+
+// Within the same sort date, "before" comes first and "after" last
+const QUALIFIER_ORDER: Record<DateQualifier, number> = {
+  before: 0, to: 0, exact: 1, about: 1, between: 1, from: 1, 'from-to': 1, after: 2,
+};
+
+/**
+ * Orders stored dates chronologically by their sort date, then by qualifier.
+ * Missing dates sort last.
+ */
+export function compareStoredDates(
+  a: { date: Date | string | null | undefined; text?: string | null },
+  b: { date: Date | string | null | undefined; text?: string | null }
+): number {
+  const left = readStoredDate(a.date, a.text);
+  const right = readStoredDate(b.date, b.text);
+  if (!left || !right) return (left ? 0 : 1) - (right ? 0 : 1);
+
+  const bySortDate = sortDateOf(left).localeCompare(sortDateOf(right));
+  return bySortDate || QUALIFIER_ORDER[left.qualifier] - QUALIFIER_ORDER[right.qualifier];
+}
@@ -0,0 +1,122 @@
+import type { AuditEntry, Citation, FamilyEvent, FamilyMember, FamilyTreeData, MediaItem, Relationship } from "./schema";
+import { dateBounds, readStoredDate, sortDateOf } from "./dates";
+
+/**
+ * Hiding living people from readers outside the family. A member is treated
+ * as living when marked so, or when born less than a century ago with no
+ * death recorded; their `privacy` override wins either way.
+ */
+
+export const LIVING_NAME = 'Living';
+
+const LIVING_YEARS = 100;
+
+// Dates are Date objects on the server and ISO strings once they reach the client
+export function isPresumedLiving(member: FamilyMember, today = new Date()): boolean {
+  if (member.isLiving) return true;
+  if (member.deathDate || member.deathDateText) return false;
+  const born = readStoredDate(member.birthDate, member.birthDateText);
+  if (!born) return false;
+  // The latest day they could have been born, so "about 1930" still counts
+  const latest = dateBounds(born).latest ?? sortDateOf(born);
+  const cutoff = new Date(today);
+  cutoff.setFullYear(cutoff.getFullYear() - LIVING_YEARS);
+  return latest > cutoff.toISOString().split('T')[0];
+}
+
+export function isPrivate(member: FamilyMember, today = new Date()): boolean {
+  if (member.privacy === 'private') return true;
+  if (member.privacy === 'public') return false;
+  return isPresumedLiving(member, today);
+}
+
+export function privateMemberIds(members: FamilyMember[], today = new Date()): Set<number> {
+  return new Set(members.filter(m => isPrivate(m, today)).map(m => m.id));
+}
+
+// What a private member keeps: where they sit in the tree, not who they are.
+// Everything else is cleared, so a column added later stays hidden until listed here.
+const KEPT_FIELDS: Array<keyof FamilyMember> = ['id', 'treeId', 'gender', 'isLiving', 'privacy', 'x', 'y', 'createdAt', 'updatedAt'];
+
+export function redactMember(member: FamilyMember): FamilyMember {
+  const cleared = Object.fromEntries(Object.keys(member).map(key => [key, null]));
+  const kept = Object.fromEntries(KEPT_FIELDS.map(key => [key, member[key]]));
+  return { ...cleared, ...kept, firstName: LIVING_NAME } as FamilyMember;
+}
+
+function redactRelationship(rel: Relationship): Relationship {
+  return { ...rel, startDate: null, startDateText: null, endDate: null, endDateText: null, notes: null };
+}
+
+function redactEvent(event: FamilyEvent): FamilyEvent {
+  return { ...event, date: null, dateText: null, place: null, description: null };
+}
+
+/**
+ * The tree with every private member redacted, along with the dates and
+ * places of relationships and events they take part in, which would
+ * otherwise give the same details away.
+ */
+export function redactFamilyTree(tree: FamilyTreeData, today = new Date()): FamilyTreeData {
+  const hidden = privateMemberIds(tree.members, today);
+  if (!hidden.size) return tree;
+  return {
+    members: tree.members.map(m => hidden.has(m.id) ? redactMember(m) : m),
+    relationships: tree.relationships.map(r =>
+      hidden.has(r.fromMemberId) || hidden.has(r.toMemberId) ? redactRelationship(r) : r
+    ),
+    events: tree.events.map(e => e.memberIds.some(id => hidden.has(id)) ? redactEvent(e) : e),
+  };
+}
+
+// Member id to primary photo id, without the photos of private members
+export function redactPrimaryPhotos(
+  primary: Record<number, number>,
+  members: FamilyMember[],
+  today = new Date()
+): Record<number, number> {
+  const hidden = privateMemberIds(members, today);
+  return Object.fromEntries(Object.entries(primary).filter(([id]) => !hidden.has(Number(id))));
+}
+
+// Events that any of the given members take part in
+function eventsWith(tree: FamilyTreeData, memberIds: Set<number>): Set<number> {
+  return new Set(tree.events.filter(e => e.memberIds.some(id => memberIds.has(id))).map(e => e.id));
+}
+
+// Photos and documents of private members or their events are left out altogether
+export function redactMedia(items: MediaItem[], tree: FamilyTreeData, today = new Date()): MediaItem[] {
+  const hidden = privateMemberIds(tree.members, today);
+  if (!hidden.size) return items;
+  const hiddenEvents = eventsWith(tree, hidden);
+  return items.filter(item =>
+    !item.memberIds.some(id => hidden.has(id)) && !item.eventIds.some(id => hiddenEvents.has(id))
+  );
+}
+
+// Citations about private members, their relationships or their events; a transcription gives as much away as the record
+export function redactCitations(citations: Citation[], tree: FamilyTreeData, today = new Date()): Citation[] {
+  const hidden = privateMemberIds(tree.members, today);
+  if (!hidden.size) return citations;
+  const hiddenRelationships = new Set(tree.relationships
+    .filter(r => hidden.has(r.fromMemberId) || hidden.has(r.toMemberId))
+    .map(r => r.id));
+  const hiddenEvents = eventsWith(tree, hidden);
+  return citations.filter(c =>
+    !(c.memberId !== null && hidden.has(c.memberId)) &&
+    !(c.relationshipId !== null && hiddenRelationships.has(c.relationshipId)) &&
+    !(c.eventId !== null && hiddenEvents.has(c.eventId))
+  );
+}
+
+/**
+ * The audit log with the changed values left out of entries about anyone
+ * not known to be public. Members deleted since count as private, since
+ * there is nothing left to tell whether they were living.
+ */
+export function redactAuditLog(entries: AuditEntry[], members: FamilyMember[], today = new Date()): AuditEntry[] {
+  const shown = new Set(members.filter(m => !isPrivate(m, today)).map(m => m.id));
+  return entries.map(entry =>
+    entry.memberIds.every(id => shown.has(id)) ? entry : { ...entry, changes: {} }
+  );
+}
@@ -1,23 +1,43 @@
-import { pgTable, text, serial, integer, real, timestamp, date, boolean, varchar, primaryKey, uniqueIndex, index } from "drizzle-orm/pg-core";
-import { relations } from 'drizzle-orm';
+import { pgTable, text, serial, integer, real, timestamp, date, boolean, varchar, jsonb, primaryKey, uniqueIndex, index } from "drizzle-orm/pg-core";
+import { relations, sql } from 'drizzle-orm';
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { parseGenealogicalDate } from "./dates";
+
+// A separate family tree; every member, relationship, event, source and
+// media item belongs to exactly one
+export const trees = pgTable("trees", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description"),
+  // Timestamps for record keeping
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+const treeId = () => integer("tree_id").notNull().references(() => trees.id, { onDelete: 'cascade' });
 
 export const familyMembers = pgTable("family_members", {
   id: serial("id").primaryKey(),
+  treeId: treeId(),
   firstName: varchar("first_name", { length: 100 }).notNull(),
   middleName: varchar("middle_name", { length: 100 }),
   lastName: varchar("last_name", { length: 100 }),
   gender: varchar("gender", { length: 50 }),
   birthDate: date("birth_date"),
+  // GEDCOM form of an inexact birth date, e.g. "ABT 1850"; birthDate is then its sort date
+  birthDateText: varchar("birth_date_text", { length: 100 }),
   birthPlace: varchar("birth_place", { length: 255 }),
   deathDate: date("death_date"),
+  deathDateText: varchar("death_date_text", { length: 100 }),
   deathPlace: varchar("death_place", { length: 255 }),
   occupation: varchar("occupation", { length: 255 }),
   biography: text("biography"),
   photoUrl: varchar("photo_url", { length: 500 }),
   isLiving: boolean("is_living").default(true),
   email: varchar("email", { length: 255 }),
+  // Overrides the living-person check in shared/privacy.ts: 'private' or 'public'; null decides automatically
+  privacy: varchar("privacy", { length: 20 }),
   // Visual positioning
   x: real("x").notNull().default(0),
   y: real("y").notNull().default(0),
@@ -26,6 +46,7 @@ export const familyMembers = pgTable("family_members", {
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => {
   return {
+    treeIdx: index("family_members_tree_idx").on(table.treeId),
     nameIdx: index("family_members_name_idx").on(table.firstName, table.lastName),
     birthDateIdx: index("family_members_birth_date_idx").on(table.birthDate),
   }
@@ -33,12 +54,15 @@ export const familyMembers = pgTable("family_members", {
 
 export const relationships = pgTable("relationships", {
   id: serial("id").primaryKey(),
+  treeId: treeId(),
   fromMemberId: integer("from_member_id").notNull().references(() => familyMembers.id, { onDelete: 'cascade' }),
   toMemberId: integer("to_member_id").notNull().references(() => familyMembers.id, { onDelete: 'cascade' }),
   type: varchar("type", { length: 50 }).notNull(), // parent-child, spouse, adopted, step-parent
   subType: varchar("sub_type", { length: 50 }), // biological, adopted, step for parent-child
   startDate: date("start_date"), // marriage date, adoption date, etc.
+  startDateText: varchar("start_date_text", { length: 100 }), // inexact start date, e.g. "BET 1848 AND 1852"
   endDate: date("end_date"), // divorce date, death date, etc.
+  endDateText: varchar("end_date_text", { length: 100 }),
   status: varchar("status", { length: 50 }).default('active'), // active, divorced, widowed, deceased
   notes: text("notes"),
   // Timestamps for record keeping
@@ -51,6 +75,7 @@ export const relationships = pgTable("relationships", {
       table.toMemberId, 
       table.type
     ),
+    treeIdx: index("relationships_tree_idx").on(table.treeId),
     fromMemberIdx: index("relationships_from_member_idx").on(table.fromMemberId),
     toMemberIdx: index("relationships_to_member_idx").on(table.toMemberId),
   }
@@ -58,8 +83,10 @@ export const relationships = pgTable("relationships", {
 
 export const familyEvents = pgTable("family_events", {
   id: serial("id").primaryKey(),
+  treeId: treeId(),
   type: varchar("type", { length: 50 }).notNull(), // birth, death, marriage, divorce, graduation, etc.
   date: date("date"),
+  dateText: varchar("date_text", { length: 100 }), // inexact date, e.g. "AFT 1900"
   place: varchar("place", { length: 255 }),
   description: text("description"),
   // Multiple members can be involved in an event
@@ -69,11 +96,197 @@ export const familyEvents = pgTable("family_events", {
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => {
   return {
+    treeIdx: index("family_events_tree_idx").on(table.treeId),
     dateIdx: index("family_events_date_idx").on(table.date),
     typeIdx: index("family_events_type_idx").on(table.type),
   }
 });
 
+// A piece of evidence, e.g. a census return or parish register (GEDCOM SOUR record)
+export const sources = pgTable("sources", {
+  id: serial("id").primaryKey(),
+  treeId: treeId(),
+  title: varchar("title", { length: 255 }).notNull(), // TITL
+  author: varchar("author", { length: 255 }), // AUTH
+  publication: text("publication"), // PUBL
+  repository: varchar("repository", { length: 255 }), // REPO
+  url: varchar("url", { length: 500 }),
+  notes: text("notes"), // NOTE
+  // Timestamps for record keeping
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Links a source to one member field, relationship or event (GEDCOM SOUR citation)
+export const citations = pgTable("citations", {
+  id: serial("id").primaryKey(),
+  sourceId: integer("source_id").notNull().references(() => sources.id, { onDelete: 'cascade' }),
+  // Exactly one of these is set
+  memberId: integer("member_id").references(() => familyMembers.id, { onDelete: 'cascade' }),
+  relationshipId: integer("relationship_id").references(() => relationships.id, { onDelete: 'cascade' }),
+  eventId: integer("event_id").references(() => familyEvents.id, { onDelete: 'cascade' }),
+  field: varchar("field", { length: 50 }), // e.g. birthDate; null cites the whole record
+  page: varchar("page", { length: 255 }), // PAGE
+  quality: integer("quality"), // QUAY: 0 unreliable, 1 questionable, 2 secondary, 3 primary
+  transcription: text("transcription"), // DATA TEXT
+  accessedAt: date("accessed_at"), // DATA DATE
+  notes: text("notes"), // NOTE
+  // Timestamps for record keeping
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => {
+  return {
+    sourceIdx: index("citations_source_idx").on(table.sourceId),
+    memberIdx: index("citations_member_idx").on(table.memberId),
+    relationshipIdx: index("citations_relationship_idx").on(table.relationshipId),
+    eventIdx: index("citations_event_idx").on(table.eventId),
+  }
+});
+
+// An uploaded photo or document; the file itself lives in the media directory
+export const media = pgTable("media", {
+  id: serial("id").primaryKey(),
+  treeId: treeId(),
+  fileName: varchar("file_name", { length: 255 }).notNull(), // name inside the media directory
+  originalName: varchar("original_name", { length: 255 }).notNull(),
+  mimeType: varchar("mime_type", { length: 100 }).notNull(),
+  size: integer("size").notNull(), // bytes
+  width: integer("width"), // images only
+  height: integer("height"),
+  thumbnailFileName: varchar("thumbnail_file_name", { length: 255 }),
+  caption: text("caption"),
+  date: date("date"), // when the photo was taken or the document written
+  dateText: varchar("date_text", { length: 100 }),
+  // Timestamps for record keeping
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Media showing a member; a member's primary photo is shown on their card
+export const memberMedia = pgTable("member_media", {
+  memberId: integer("member_id").notNull().references(() => familyMembers.id, { onDelete: 'cascade' }),
+  mediaId: integer("media_id").notNull().references(() => media.id, { onDelete: 'cascade' }),
+  isPrimary: boolean("is_primary").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    pk: primaryKey({ columns: [table.memberId, table.mediaId] }),
+    mediaIdx: index("member_media_media_idx").on(table.mediaId),
+  }
+});
+
+export const eventMedia = pgTable("event_media", {
+  eventId: integer("event_id").notNull().references(() => familyEvents.id, { onDelete: 'cascade' }),
+  mediaId: integer("media_id").notNull().references(() => media.id, { onDelete: 'cascade' }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    pk: primaryKey({ columns: [table.eventId, table.mediaId] }),
+    mediaIdx: index("event_media_media_idx").on(table.mediaId),
+  }
+});
+
+/**
+ * Undo history: each edit keeps the rows it touched as they were before and
+ * after, so undoing writes the "before" rows back and removes rows the edit
+ * created. Entries undone and not redone are dropped by the next edit.
+ */
+export const changeLog = pgTable("change_log", {
+  id: serial("id").primaryKey(),
+  treeId: treeId(),
+  description: text("description").notNull(), // e.g. "Delete Jane Doe"
+  before: jsonb("before").$type<ChangeSnapshot>().notNull(),
+  after: jsonb("after").$type<ChangeSnapshot>().notNull(),
+  undone: boolean("undone").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+/**
+ * Who changed what and when. Each entry is one row created, updated or
+ * deleted, with only the fields that changed; `memberIds` lists the people
+ * it concerns so a member's history includes their relationships and events.
+ */
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  treeId: treeId(),
+  entityType: varchar("entity_type", { length: 20 }).notNull(), // member, relationship, event, source, citation, media, tree, tree-member, share-link, proposal
+  entityId: integer("entity_id"), // the user for tree-member entries; null for whole-tree imports and restores
+  action: varchar("action", { length: 20 }).notNull(), // create, update, delete, import, restore
+  memberIds: integer("member_ids").array().notNull(),
+  changes: jsonb("changes").$type<AuditChanges>().notNull(),
+  actor: text("actor"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    treeIdx: index("audit_log_tree_idx").on(table.treeId),
+    entityIdx: index("audit_log_entity_idx").on(table.entityType, table.entityId),
+  }
+});
+
+// Accounts for signing in; passwords are stored as salted scrypt hashes
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: varchar("username", { length: 50 }).notNull(),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    usernameIdx: uniqueIndex("users_username_idx").on(sql`lower(${table.username})`),
+  }
+});
+
+// Who a tree is shared with and what each person may do in it
+export const treeMembers = pgTable("tree_members", {
+  treeId: treeId(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  role: varchar("role", { length: 20 }).notNull(), // owner, editor, contributor, viewer
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    pk: primaryKey({ columns: [table.treeId, table.userId] }),
+    userIdx: index("tree_members_user_idx").on(table.userId),
+  }
+});
+
+/**
+ * A change suggested by a contributor. It is only applied once an editor or
+ * owner approves it; `data` is the body the direct route would have taken.
+ */
+export const changeProposals = pgTable("change_proposals", {
+  id: serial("id").primaryKey(),
+  treeId: treeId(),
+  proposedBy: integer("proposed_by").references(() => users.id, { onDelete: 'set null' }),
+  entityType: varchar("entity_type", { length: 20 }).notNull(), // member, relationship, event
+  action: varchar("action", { length: 20 }).notNull(), // create, update, delete
+  entityId: integer("entity_id"), // null when creating
+  data: jsonb("data").$type<Record<string, unknown>>(), // null when deleting
+  status: varchar("status", { length: 20 }).notNull().default('pending'), // pending, approved, rejected
+  reviewedBy: integer("reviewed_by").references(() => users.id, { onDelete: 'set null' }),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    treeStatusIdx: index("change_proposals_tree_status_idx").on(table.treeId, table.status),
+  }
+});
+
+// A link that lets people without accounts read one tree, with living people redacted
+export const shareLinks = pgTable("share_links", {
+  id: serial("id").primaryKey(),
+  treeId: treeId(),
+  token: varchar("token", { length: 64 }).notNull(),
+  label: varchar("label", { length: 100 }), // who it was made for, e.g. "Grandma"
+  passwordHash: text("password_hash"), // null when the link alone is enough
+  expiresAt: timestamp("expires_at"), // null never expires
+  createdBy: integer("created_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    tokenIdx: uniqueIndex("share_links_token_idx").on(table.token),
+    treeIdx: index("share_links_tree_idx").on(table.treeId),
+  }
+});
+
 // Define relations
 export const familyMembersRelations = relations(familyMembers, ({ many }) => ({
   relationships: many(relationships),
@@ -91,6 +304,13 @@ export const relationshipsRelations = relations(relationships, ({ one }) => ({
   }),
 }));
 
+export const citationsRelations = relations(citations, ({ one }) => ({
+  source: one(sources, {
+    fields: [citations.sourceId],
+    references: [sources.id],
+  }),
+}));
+
 // Custom zod transform for handling dates
 const dateTransform = z.preprocess((arg) => {
   if (arg === "" || arg === undefined || arg === null) return null;
@@ -99,6 +319,14 @@ const dateTransform = z.preprocess((arg) => {
   return null;
 }, z.date().nullable());
 
+// Any date parseGenealogicalDate understands; storage derives the sort date from it
+const genealogicalDateText = z.string().max(100).nullable().optional()
+  .refine(value => !value || parseGenealogicalDate(value) !== null, {
+    message: 'Unrecognised date; try "12 Mar 1901", "about 1850" or "between 1848 and 1852"',
+  });
+
+export const MEMBER_PRIVACY = ['private', 'public'] as const;
+
 // Validation schemas
 export const insertFamilyMemberSchema = createInsertSchema(familyMembers, {
   firstName: z.string().min(1).max(100),
@@ -106,8 +334,10 @@ export const insertFamilyMemberSchema = createInsertSchema(familyMembers, {
   lastName: z.string().max(100).optional(),
   gender: z.enum(['male', 'female', 'other', 'unknown']).optional(),
   birthDate: dateTransform.optional(),
+  birthDateText: genealogicalDateText,
   birthPlace: z.string().max(255).optional(),
   deathDate: dateTransform,
+  deathDateText: genealogicalDateText,
   deathPlace: z.string().max(255).optional(),
   occupation: z.string().max(255).optional(),
   biography: z.string().optional(),
@@ -116,35 +346,464 @@ export const insertFamilyMemberSchema = createInsertSchema(familyMembers, {
   x: z.number().default(0),
   y: z.number().default(0),
   email: z.string().email().max(255).optional(),
-}).omit({ id: true, createdAt: true, updatedAt: true });
+  privacy: z.enum(MEMBER_PRIVACY).nullable().optional(),
+}).omit({ id: true, treeId: true, createdAt: true, updatedAt: true });
 
 export const insertRelationshipSchema = createInsertSchema(relationships, {
   type: z.enum(['parent-child', 'spouse', 'adopted', 'step-parent']),
   subType: z.enum(['biological', 'adopted', 'step', 'foster', 'legal']).optional(),
   status: z.enum(['active', 'divorced', 'separated', 'widowed', 'deceased']).default('active'),
   startDate: dateTransform,
+  startDateText: genealogicalDateText,
   endDate: dateTransform,
-}).omit({ id: true, createdAt: true, updatedAt: true });
+  endDateText: genealogicalDateText,
+}).omit({ id: true, treeId: true, createdAt: true, updatedAt: true });
+
+export const familyEventTypes = [
+  'birth', 'death', 'marriage', 'divorce', 
+  'adoption', 'graduation', 'move', 'other'
+] as const;
 
 export const insertFamilyEventSchema = createInsertSchema(familyEvents, {
-  type: z.enum([
-    'birth', 'death', 'marriage', 'divorce', 
-    'adoption', 'graduation', 'move', 'other'
-  ]),
+  type: z.enum(familyEventTypes),
   date: dateTransform,
+  dateText: genealogicalDateText,
   memberIds: z.number().array().min(1),
+}).omit({ id: true, treeId: true, createdAt: true, updatedAt: true });
+
+export const insertSourceSchema = createInsertSchema(sources, {
+  title: z.string().min(1).max(255),
+  author: z.string().max(255).optional(),
+  publication: z.string().optional(),
+  repository: z.string().max(255).optional(),
+  url: z.string().max(500).optional(),
+  notes: z.string().optional(),
+}).omit({ id: true, treeId: true, createdAt: true, updatedAt: true });
+
+export const citationQualities = [
+  { value: 0, label: 'Unreliable' },
+  { value: 1, label: 'Questionable' },
+  { value: 2, label: 'Secondary' },
+  { value: 3, label: 'Primary' },
+] as const;
+
+const citationFields = {
+  sourceId: z.number().int(),
+  memberId: z.number().int().nullable().optional(),
+  relationshipId: z.number().int().nullable().optional(),
+  eventId: z.number().int().nullable().optional(),
+  field: z.string().max(50).nullable().optional(),
+  page: z.string().max(255).optional(),
+  quality: z.number().int().min(0).max(3).nullable().optional(),
+  transcription: z.string().optional(),
+  accessedAt: dateTransform.optional(),
+  notes: z.string().optional(),
+};
+
+const citesOneTarget = (citation: { memberId?: number | null; relationshipId?: number | null; eventId?: number | null }) =>
+  [citation.memberId, citation.relationshipId, citation.eventId].filter(id => id != null).length === 1;
+
+const citationSchema = createInsertSchema(citations, citationFields)
+  .omit({ id: true, createdAt: true, updatedAt: true });
+
+const oneTargetMessage = {
+  message: 'A citation must be linked to exactly one member, relationship or event',
+  path: ['memberId'],
+};
+
+export const insertCitationSchema = citationSchema.refine(citesOneTarget, oneTargetMessage);
+
+// Updates can change the details but not what the citation points at
+export const updateCitationSchema = citationSchema
+  .omit({ memberId: true, relationshipId: true, eventId: true })
+  .partial();
+
+// Text fields sent alongside an uploaded file
+export const mediaUploadSchema = z.object({
+  caption: z.string().optional(),
+  dateText: genealogicalDateText,
+  memberId: z.coerce.number().int().optional(),
+  eventId: z.coerce.number().int().optional(),
+});
+
+export const updateMediaSchema = createInsertSchema(media, {
+  caption: z.string().nullable().optional(),
+  date: dateTransform.optional(),
+  dateText: genealogicalDateText,
+}).pick({ caption: true, date: true, dateText: true }).partial();
+
+export const mediaLinkSchema = z.object({
+  memberId: z.number().int().optional(),
+  eventId: z.number().int().optional(),
+  // Only for members: show this photo on their card
+  isPrimary: z.boolean().optional(),
+}).refine(link => (link.memberId === undefined) !== (link.eventId === undefined), {
+  message: 'Link media to exactly one member or event',
+  path: ['memberId'],
+});
+
+// Card moves saved together, such as a dragged selection
+export const memberPositionsSchema = z.array(z.object({
+  id: z.number().int(),
+  x: z.number(),
+  y: z.number(),
+})).min(1, 'Send at least one position');
+
+// Field-by-field values for the member that survives a merge
+export const mergeFamilyMembersSchema = z.object({
+  keepMemberId: z.number().int(),
+  mergeMemberId: z.number().int(),
+  values: insertFamilyMemberSchema.omit({ x: true, y: true }).partial().default({}),
+}).refine(merge => merge.keepMemberId !== merge.mergeMemberId, {
+  message: 'Choose two different members to merge',
+  path: ['mergeMemberId'],
+});
+
+export const insertTreeSchema = createInsertSchema(trees, {
+  name: z.string().trim().min(1, 'Give the tree a name').max(100),
+  description: z.string().nullable().optional(),
 }).omit({ id: true, createdAt: true, updatedAt: true });
 
+// Sign-up and sign-in forms share one shape
+export const credentialsSchema = z.object({
+  username: z.string().trim()
+    .min(3, 'Usernames are at least 3 characters')
+    .max(50)
+    .regex(/^[A-Za-z0-9_.-]+$/, 'Use letters, numbers, dots, dashes and underscores'),
+  password: z.string().min(8, 'Passwords are at least 8 characters').max(200),
+});
+
+// Least to most: viewers read, contributors also propose changes, editors
+// change anything in the tree, owners also share, rename and delete it
+export const TREE_ROLES = ['viewer', 'contributor', 'editor', 'owner'] as const;
+
+export function hasTreeRole(role: TreeRole | null | undefined, needed: TreeRole): boolean {
+  return !!role && TREE_ROLES.indexOf(role) >= TREE_ROLES.indexOf(needed);
+}
+
+export const shareTreeSchema = z.object({
+  username: z.string().trim().min(1, 'Enter a username'),
+  role: z.enum(TREE_ROLES),
+});
+
+export const treeRoleSchema = z.object({
+  role: z.enum(TREE_ROLES),
+});
+
+export const createShareLinkSchema = z.object({
+  label: z.string().trim().max(100).optional(),
+  expiresAt: z.coerce.date()
+    .refine(date => date > new Date(), 'Pick a time in the future')
+    .nullable()
+    .optional(),
+  password: z.string().min(4, 'Use at least 4 characters').max(200).optional(),
+});
+
+export const unlockShareLinkSchema = z.object({
+  password: z.string().min(1, 'Enter the password'),
+});
+
+export const PROPOSAL_ENTITY_TYPES = ['member', 'relationship', 'event'] as const;
+export const PROPOSAL_ACTIONS = ['create', 'update', 'delete'] as const;
+export const PROPOSAL_STATUSES = ['pending', 'approved', 'rejected'] as const;
+
+// Creates carry a full body, updates a partial one and deletes none
+export function parseProposalData(
+  entityType: typeof PROPOSAL_ENTITY_TYPES[number],
+  action: typeof PROPOSAL_ACTIONS[number],
+  data: unknown
+) {
+  const schema = {
+    member: insertFamilyMemberSchema,
+    relationship: insertRelationshipSchema,
+    event: insertFamilyEventSchema,
+  }[entityType];
+  return action === 'create' ? schema.parse(data) : schema.partial().parse(data);
+}
+
+export const changeProposalSchema = z.object({
+  entityType: z.enum(PROPOSAL_ENTITY_TYPES),
+  action: z.enum(PROPOSAL_ACTIONS),
+  entityId: z.number().int().optional(),
+  data: z.record(z.unknown()).optional(),
+}).superRefine((proposal, ctx) => {
+  if ((proposal.action === 'create') !== (proposal.entityId === undefined)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['entityId'],
+      message: proposal.action === 'create' ? 'New records have no id yet' : 'Say which record to change',
+    });
+  }
+  if ((proposal.action === 'delete') !== (proposal.data === undefined)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['data'],
+      message: proposal.action === 'delete' ? 'Deletes take no data' : 'Include the proposed values',
+    });
+  }
+});
+
+export const AUDIT_ENTITY_TYPES = [
+  'member', 'relationship', 'event', 'source', 'citation', 'media', 'tree', 'tree-member', 'share-link', 'proposal'
+] as const;
+export const AUDIT_ACTIONS = ['create', 'update', 'delete', 'import', 'restore'] as const;
+
+// Filters for GET /api/audit, newest entries first
+export const auditQuerySchema = z.object({
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.coerce.number().int().optional(),
+  memberId: z.coerce.number().int().optional(),
+  actor: z.string().min(1).optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+// ?redactLiving=true hides living people; see shared/privacy.ts
+export const privacyQuerySchema = z.object({
+  redactLiving: z.string().optional().transform(value => value === 'true'),
+});
+
+// Backups store rows with their original IDs so links can be remapped on restore
+// Version 2 added sources and citations; version 1 backups are still accepted
+export const BACKUP_SCHEMA_VERSION = 2;
+
+// Database rows use null where the insert schemas expect a missing field
+const withoutNulls = (arg: unknown) =>
+  arg && typeof arg === 'object' && !Array.isArray(arg)
+    ? Object.fromEntries(Object.entries(arg).filter(([, value]) => value !== null))
+    : arg;
+
+const backupId = z.number().int();
+
+export const familyTreeBackupSchema = z.object({
+  schemaVersion: z.union([z.literal(1), z.literal(BACKUP_SCHEMA_VERSION)]),
+  exportedAt: z.string(),
+  members: z.array(z.preprocess(withoutNulls,
+    insertFamilyMemberSchema.omit({ x: true, y: true }).extend({ id: backupId })
+  )),
+  relationships: z.array(z.preprocess(withoutNulls,
+    insertRelationshipSchema.extend({ id: backupId })
+  )),
+  events: z.array(z.preprocess(withoutNulls,
+    insertFamilyEventSchema.extend({ id: backupId })
+  )),
+  positions: z.array(z.object({
+    memberId: backupId,
+    x: z.number(),
+    y: z.number(),
+  })),
+  sources: z.array(z.preprocess(withoutNulls,
+    insertSourceSchema.extend({ id: backupId })
+  )).default([]),
+  citations: z.array(z.preprocess(withoutNulls,
+    citationSchema.extend({ id: backupId }).refine(citesOneTarget, oneTargetMessage)
+  )).default([]),
+}).superRefine((backup, ctx) => {
+  const memberIds = new Set<number>();
+  backup.members.forEach((member, index) => {
+    if (memberIds.has(member.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['members', index, 'id'], message: `Duplicate member id ${member.id}` });
+    }
+    memberIds.add(member.id);
+  });
+
+  const checkMember = (id: number, path: (string | number)[]) => {
+    if (!memberIds.has(id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `Unknown member id ${id}` });
+    }
+  };
+  backup.relationships.forEach((rel, index) => {
+    checkMember(rel.fromMemberId, ['relationships', index, 'fromMemberId']);
+    checkMember(rel.toMemberId, ['relationships', index, 'toMemberId']);
+  });
+  backup.events.forEach((event, index) => {
+    event.memberIds.forEach((id, i) => checkMember(id, ['events', index, 'memberIds', i]));
+  });
+  backup.positions.forEach((position, index) => {
+    checkMember(position.memberId, ['positions', index, 'memberId']);
+  });
+
+  const known = {
+    sourceId: new Set(backup.sources.map(source => source.id)),
+    relationshipId: new Set(backup.relationships.map(rel => rel.id)),
+    eventId: new Set(backup.events.map(event => event.id)),
+  };
+  backup.citations.forEach((citation, index) => {
+    if (citation.memberId != null) checkMember(citation.memberId, ['citations', index, 'memberId']);
+    for (const key of ['sourceId', 'relationshipId', 'eventId'] as const) {
+      const id = citation[key];
+      if (id != null && !known[key].has(id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['citations', index, key], message: `Unknown ${key.replace('Id', '')} id ${id}` });
+      }
+    }
+  });
+});
+
 // Type exports
+export type Tree = typeof trees.$inferSelect;
+export type InsertTree = z.infer<typeof insertTreeSchema>;
+export type TreeRole = typeof TREE_ROLES[number];
+// A tree as one user sees it
+export type TreeWithRole = Tree & { role: TreeRole };
+export type TreeMember = {
+  userId: number;
+  username: string;
+  role: TreeRole;
+  createdAt: Date | null;
+};
+export type ShareTree = z.infer<typeof shareTreeSchema>;
+export type ChangeProposalInput = z.infer<typeof changeProposalSchema>;
+export type CreateShareLink = z.infer<typeof createShareLinkSchema>;
+export type ShareLinkRecord = typeof shareLinks.$inferSelect;
+// What owners see of a link; the password itself never leaves the server
+export type ShareLink = Omit<ShareLinkRecord, 'passwordHash'> & { hasPassword: boolean };
+// What a share link's visitor learns before and after unlocking it
+export type SharedTree = {
+  name: string;
+  description: string | null;
+  hasPassword: boolean;
+  unlocked: boolean;
+  expiresAt: Date | null;
+};
+export type ChangeProposal = Omit<typeof changeProposals.$inferSelect, 'entityType' | 'action' | 'status'> & {
+  entityType: typeof PROPOSAL_ENTITY_TYPES[number];
+  action: typeof PROPOSAL_ACTIONS[number];
+  status: typeof PROPOSAL_STATUSES[number];
+  proposedByUsername: string | null;
+};
 export type InsertFamilyMember = z.infer<typeof insertFamilyMemberSchema>;
 export type FamilyMember = typeof familyMembers.$inferSelect;
 export type InsertRelationship = z.infer<typeof insertRelationshipSchema>;
 export type Relationship = typeof relationships.$inferSelect;
 export type InsertFamilyEvent = z.infer<typeof insertFamilyEventSchema>;
 export type FamilyEvent = typeof familyEvents.$inferSelect;
+export type Source = typeof sources.$inferSelect;
+export type InsertSource = z.infer<typeof insertSourceSchema>;
+export type Citation = typeof citations.$inferSelect;
+export type InsertCitation = z.infer<typeof insertCitationSchema>;
+export type Media = typeof media.$inferSelect;
+// Media rows are created from uploads, so there is no insert schema
+export type InsertMedia = Omit<typeof media.$inferInsert, 'id' | 'treeId' | 'createdAt' | 'updatedAt'>;
+export type UpdateMedia = z.infer<typeof updateMediaSchema>;
+export type MediaLink = z.infer<typeof mediaLinkSchema>;
+
+// A media row with everything it is linked to
+export type MediaItem = Media & {
+  memberIds: number[];
+  eventIds: number[];
+  primaryForMemberIds: number[];
+};
+
+export type MemberPositionUpdate = z.infer<typeof memberPositionsSchema>[number];
+export type MergeFamilyMembers = z.infer<typeof mergeFamilyMembersSchema>;
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+export type MemberPrivacy = typeof MEMBER_PRIVACY[number];
+export type Credentials = z.infer<typeof credentialsSchema>;
+export type UserRecord = typeof users.$inferSelect;
+// What the API reveals about an account
+export type User = Omit<UserRecord, 'passwordHash'>;
+
+// A pair of members that are probably the same person, scored from 0 to 1
+export type DuplicateCandidate = {
+  memberIds: [number, number];
+  score: number;
+  reasons: string[];
+};
+
+// Error body for a relationship that would make the tree structurally impossible
+export type RelationshipRuleViolation = {
+  message: string;
+  code: 'self-link' | 'duplicate' | 'ancestry-cycle' | 'too-many-parents';
+  field: 'fromMemberId' | 'toMemberId' | 'type';
+  conflictingRelationshipId?: number;
+};
+
+// How `toMemberId` is related to `fromMemberId`, with the members that connect them
+export type Kinship = {
+  fromMemberId: number;
+  toMemberId: number;
+  label: string | null;
+  description: string;
+  commonAncestorIds: number[];
+  path: number[];
+  relationshipIds: number[];
+};
+
+export type FamilyTreeBackup = z.infer<typeof familyTreeBackupSchema>;
+
+// Rows as a backup writes them, without their tree or timestamps
+type BackupRow<T> = Omit<T, 'treeId' | 'createdAt' | 'updatedAt'>;
+
+// A backup document as createBackup writes it; familyTreeBackupSchema reads it back
+export type BackupData = {
+  schemaVersion: typeof BACKUP_SCHEMA_VERSION;
+  exportedAt: string;
+  members: Array<Omit<BackupRow<FamilyMember>, 'x' | 'y'>>;
+  relationships: Array<BackupRow<Relationship>>;
+  events: Array<BackupRow<FamilyEvent>>;
+  positions: MemberPosition[];
+  sources: Array<BackupRow<Source>>;
+  citations: Array<BackupRow<Citation>>;
+};
+
+// Rows an edit touched, in one state; rows missing here did not exist
+export type ChangeSnapshot = {
+  members: FamilyMember[];
+  relationships: Relationship[];
+  events: FamilyEvent[];
+  citations: Citation[];
+  memberMedia: Array<typeof memberMedia.$inferSelect>;
+  eventMedia: Array<typeof eventMedia.$inferSelect>;
+};
+
+export type ChangeSummary = {
+  id: number;
+  description: string;
+  createdAt: Date | null;
+};
+
+// The edits the next undo and redo would revert or repeat
+export type ChangeHistory = {
+  undo: ChangeSummary | null;
+  redo: ChangeSummary | null;
+};
+
+// Changed fields with their old and new values; null where the row did not exist
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export type AuditEntry = Omit<typeof auditLog.$inferSelect, 'entityType' | 'action'> & {
+  entityType: AuditEntityType;
+  action: AuditAction;
+};
+
+// Where a member's card sits on the tree canvas
+export type MemberPosition = {
+  memberId: number;
+  x: number;
+  y: number;
+};
 
 export type FamilyTreeData = {
   members: FamilyMember[];
   relationships: Relationship[];
   events: FamilyEvent[];
 };
+
+export type GedcomSkippedTag = {
+  line: number;
+  tag: string;
+  path: string;
+  reason: string;
+};
+
+export type GedcomImportReport = {
+  members: number;
+  relationships: number;
+  events: number;
+  skipped: GedcomSkippedTag[];
+};
@@ -0,0 +1,199 @@
+import type { FamilyMember, FamilyTreeData, Relationship } from "./schema";
+import { dateBounds, readStoredDate } from "./dates";
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationIssue = {
+  code:
+    | 'death-before-birth'
+    | 'living-with-death-date'
+    | 'child-born-before-parent'
+    | 'child-born-after-parent-death'
+    | 'married-before-birth'
+    | 'married-after-death'
+    | 'parent-child-cycle';
+  severity: ValidationSeverity;
+  message: string;
+  memberIds: number[];
+  relationshipIds: number[];
+};
+
+export type ValidationReport = {
+  issues: ValidationIssue[];
+};
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+type Span = { earliest: number | null; latest: number | null };
+
+// Dates are Date objects on the server and ISO strings once they reach the client.
+// Inexact dates span every day they could mean, so only impossible facts are flagged.
+function spanOf(value: Date | string | null, text: string | null): Span | null {
+  const date = readStoredDate(value, text);
+  if (!date) return null;
+  const { earliest, latest } = dateBounds(date);
+  return {
+    earliest: earliest === null ? null : Date.parse(earliest),
+    latest: latest === null ? null : Date.parse(latest),
+  };
+}
+
+// Milliseconds from `from` until `to`, or null when either bound is open
+function gap(from: number | null | undefined, to: number | null | undefined): number | null {
+  return from === null || from === undefined || to === null || to === undefined ? null : to - from;
+}
+
+function nameOf(member: FamilyMember) {
+  return [member.firstName, member.lastName].filter(Boolean).join(' ');
+}
+
+function checkMember(member: FamilyMember, issues: ValidationIssue[]) {
+  const born = spanOf(member.birthDate, member.birthDateText);
+  const died = spanOf(member.deathDate, member.deathDateText);
+
+  if ((gap(died?.latest, born?.earliest) ?? 0) > 0) {
+    issues.push({
+      code: 'death-before-birth',
+      severity: 'error',
+      message: `${nameOf(member)} died before they were born`,
+      memberIds: [member.id],
+      relationshipIds: [],
+    });
+  }
+  if (member.isLiving && died !== null) {
+    issues.push({
+      code: 'living-with-death-date',
+      severity: 'error',
+      message: `${nameOf(member)} is marked as living but has a death date`,
+      memberIds: [member.id],
+      relationshipIds: [],
+    });
+  }
+}
+
+function checkParentChild(parent: FamilyMember, child: FamilyMember, rel: Relationship, issues: ValidationIssue[]) {
+  const parentBorn = spanOf(parent.birthDate, parent.birthDateText);
+  const parentDied = spanOf(parent.deathDate, parent.deathDateText);
+  const childBorn = spanOf(child.birthDate, child.birthDateText);
+  if (childBorn === null) return;
+
+  if ((gap(childBorn.latest, parentBorn?.earliest) ?? -1) >= 0) {
+    issues.push({
+      code: 'child-born-before-parent',
+      severity: 'error',
+      message: `${nameOf(child)} was born before their parent ${nameOf(parent)}`,
+      memberIds: [parent.id, child.id],
+      relationshipIds: [rel.id],
+    });
+  }
+  // Adoptive and step parents can join a family long after a death, so only warn
+  if ((gap(parentDied?.latest, childBorn.earliest) ?? 0) > YEAR_MS) {
+    issues.push({
+      code: 'child-born-after-parent-death',
+      severity: 'warning',
+      message: `${nameOf(child)} was born more than a year after their parent ${nameOf(parent)} died`,
+      memberIds: [parent.id, child.id],
+      relationshipIds: [rel.id],
+    });
+  }
+}
+
+function checkSpouses(a: FamilyMember, b: FamilyMember, rel: Relationship, issues: ValidationIssue[]) {
+  const married = spanOf(rel.startDate, rel.startDateText);
+  if (married === null) return;
+
+  for (const spouse of [a, b]) {
+    const born = spanOf(spouse.birthDate, spouse.birthDateText);
+    const died = spanOf(spouse.deathDate, spouse.deathDateText);
+    if ((gap(married.latest, born?.earliest) ?? 0) > 0) {
+      issues.push({
+        code: 'married-before-birth',
+        severity: 'error',
+        message: `${nameOf(a)} and ${nameOf(b)} married before ${nameOf(spouse)} was born`,
+        memberIds: [a.id, b.id],
+        relationshipIds: [rel.id],
+      });
+    }
+    if ((gap(died?.latest, married.earliest) ?? 0) > 0) {
+      issues.push({
+        code: 'married-after-death',
+        severity: 'error',
+        message: `${nameOf(a)} and ${nameOf(b)} married after ${nameOf(spouse)} died`,
+        memberIds: [a.id, b.id],
+        relationshipIds: [rel.id],
+      });
+    }
+  }
+}
+
+// Reports each loop of parent-child links once, as the members and links in it
+function findCycles(tree: FamilyTreeData, issues: ValidationIssue[], members: Map<number, FamilyMember>) {
+  const childLinks = new Map<number, Relationship[]>();
+  for (const rel of tree.relationships) {
+    if (rel.type === 'spouse' || !members.has(rel.fromMemberId) || !members.has(rel.toMemberId)) continue;
+    const links = childLinks.get(rel.fromMemberId) ?? [];
+    links.push(rel);
+    childLinks.set(rel.fromMemberId, links);
+  }
+
+  const state = new Map<number, 'visiting' | 'done'>();
+  const stack: Relationship[] = [];
+
+  const visit = (id: number) => {
+    state.set(id, 'visiting');
+    for (const rel of childLinks.get(id) ?? []) {
+      const next = rel.toMemberId;
+      if (state.get(next) === 'visiting') {
+        const start = stack.findIndex(r => r.fromMemberId === next);
+        const loop = [...(start === -1 ? [] : stack.slice(start)), rel];
+        const memberIds = loop.map(r => r.fromMemberId);
+        issues.push({
+          code: 'parent-child-cycle',
+          severity: 'error',
+          message: `${memberIds.map(m => nameOf(members.get(m)!)).join(' → ')} → ${nameOf(members.get(next)!)} form a loop of parent-child links`,
+          memberIds,
+          relationshipIds: loop.map(r => r.id),
+        });
+      } else if (!state.has(next)) {
+        stack.push(rel);
+        visit(next);
+        stack.pop();
+      }
+    }
+    state.set(id, 'done');
+  };
+
+  for (const id of Array.from(members.keys())) {
+    if (!state.has(id)) visit(id);
+  }
+}
+
+/**
+ * Checks the tree for facts that cannot all be true: impossible dates on a
+ * member, parents younger than their children, marriages outside a spouse's
+ * lifetime and loops of parent-child links. Errors come before warnings.
+ */
+export function validateFamilyTree(tree: FamilyTreeData): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const members = new Map(tree.members.map(m => [m.id, m]));
+
+  tree.members.forEach(member => checkMember(member, issues));
+
+  for (const rel of tree.relationships) {
+    const from = members.get(rel.fromMemberId);
+    const to = members.get(rel.toMemberId);
+    if (!from || !to) continue;
+
+    if (rel.type === 'spouse') {
+      checkSpouses(from, to, rel, issues);
+    } else {
+      checkParentChild(from, to, rel, issues);
+    }
+  }
+
+  findCycles(tree, issues, members);
+
+  return issues.sort((a, b) =>
+    a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1
+  );
+}